@@ -0,0 +1,306 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Download, Highlighter, MapPin, MessageSquare, RotateCcw, Trash2, Upload, X } from 'lucide-react';
+import { VIZ_PARAM_PREFIXES } from './Narrative';
+import { usePaper } from './PaperContext';
+import { useAnnotations } from '../hooks/useAnnotations';
+import { useI18n } from '../hooks/useI18n';
+import {
+  Annotation,
+  AnnotationImportError,
+  TextQuote,
+  VizState,
+  addAnnotation,
+  deleteAnnotation,
+  exportAnnotations,
+  getAuthor,
+  importAnnotations,
+  quoteFromRange,
+  setAuthor,
+  threadsOf,
+} from '../lib/annotations';
+import { downloadBlob } from '../lib/capture';
+import { readPrefixedParams, restorePrefixedParams } from '../lib/urlState';
+
+// A passage the reader has selected but not saved yet
+export interface PendingQuote {
+  sectionId: string;
+  quote: TextQuote;
+}
+
+const buttonClass = 'px-2 py-1 border border-gray-700 rounded-sm hover:border-cyber-cyan hover:text-cyber-cyan disabled:opacity-40 disabled:cursor-not-allowed transition-colors';
+const inputClass = 'w-full bg-black border border-gray-800 rounded px-2 py-1 text-white focus:border-cyber-cyan outline-none';
+
+const paramSummary = (state: VizState, fallback: string) => {
+  const entries = Object.entries(state.params);
+  return entries.length > 0 ? entries.map(([key, value]) => `${key}=${value}`).join(' · ') : fallback;
+};
+
+// Offers to annotate text selected inside a section, next to the selection
+export const SelectionAnnotator = ({ onAnnotate }: { onAnnotate: (pending: PendingQuote) => void }) => {
+  const { t } = useI18n();
+  const [selection, setSelection] = useState<(PendingQuote & { top: number; left: number }) | null>(null);
+
+  useEffect(() => {
+    const update = () => {
+      const current = window.getSelection();
+      const range = current && current.rangeCount > 0 ? current.getRangeAt(0) : null;
+      const section = range && !range.collapsed
+        ? (range.commonAncestorContainer instanceof Element ? range.commonAncestorContainer : range.commonAncestorContainer.parentElement)?.closest('section[id]')
+        : null;
+      if (!range || !section || !range.toString().trim()) {
+        setSelection(null);
+        return;
+      }
+      const rect = range.getBoundingClientRect();
+      setSelection({ sectionId: section.id, quote: quoteFromRange(section, range), top: rect.top, left: rect.left + rect.width / 2 });
+    };
+    document.addEventListener('selectionchange', update);
+    return () => document.removeEventListener('selectionchange', update);
+  }, []);
+
+  if (!selection) return null;
+
+  return (
+    <button
+      // Keep the selection alive while clicking
+      onMouseDown={e => e.preventDefault()}
+      onClick={() => {
+        onAnnotate({ sectionId: selection.sectionId, quote: selection.quote });
+        window.getSelection()?.removeAllRanges();
+      }}
+      className="fixed z-50 -translate-x-1/2 -translate-y-full -mt-2 flex items-center gap-1 px-2 py-1 bg-black/90 border border-cyber-yellow text-cyber-yellow font-mono text-[10px] tracking-[0.2em] uppercase rounded-sm shadow-2xl hover:bg-cyber-yellow/10"
+      style={{ top: selection.top, left: selection.left }}
+    >
+      <Highlighter size={12} /> {t('annotations.annotate')}
+    </button>
+  );
+};
+
+const Entry = ({ annotation, deleteLabel }: { annotation: Annotation; deleteLabel: string }) => {
+  const { t, locale } = useI18n();
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between gap-2 text-gray-500">
+        <span className="truncate">
+          <span className="text-gray-300">{annotation.author || t('annotations.anonymous')}</span>
+          {' · '}
+          {new Date(annotation.createdAt).toLocaleString(locale, { dateStyle: 'medium', timeStyle: 'short' })}
+        </span>
+        <button onClick={() => deleteAnnotation(annotation.id)} className="shrink-0 hover:text-cyber-red" aria-label={deleteLabel} title={deleteLabel}>
+          <Trash2 size={10} />
+        </button>
+      </div>
+      {annotation.body && <p className="text-gray-200 text-xs leading-relaxed whitespace-pre-wrap font-sans">{annotation.body}</p>}
+    </div>
+  );
+};
+
+const ThreadCard = ({ root, replies, active, missing, onSelect, onRestore }: {
+  root: Annotation;
+  replies: Annotation[];
+  active: boolean;
+  missing: boolean;
+  onSelect: () => void;
+  onRestore: (state: VizState) => void;
+}) => {
+  const { t } = useI18n();
+  const [reply, setReply] = useState('');
+
+  const send = () => {
+    if (!reply.trim()) return;
+    addAnnotation({ sectionId: root.sectionId, parentId: root.id, body: reply.trim(), author: getAuthor() });
+    setReply('');
+  };
+
+  return (
+    <li className={`border rounded p-3 space-y-2 ${active ? 'border-cyber-yellow/60 bg-cyber-yellow/5' : 'border-gray-800'}`}>
+      {root.quote && (
+        <button onClick={onSelect} className="block w-full text-start border-s-2 border-cyber-yellow ps-2 text-gray-400 italic font-sans text-xs hover:text-white">
+          “{root.quote.exact}”
+          {missing && <span className="block not-italic font-mono text-[10px] text-cyber-red mt-1">{t('annotations.missing')}</span>}
+        </button>
+      )}
+      {root.vizState && (
+        <div className="flex items-start justify-between gap-2">
+          <button onClick={onSelect} className="flex items-start gap-1 text-start text-cyber-cyan break-all hover:text-white">
+            <MapPin size={10} className="shrink-0 mt-0.5" /> {paramSummary(root.vizState, t('annotations.defaults'))}
+          </button>
+          <button onClick={() => onRestore(root.vizState as VizState)} className={`${buttonClass} shrink-0 flex items-center gap-1`} title={t('annotations.restoreTitle')}>
+            <RotateCcw size={10} /> {t('annotations.restore')}
+          </button>
+        </div>
+      )}
+      <Entry annotation={root} deleteLabel={t('annotations.deleteThread')} />
+      {replies.length > 0 && (
+        <ul className="space-y-2 border-s border-gray-800 ps-3">
+          {replies.map(annotation => <li key={annotation.id}><Entry annotation={annotation} deleteLabel={t('annotations.deleteReply')} /></li>)}
+        </ul>
+      )}
+      <div className="flex gap-1">
+        <input
+          value={reply}
+          onChange={e => setReply(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Enter') send(); }}
+          placeholder={t('annotations.reply')}
+          aria-label={t('annotations.reply')}
+          className={inputClass}
+        />
+        <button onClick={send} disabled={!reply.trim()} className={buttonClass}>{t('annotations.send')}</button>
+      </div>
+    </li>
+  );
+};
+
+// Threads of highlights and pinned notes, grouped by section in paper
+// order. New annotations go on the pending selection, or else on the
+// section in view.
+export const AnnotationSidebar = ({ activeSectionId, activeId, missing, pending, onSelect, onClearPending, onNavigate, onClose }: {
+  activeSectionId: string;
+  activeId: string | null;
+  missing: Set<string>;
+  pending: PendingQuote | null;
+  onSelect: (annotationId: string | null) => void;
+  onClearPending: () => void;
+  onNavigate: (sectionId: string) => void;
+  onClose: () => void;
+}) => {
+  const { sections } = usePaper();
+  const annotations = useAnnotations();
+  const { t } = useI18n();
+  const [author, setAuthorName] = useState(getAuthor);
+  const [body, setBody] = useState('');
+  const [pin, setPin] = useState(false);
+  const [message, setMessage] = useState<{ text: string; failed: boolean } | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const targetId = pending?.sectionId ?? activeSectionId;
+  const target = sections.find(section => section.id === targetId);
+  const viz = target?.kind === 'text-viz' ? target.viz : null;
+  const threads = useMemo(() => threadsOf(annotations), [annotations]);
+
+  const save = async () => {
+    const vizState = pin && viz ? { viz, params: readPrefixedParams(VIZ_PARAM_PREFIXES[viz]) } : undefined;
+    if (!body.trim() && !pending && !vizState) return;
+    const saved = await addAnnotation({ sectionId: targetId, quote: pending?.quote, vizState, body: body.trim(), author });
+    setBody('');
+    setPin(false);
+    onSelect(saved.id);
+    onClearPending();
+  };
+
+  const select = (annotation: Annotation) => {
+    onSelect(annotation.id);
+    onNavigate(annotation.sectionId);
+  };
+
+  const restore = (annotation: Annotation, state: VizState) => {
+    if (state.viz in VIZ_PARAM_PREFIXES) restorePrefixedParams(VIZ_PARAM_PREFIXES[state.viz], state.params);
+    select(annotation);
+  };
+
+  const runImport = async (file: File) => {
+    try {
+      const count = await importAnnotations(await file.text());
+      setMessage({ text: t('annotations.imported', { count }), failed: false });
+    } catch (err) {
+      setMessage({ text: t('annotations.importFailed', { message: err instanceof AnnotationImportError ? err.message : String(err) }), failed: true });
+    }
+  };
+
+  return (
+    <aside className="fixed top-4 bottom-4 start-4 z-40 w-[min(92vw,360px)] flex flex-col bg-black/90 backdrop-blur-xl border border-gray-800 rounded-lg font-mono text-[10px] text-gray-300 shadow-2xl" aria-label={t('annotations.title')}>
+      <div className="flex items-center justify-between gap-2 border-b border-gray-800 p-4 pb-2 text-xs tracking-widest text-white">
+        <span className="flex items-center gap-2 uppercase"><MessageSquare size={14} className="text-cyber-yellow" /> {t('annotations.title')}</span>
+        <span className="flex items-center gap-1 text-[10px]">
+          <button
+            onClick={() => downloadBlob(new Blob([JSON.stringify(exportAnnotations(), null, 2)], { type: 'application/json' }), 'annotations.json')}
+            disabled={annotations.length === 0}
+            className={`${buttonClass} flex items-center gap-1`}
+          >
+            <Download size={10} /> {t('annotations.export')}
+          </button>
+          <button onClick={() => inputRef.current?.click()} className={`${buttonClass} flex items-center gap-1`}>
+            <Upload size={10} /> {t('annotations.import')}
+          </button>
+          <input
+            ref={inputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) runImport(file);
+              e.target.value = '';
+            }}
+          />
+          <button onClick={onClose} className="ms-1 text-gray-500 hover:text-cyber-red" aria-label={t('annotations.close')}><X size={14} /></button>
+        </span>
+      </div>
+
+      <div className="p-4 space-y-2 border-b border-gray-800">
+        <input
+          value={author}
+          onChange={e => { setAuthorName(e.target.value); setAuthor(e.target.value); }}
+          placeholder={t('annotations.author')}
+          aria-label={t('annotations.author')}
+          className={inputClass}
+        />
+        <div className="text-gray-500 tracking-[0.2em] uppercase">{t('annotations.on', { section: target?.title ?? targetId })}</div>
+        {pending && (
+          <div className="flex items-start justify-between gap-2 border-s-2 border-cyber-yellow ps-2">
+            <span className="text-gray-400 italic font-sans text-xs line-clamp-3">“{pending.quote.exact}”</span>
+            <button onClick={onClearPending} className="shrink-0 text-gray-500 hover:text-cyber-red" aria-label={t('annotations.discard')}><X size={12} /></button>
+          </div>
+        )}
+        {viz && (
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={pin} onChange={e => setPin(e.target.checked)} className="accent-cyber-cyan" />
+            {t('annotations.pin')}
+          </label>
+        )}
+        <textarea
+          value={body}
+          onChange={e => setBody(e.target.value)}
+          placeholder={t('annotations.comment')}
+          aria-label={t('annotations.comment')}
+          rows={3}
+          className={`${inputClass} resize-none font-sans text-xs`}
+        />
+        <button onClick={save} disabled={!body.trim() && !pending && !(pin && viz)} className={`${buttonClass} w-full`}>{t('annotations.save')}</button>
+        {message && <div className={message.failed ? 'text-cyber-red' : 'text-gray-400'}>{message.text}</div>}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {threads.length === 0 && <p className="text-gray-600 leading-relaxed">{t('annotations.empty')}</p>}
+        {sections.map(section => {
+          const sectionThreads = threads.filter(thread => thread.root.sectionId === section.id);
+          if (sectionThreads.length === 0) return null;
+          return (
+            <div key={section.id} className="space-y-2">
+              <button onClick={() => onNavigate(section.id)} className="text-gray-500 tracking-[0.2em] uppercase hover:text-cyber-cyan">{section.title}</button>
+              <ul className="space-y-2">
+                {sectionThreads.map(({ root, replies }) => (
+                  <ThreadCard
+                    key={root.id}
+                    root={root}
+                    replies={replies}
+                    active={root.id === activeId}
+                    missing={missing.has(root.id)}
+                    onSelect={() => select(root)}
+                    onRestore={state => restore(root, state)}
+                  />
+                ))}
+              </ul>
+            </div>
+          );
+        })}
+        <p className="text-gray-600 leading-relaxed">{t('annotations.stored')}</p>
+      </div>
+    </aside>
+  );
+};
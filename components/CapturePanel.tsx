@@ -0,0 +1,178 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { Camera, Film, Image, X } from 'lucide-react';
+import { VIZ_TITLES } from './Narrative';
+import { usePaper } from './PaperContext';
+import { useCaptureTargets } from '../hooks/useCaptureTargets';
+import { useI18n } from '../hooks/useI18n';
+import { TextVizSection } from '../types';
+import { RecordOptions, downloadBlob, elementToSvg, webmMimeType } from '../lib/capture';
+
+const RESOLUTIONS: [number, number][] = [
+  [1920, 1080],
+  [2560, 1440],
+  [3840, 2160],
+  [7680, 4320],
+];
+const FRAME_RATES = [24, 30, 60];
+
+const buttonClass = 'px-2 py-1 border border-gray-700 rounded-sm hover:border-cyber-cyan hover:text-cyber-cyan disabled:opacity-40 disabled:cursor-not-allowed transition-colors';
+
+// Exports figures: 3D scenes as PNG (any resolution the GPU allows) or a
+// deterministic-clock recording, diagram cards as standalone SVG.
+export const CapturePanel = ({ onClose }: { onClose: () => void }) => {
+  const { sections } = usePaper();
+  const targets = useCaptureTargets();
+  const { t } = useI18n();
+  const [[width, height], setSize] = useState<[number, number]>(RESOLUTIONS[0]);
+  const [duration, setDuration] = useState(5);
+  const [fps, setFps] = useState(30);
+  const [format, setFormat] = useState<RecordOptions['format']>(webmMimeType() ? 'webm' : 'png-sequence');
+  const [busy, setBusy] = useState<string | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [message, setMessage] = useState<{ text: string; failed: boolean } | null>(null);
+
+  const diagrams = sections.filter((section): section is TextVizSection => section.kind === 'text-viz');
+
+  const run = async (label: string, task: () => Promise<void>) => {
+    setBusy(label);
+    setProgress(0);
+    setMessage(null);
+    try {
+      await task();
+      setMessage({ text: t('capture.saved', { name: label }), failed: false });
+    } catch (err) {
+      setMessage({ text: t('capture.failed', { error: (err as Error).message }), failed: true });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const sizeInput = (value: number, onChange: (v: number) => void, label: string) => (
+    <input
+      type="number"
+      min={16}
+      max={16384}
+      value={value}
+      aria-label={label}
+      onChange={e => onChange(Math.max(16, Math.min(16384, parseInt(e.target.value) || 16)))}
+      className="w-20 bg-black border border-gray-800 rounded px-2 py-1 text-white focus:border-cyber-cyan outline-none"
+    />
+  );
+
+  return (
+    <div className="fixed bottom-4 start-4 z-50 w-[min(92vw,360px)] max-h-[80vh] overflow-y-auto bg-black/90 backdrop-blur-xl border border-gray-800 rounded-lg p-4 font-mono text-[10px] text-gray-300 space-y-4 shadow-2xl" role="dialog" aria-label={t('capture.dialog')}>
+      <div className="flex items-center justify-between border-b border-gray-800 pb-2 text-xs tracking-widest text-white">
+        <span className="flex items-center gap-2"><Camera size={14} className="text-cyber-cyan" /> {t('capture.title')}</span>
+        <button onClick={onClose} className="text-gray-500 hover:text-cyber-red" aria-label={t('capture.close')}><X size={14} /></button>
+      </div>
+
+      <div className="space-y-2">
+        <div className="text-gray-500 tracking-[0.2em] uppercase">{t('capture.resolution')}</div>
+        <div className="flex flex-wrap gap-1">
+          {RESOLUTIONS.map(([w, h]) => (
+            <button key={w} onClick={() => setSize([w, h])} className={`${buttonClass} ${w === width && h === height ? 'border-cyber-cyan text-cyber-cyan' : ''}`}>
+              {w}×{h}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          {sizeInput(width, w => setSize([w, height]), t('capture.width'))}
+          <span>×</span>
+          {sizeInput(height, h => setSize([width, h]), t('capture.height'))}
+          <span className="text-gray-500">{t('capture.pixels')}</span>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="text-gray-500 tracking-[0.2em] uppercase">{t('capture.recording')}</div>
+        <div className="flex flex-wrap items-center gap-2">
+          <label className="flex items-center gap-1">
+            <input
+              type="number"
+              min={1}
+              max={60}
+              value={duration}
+              onChange={e => setDuration(Math.max(1, Math.min(60, parseInt(e.target.value) || 1)))}
+              className="w-14 bg-black border border-gray-800 rounded px-2 py-1 text-white focus:border-cyber-cyan outline-none"
+            />
+            {t('capture.seconds')}
+          </label>
+          {FRAME_RATES.map(rate => (
+            <button key={rate} onClick={() => setFps(rate)} className={`${buttonClass} ${fps === rate ? 'border-cyber-cyan text-cyber-cyan' : ''}`}>{t('capture.fps', { fps: rate })}</button>
+          ))}
+        </div>
+        <div className="flex gap-1">
+          <button onClick={() => setFormat('webm')} disabled={!webmMimeType()} className={`${buttonClass} ${format === 'webm' ? 'border-cyber-cyan text-cyber-cyan' : ''}`}>{t('capture.webm')}</button>
+          <button onClick={() => setFormat('png-sequence')} className={`${buttonClass} ${format === 'png-sequence' ? 'border-cyber-cyan text-cyber-cyan' : ''}`}>{t('capture.pngFrames')}</button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="text-gray-500 tracking-[0.2em] uppercase">{t('capture.scenes')}</div>
+        {targets.length === 0 && <div className="text-gray-600">{t('capture.noScene')}</div>}
+        {targets.map(target => {
+          const tooLarge = width > target.maxSize || height > target.maxSize;
+          return (
+            <div key={target.id} className="flex items-center justify-between gap-2">
+              <span className="truncate" title={target.id}>{target.label}</span>
+              <span className="flex gap-1 shrink-0">
+                <button
+                  disabled={!!busy || tooLarge}
+                  title={tooLarge ? t('capture.gpuLimit', { size: target.maxSize }) : undefined}
+                  onClick={() => run(`${target.id}.png`, async () => downloadBlob(await target.capturePng(width, height), `${target.id}-${width}x${height}.png`))}
+                  className={`${buttonClass} flex items-center gap-1`}
+                >
+                  <Image size={10} /> {t('capture.png')}
+                </button>
+                <button
+                  disabled={!!busy || tooLarge}
+                  onClick={() => run(t('capture.recordingOf', { id: target.id }), async () => {
+                    const blob = await target.record({ width, height, duration, fps, format, onProgress: setProgress });
+                    downloadBlob(blob, format === 'webm' ? `${target.id}.webm` : `${target.id}-frames.zip`);
+                  })}
+                  className={`${buttonClass} flex items-center gap-1`}
+                >
+                  <Film size={10} /> {t('capture.record')}
+                </button>
+              </span>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="space-y-2">
+        <div className="text-gray-500 tracking-[0.2em] uppercase">{t('capture.diagrams')}</div>
+        {diagrams.map(section => (
+          <div key={section.id} className="flex items-center justify-between gap-2">
+            <span className="truncate" title={t(VIZ_TITLES[section.viz])}>{section.title}</span>
+            <button
+              disabled={!!busy}
+              onClick={() => run(`${section.id}.svg`, async () => {
+                const card = document.querySelector(`[data-snapshot="${section.id}"]`)?.firstElementChild;
+                if (!card) throw new Error(t('capture.missingDiagram'));
+                downloadBlob(new Blob([elementToSvg(card)], { type: 'image/svg+xml' }), `${section.id}.svg`);
+              })}
+              className={buttonClass}
+            >
+              {t('capture.svg')}
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {busy && (
+        <div className="space-y-1">
+          <div className="text-cyber-cyan">&gt; {busy}…</div>
+          <div className="h-1 bg-gray-800"><div className="h-full bg-cyber-cyan transition-all" style={{ width: `${progress * 100}%` }}></div></div>
+        </div>
+      )}
+      {!busy && message && <div className={message.failed ? 'text-cyber-red' : 'text-gray-400'}>{message.text}</div>}
+      <div className="text-gray-600 leading-relaxed">{t('capture.note')}</div>
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useEffect } from 'react';
+import { RootState, useThree } from '@react-three/fiber';
+import { PerspectiveCamera } from 'three';
+import { RecordOptions, canvasToBlob, registerCaptureTarget, webmMimeType } from '../lib/capture';
+import { createZip } from '../lib/zip';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Renders at width × height (independent of the on-screen size) for the
+// duration of `draw`, then restores the canvas
+const atResolution = async <T,>(state: RootState, width: number, height: number, draw: () => Promise<T>): Promise<T> => {
+  const { gl, camera, size } = state;
+  const pixelRatio = gl.getPixelRatio();
+  const setAspect = (aspect: number) => {
+    if (camera instanceof PerspectiveCamera) {
+      camera.aspect = aspect;
+      camera.updateProjectionMatrix();
+    }
+  };
+
+  gl.setPixelRatio(1);
+  gl.setSize(width, height, false);
+  setAspect(width / height);
+  try {
+    return await draw();
+  } finally {
+    gl.setPixelRatio(pixelRatio);
+    gl.setSize(size.width, size.height, false);
+    setAspect(size.width / size.height);
+  }
+};
+
+// Steps the scene clock by exactly 1/fps per frame instead of following
+// wall time, so every recording of the same scene is identical
+const recordFrames = async (get: () => RootState, { width, height, duration, fps, format, onProgress }: RecordOptions): Promise<Blob> => {
+  const state = get();
+  const canvas = state.gl.domElement;
+  const frames = Math.max(1, Math.round(duration * fps));
+  const mimeType = format === 'webm' ? webmMimeType() : undefined;
+  if (format === 'webm' && !mimeType) throw new Error('This browser cannot record WebM video.');
+
+  const frameloop = state.frameloop;
+  state.setFrameloop('never');
+  try {
+    return await atResolution(state, width, height, async () => {
+      if (format === 'png-sequence') {
+        const entries = [];
+        for (let i = 0; i < frames; i++) {
+          get().advance(i / fps);
+          const blob = await canvasToBlob(canvas);
+          entries.push({ name: `frame-${String(i).padStart(5, '0')}.png`, data: new Uint8Array(await blob.arrayBuffer()) });
+          onProgress?.((i + 1) / frames);
+        }
+        return createZip(entries);
+      }
+
+      // MediaRecorder timestamps follow wall time, so frames are
+      // requested at the real frame interval
+      const stream = canvas.captureStream(0);
+      const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+      const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 12_000_000 });
+      const chunks: Blob[] = [];
+      recorder.ondataavailable = event => { if (event.data.size > 0) chunks.push(event.data); };
+      const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+      recorder.start();
+      for (let i = 0; i < frames; i++) {
+        get().advance(i / fps);
+        track.requestFrame();
+        onProgress?.((i + 1) / frames);
+        await sleep(1000 / fps);
+      }
+      recorder.stop();
+      await stopped;
+      stream.getTracks().forEach(t => t.stop());
+      return new Blob(chunks, { type: mimeType });
+    });
+  } finally {
+    get().setFrameloop(frameloop);
+  }
+};
+
+// Registers the surrounding <Canvas> with the capture tool; renders nothing
+export const CaptureTarget = ({ id, label }: { id: string; label: string }) => {
+  const get = useThree(state => state.get);
+
+  useEffect(() => registerCaptureTarget({
+    id,
+    label,
+    maxSize: get().gl.capabilities.maxTextureSize,
+    capturePng: (width, height) => {
+      const state = get();
+      return atResolution(state, width, height, () => {
+        state.gl.render(state.scene, state.camera);
+        return canvasToBlob(state.gl.domElement);
+      });
+    },
+    record: options => recordFrames(get, options),
+  }), [id, label, get]);
+
+  return null;
+};
@@ -0,0 +1,122 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useId, useRef, useState } from 'react';
+import { ExternalLink, Quote } from 'lucide-react';
+import { MathText } from './TeX';
+import { useBibliography } from './PaperContext';
+import { useI18n } from '../hooks/useI18n';
+import { jumpToElement } from '../lib/glossary';
+import { CitationItem, formatReference, referenceAnchor, referenceLink } from '../lib/references';
+import { Reference } from '../types';
+
+const TOOLTIP_WIDTH = 320;
+
+// One numbered mark with a hover/focus preview of the entry, styled like
+// the glossary tooltips. Clicking jumps to the entry in the references.
+const CitationMark = ({ entry, number, locator }: { entry: Reference; number: number; locator?: string }) => {
+  const [offset, setOffset] = useState(0);
+  const [isVisible, setIsVisible] = useState(false);
+  const spanRef = useRef<HTMLSpanElement>(null);
+  const tipId = `cite-${useId().replace(/:/g, '')}`;
+  const link = referenceLink(entry);
+  const { t } = useI18n();
+
+  const show = (visible: boolean) => {
+    if (visible && spanRef.current) {
+      // Keep the card inside the viewport
+      const rect = spanRef.current.getBoundingClientRect();
+      const width = Math.min(TOOLTIP_WIDTH, window.innerWidth - 32);
+      const center = rect.left + rect.width / 2;
+      const overflowRight = center + width / 2 - (window.innerWidth - 16);
+      const overflowLeft = 16 - (center - width / 2);
+      setOffset(overflowRight > 0 ? -overflowRight : overflowLeft > 0 ? overflowLeft : 0);
+    }
+    setIsVisible(visible);
+  };
+
+  return (
+    <span
+      ref={spanRef}
+      className="relative inline-block z-30"
+      onMouseEnter={() => show(true)}
+      onMouseLeave={() => show(false)}
+      onFocus={() => show(true)}
+      onBlur={(e) => { if (!spanRef.current?.contains(e.relatedTarget as Node | null)) show(false); }}
+      onKeyDown={(e) => {
+        if (e.key === 'Escape' && isVisible) {
+          e.stopPropagation();
+          show(false);
+        }
+      }}
+    >
+      <a
+        href={`#${referenceAnchor(entry.id)}`}
+        aria-describedby={tipId}
+        onClick={(e) => { e.preventDefault(); show(false); jumpToElement(referenceAnchor(entry.id)); }}
+        className="text-cyber-cyan font-mono hover:bg-cyber-cyan/10 rounded-sm outline-none focus-visible:ring-2 focus-visible:ring-cyber-cyan"
+      >
+        {number}{locator && <span className="text-gray-400">, {locator}</span>}
+      </a>
+      <span
+        id={tipId}
+        role="tooltip"
+        className={`fixed md:absolute top-auto bottom-12 md:bottom-full left-4 right-4 md:left-1/2 md:right-auto md:w-[320px] ${isVisible ? 'pointer-events-auto' : 'pointer-events-none'} z-[1000] transition-all duration-300 ease-out ${isVisible ? 'opacity-100 translate-y-0 visible' : 'opacity-0 translate-y-2 invisible'}`}
+        style={{ marginLeft: window.innerWidth >= 768 ? -TOOLTIP_WIDTH / 2 + offset : 0 }}
+      >
+        <span className="block bg-cyber-black/95 backdrop-blur-xl border border-cyber-cyan/50 text-gray-200 text-sm shadow-[0_0_50px_rgba(0,0,0,0.8)] rounded-lg overflow-hidden">
+          <span className="bg-cyber-cyan/10 px-3 py-2 text-[10px] font-mono text-cyber-cyan border-b border-cyber-cyan/20 uppercase tracking-[0.2em] flex items-center gap-2">
+            <Quote size={12} /> {t('citation.reference', { number })}
+          </span>
+          <span className="block px-4 py-3 font-mono leading-relaxed text-start text-xs sm:text-sm">
+            <MathText text={formatReference(entry, false)} />
+            {locator && <span className="block text-gray-500 mt-1">{t('citation.citedAt', { locator })}</span>}
+          </span>
+          {link && (
+            <a
+              href={link}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="mx-4 mb-3 flex items-center gap-2 text-[10px] font-mono text-cyber-cyan hover:underline break-all text-start"
+            >
+              <ExternalLink size={10} className="shrink-0" /> {link}
+            </a>
+          )}
+        </span>
+        <span
+          className="hidden md:block absolute top-full left-1/2 -translate-x-1/2 w-0 h-0 border-l-[6px] border-r-[6px] border-t-[6px] border-l-transparent border-r-transparent border-t-cyber-cyan/50"
+          style={{ marginLeft: -offset }}
+        ></span>
+      </span>
+    </span>
+  );
+};
+
+// `[1, 3]` for one citation group; `plain` leaves out the previews (print)
+export const Citation = ({ items, plain = false }: { items: CitationItem[]; plain?: boolean }) => {
+  const bibliography = useBibliography();
+  const marks = items.map(({ key, locator }) => {
+    const entry = bibliography?.entries.find(ref => ref.id === key);
+    const number = bibliography?.numbers.get(key);
+    return { key, locator, entry, number };
+  });
+
+  return (
+    <span className="whitespace-nowrap">
+      [
+      {marks.map(({ key, locator, entry, number }, idx) => (
+        <React.Fragment key={`${key}${idx}`}>
+          {idx > 0 && ', '}
+          {!entry || !number
+            ? `@${key}`
+            : plain
+              ? <>{number}{locator && `, ${locator}`}</>
+              : <CitationMark entry={entry} number={number} locator={locator} />}
+        </React.Fragment>
+      ))}
+      ]
+    </span>
+  );
+};
@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+
+// Range input over decades: the thumb moves in log10(value)
+export const LogSlider = ({
+  label,
+  value,
+  min,
+  max,
+  onChange,
+  format,
+  accent = 'cyan',
+}: {
+  label: React.ReactNode;
+  value: number;
+  min: number;
+  max: number;
+  onChange: (value: number) => void;
+  format: (value: number) => string;
+  accent?: 'cyan' | 'yellow' | 'red';
+}) => {
+  const accentClass = {
+    cyan: 'text-cyber-cyan accent-cyber-cyan',
+    yellow: 'text-cyber-yellow accent-cyber-yellow',
+    red: 'text-cyber-red accent-cyber-red',
+  }[accent];
+
+  return (
+    <label className="block">
+      <div className="flex justify-between text-[10px] font-mono mb-2">
+        <span className={accentClass}>{label}</span>
+        <span className="text-white">{format(value)}</span>
+      </div>
+      <input
+        type="range"
+        min={Math.log10(min)}
+        max={Math.log10(max)}
+        step={0.01}
+        value={Math.log10(value)}
+        aria-valuetext={format(value)}
+        onChange={(e) => onChange(Math.pow(10, parseFloat(e.target.value)))}
+        className={`w-full h-2 md:h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer ${accentClass} hover:accent-white transition-all`}
+      />
+    </label>
+  );
+};
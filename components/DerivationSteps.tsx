@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useId, useState } from 'react';
+import { ChevronDown, ChevronLeft, ChevronRight, ListOrdered, RotateCcw } from 'lucide-react';
+import { RichText } from './RichText';
+import { TeX } from './TeX';
+import { useRevealStep } from './PaperContext';
+import { useTheme } from '../hooks/useTheme';
+import { useI18n } from '../hooks/useI18n';
+import { highlightChanges } from '../lib/derivation';
+import { DerivationStep } from '../types';
+
+// Steps through a derivation one equation at a time. The newest step shows
+// the terms that changed since the one before; each step can expand to its
+// substitution details. In presentation mode the slide's fragments drive
+// the current step, starting at `firstFragment`.
+export const DerivationSteps = ({ steps, firstFragment }: { steps: DerivationStep[]; firstFragment: number }) => {
+  const { cyber } = useTheme();
+  const { t } = useI18n();
+  const reveal = useRevealStep();
+  const presenting = reveal !== Infinity;
+  const [current, setCurrent] = useState(0);
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+  const idPrefix = `derivation-${useId().replace(/:/g, '')}`;
+
+  const active = presenting ? Math.min(Math.max(reveal - firstFragment - 1, 0), steps.length - 1) : current;
+  const { tex: highlighted, changed } = highlightChanges(steps[active - 1]?.tex, steps[active].tex, cyber.yellow);
+
+  const toggle = (index: number) =>
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index); else next.add(index);
+      return next;
+    });
+
+  return (
+    <div className="text-start border border-gray-800 rounded-lg bg-cyber-dark/60">
+        <div className="flex items-center justify-between gap-4 px-4 py-2 border-b border-gray-800 font-mono text-[10px] tracking-[0.2em] uppercase">
+            <span className="flex items-center gap-2 text-cyber-cyan"><ListOrdered size={12} /> {t('derivation.step', { current: active + 1, total: steps.length })}</span>
+            {!presenting && (
+                <div className="flex items-center gap-1">
+                    <button
+                        onClick={() => setCurrent(0)}
+                        disabled={active === 0}
+                        aria-label={t('derivation.first')}
+                        className="p-1 text-gray-400 hover:text-white disabled:opacity-30"
+                    >
+                        <RotateCcw size={12} />
+                    </button>
+                    <button
+                        onClick={() => setCurrent(Math.max(0, active - 1))}
+                        disabled={active === 0}
+                        aria-label={t('derivation.previous')}
+                        className="p-1 text-gray-400 hover:text-white disabled:opacity-30"
+                    >
+                        <ChevronLeft size={14} className="rtl:rotate-180" />
+                    </button>
+                    {steps.map((_, idx) => (
+                        <button
+                            key={idx}
+                            onClick={() => setCurrent(idx)}
+                            aria-label={t('derivation.goto', { step: idx + 1 })}
+                            aria-current={idx === active ? 'step' : undefined}
+                            className={`w-2 h-2 mx-0.5 rounded-full transition-colors ${idx === active ? 'bg-cyber-cyan' : idx < active ? 'bg-cyber-cyan/40' : 'bg-gray-700 hover:bg-gray-500'}`}
+                        />
+                    ))}
+                    <button
+                        onClick={() => setCurrent(Math.min(steps.length - 1, active + 1))}
+                        disabled={active === steps.length - 1}
+                        aria-label={t('derivation.next')}
+                        className="p-1 text-gray-400 hover:text-white disabled:opacity-30"
+                    >
+                        <ChevronRight size={14} className="rtl:rotate-180" />
+                    </button>
+                </div>
+            )}
+        </div>
+
+        <ol className="divide-y divide-gray-800/60">
+            {steps.slice(0, active + 1).map((step, idx) => {
+                const isActive = idx === active;
+                const open = expanded.has(idx);
+                const detailsId = `${idPrefix}-step-${idx}`;
+                return (
+                    <li key={idx} className={`px-4 py-3 grid grid-cols-[2rem_1fr] gap-x-3 transition-opacity ${isActive ? '' : 'opacity-50'}`}>
+                        <span className={`font-mono text-xs pt-2 ${isActive ? 'text-cyber-cyan' : 'text-gray-600'}`}>({idx + 1})</span>
+                        <div className="min-w-0 space-y-2">
+                            <div className={`text-white overflow-x-auto ${isActive ? 'text-lg md:text-xl' : 'text-base'}`}>
+                                <TeX source={isActive ? highlighted : step.tex} display />
+                            </div>
+                            <p className="text-gray-400 text-sm leading-relaxed">
+                                <RichText text={step.justification} />
+                            </p>
+                            {isActive && changed > 0 && (
+                                <p className="font-mono text-[10px] text-gray-500 tracking-widest uppercase">
+                                    <span className="text-cyber-yellow">■</span> {t('derivation.changed', { step: idx })}
+                                </p>
+                            )}
+                            {step.details && (
+                                <>
+                                    <button
+                                        onClick={() => toggle(idx)}
+                                        aria-expanded={open}
+                                        aria-controls={detailsId}
+                                        className="flex items-center gap-1 font-mono text-[10px] tracking-[0.2em] uppercase text-gray-500 hover:text-cyber-cyan"
+                                    >
+                                        <ChevronDown size={12} className={`transition-transform ${open ? 'rotate-180' : ''}`} /> {t('derivation.substitution')}
+                                    </button>
+                                    {open && (
+                                        <ul id={detailsId} className="space-y-1 border-s-2 border-cyber-cyan/30 ps-3 text-gray-300 text-sm">
+                                            {step.details.map((line, lineIdx) => <li key={lineIdx}><RichText text={line} /></li>)}
+                                        </ul>
+                                    )}
+                                </>
+                            )}
+                        </div>
+                    </li>
+                );
+            })}
+        </ol>
+
+        <p className="sr-only" aria-live="polite" aria-atomic="true">
+            {changed > 0
+                ? t('derivation.summaryChanged', { current: active + 1, total: steps.length, count: changed })
+                : t('derivation.summary', { current: active + 1, total: steps.length })}
+        </p>
+    </div>
+  );
+};
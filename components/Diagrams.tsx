@@ -4,14 +4,82 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState, useEffect, useMemo, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef, useId, useCallback, startTransition } from 'react';
 import { motion } from 'framer-motion';
-import { Activity, Sigma, ChevronRight, Zap, Terminal, Sliders } from 'lucide-react';
+import { Activity, Sigma, ChevronLeft, ChevronRight, Zap, Terminal, Sliders, Pause, Play, RotateCcw, SkipBack, SkipForward, Dices, Grid3x3, X, AlertTriangle } from 'lucide-react';
+import { MathText, TeX } from './TeX';
+import { useGlossary, useSectionId } from './PaperContext';
+import { HistogramPlot, LinePlot, LogLogPlot, PhaseCell, PhaseMapPlot } from './Plots';
+import { LogSlider } from './Controls';
+import { getRelatedTerms, getTerm, glossaryAnchor, jumpToElement, registerTermUsage } from '../lib/glossary';
+import {
+  CollapseParams,
+  DEFAULT_COLLAPSE_PARAMS,
+  DISTRIBUTIONS,
+  PARAM_RANGES,
+  PHASE_SWEEPS,
+  PhaseAxis,
+  REFERENCE_SYSTEMS,
+  computeCollapse,
+  phaseAxisValue,
+  referenceTau,
+  sweepSeparation,
+} from '../lib/diosiPenrose';
+import { COLLAPSE_MODELS, CollapseModel, TrialSet, collapseHistogram, collapseRate, meanTime } from '../lib/collapseModels';
+import { CHANNELS, DENSITY_DIM, DENSITY_DURATION, MAX_ENTROPY, channelModel, evolveDensity, trajectoryScale } from '../lib/decoherence';
+import { ELECTRON_VOLT } from '../lib/constants';
+import {
+  ALPHA_RANGE,
+  Factor,
+  MAX_FACTORS,
+  OPERATOR_IDS,
+  Observables,
+  OperatorId,
+  activeOperators,
+  analyzeProduct,
+  applyProduct,
+  buildHamiltonian,
+  initialState,
+  measure,
+} from '../lib/quantumState';
+import { useQuantumEvolution } from '../hooks/useQuantumEvolution';
+import { useUrlParam, useUrlParams } from '../hooks/useUrlState';
+import { useComputeJob } from '../hooks/useComputeJob';
+import { useReducedMotion } from '../hooks/useReducedMotion';
+import { useTheme } from '../hooks/useTheme';
+import { useI18n } from '../hooks/useI18n';
+import { Theme, channels, withAlpha } from '../lib/theme';
+import { I18n } from '../lib/i18n';
+import { MessageKey } from '../lib/messages';
+import { ParamCodec, ParamSchema, booleanParam, clampedParam, enumParam, integerParam, numberParam } from '../lib/urlState';
+import { Complex, expectation, normalize } from '../lib/linalg';
+import { BlochVector, precessionHamiltonian, productState, reducedBloch, stateFromAngles, stateFromBloch } from '../lib/qubit';
+import { HilbertSpaceScene } from './QuantumScene';
+import { INTEGRANDS, Integrand, QuadratureRule, RULES, effectivePanels, errorCurve, integrate } from '../lib/quadrature';
 
-export const MathTooltip = ({ children, tip, title = "DEFINITION" }: { children?: React.ReactNode; tip: string; title?: string }) => {
+// `term` looks the definition up in the paper glossary; `tip`, `title` and
+// `tex` override it. Children replace the rendered symbol. The tip itself
+// may contain `$...$` math.
+export const MathTooltip = ({ children, term, tip, title, tex }: { children?: React.ReactNode; term?: string; tip?: string; title?: string; tex?: string }) => {
   const [offset, setOffset] = useState(0);
   const spanRef = useRef<HTMLSpanElement>(null);
   const [isVisible, setIsVisible] = useState(false);
+  const glossary = useGlossary();
+  const sectionId = useSectionId();
+  const { t } = useI18n();
+  const elementId = `term-use-${useId().replace(/:/g, '')}`;
+  const tipId = `${elementId}-tip`;
+
+  const entry = term ? getTerm(glossary, term) : undefined;
+  const related = term ? getRelatedTerms(glossary, term) : [];
+  const tipText = tip ?? entry?.tip ?? '';
+  const heading = title ?? entry?.title ?? t('glossary.definition');
+  const symbol = tex ?? entry?.symbol;
+
+  useEffect(() => {
+    if (!term || !entry) return;
+    return registerTermUsage({ term, elementId, sectionId });
+  }, [term, entry, elementId, sectionId]);
 
   // Improve mobile touch handling and edge detection
   const handleInteraction = (show: boolean) => {
@@ -41,19 +109,35 @@ export const MathTooltip = ({ children, tip, title = "DEFINITION" }: { children?
     setIsVisible(show);
   };
 
+  // Keyboard users get the tooltip on focus; focus may move into it to
+  // reach the related-term links without closing it.
   return (
     <span 
       ref={spanRef}
+      id={elementId}
+      tabIndex={0}
+      aria-describedby={tipId}
       onMouseEnter={() => handleInteraction(true)}
       onMouseLeave={() => handleInteraction(false)}
       onTouchStart={(e) => { e.stopPropagation(); handleInteraction(!isVisible); }}
-      className="relative group/tooltip cursor-help inline-block mx-1 align-baseline z-30"
+      onFocus={() => handleInteraction(true)}
+      onBlur={(e) => { if (!spanRef.current?.contains(e.relatedTarget as Node | null)) handleInteraction(false); }}
+      onKeyDown={(e) => {
+        if (e.key === 'Escape' && isVisible) {
+          e.stopPropagation();
+          spanRef.current?.focus();
+          handleInteraction(false);
+        }
+      }}
+      className="relative group/tooltip cursor-help inline-block mx-1 align-baseline z-30 outline-none focus-visible:ring-2 focus-visible:ring-cyber-cyan rounded-sm"
     >
       <span className="border-b border-dotted border-cyber-cyan text-cyber-cyan font-bold transition-all hover:bg-cyber-cyan/10 hover:border-solid px-1 rounded-sm whitespace-nowrap">
-        {children}
+        {children ?? (symbol ? <TeX source={symbol} /> : null)}
       </span>
       <span 
-        className={`fixed md:absolute top-auto bottom-12 md:bottom-full left-4 right-4 md:left-1/2 md:right-auto md:w-[320px] pointer-events-none transform md:origin-bottom z-[1000] transition-all duration-300 ease-out ${isVisible ? 'opacity-100 translate-y-0 visible' : 'opacity-0 translate-y-2 invisible'}`}
+        id={tipId}
+        role="tooltip"
+        className={`fixed md:absolute top-auto bottom-12 md:bottom-full left-4 right-4 md:left-1/2 md:right-auto md:w-[320px] ${isVisible ? 'pointer-events-auto' : 'pointer-events-none'} transform md:origin-bottom z-[1000] transition-all duration-300 ease-out ${isVisible ? 'opacity-100 translate-y-0 visible' : 'opacity-0 translate-y-2 invisible'}`}
         style={{ 
           // On mobile, use fixed positioning via CSS classes (left-4 right-4).
           // On desktop, use margin offset
@@ -62,11 +146,26 @@ export const MathTooltip = ({ children, tip, title = "DEFINITION" }: { children?
       >
          <div className="bg-cyber-black/95 backdrop-blur-xl border border-cyber-cyan/50 text-gray-200 text-sm shadow-[0_0_50px_rgba(0,0,0,0.8)] rounded-lg overflow-hidden">
             <div className="bg-cyber-cyan/10 px-3 py-2 text-[10px] font-mono text-cyber-cyan border-b border-cyber-cyan/20 uppercase tracking-[0.2em] flex justify-between items-center">
-              <span className="flex items-center gap-2"><Terminal size={12} /> {title}</span>
+              <span className="flex items-center gap-2"><Terminal size={12} /> {heading}</span>
             </div>
-            <div className="px-4 py-3 font-mono leading-relaxed text-left text-xs sm:text-sm">
-              {tip}
+            <div className="px-4 py-3 font-mono leading-relaxed text-start text-xs sm:text-sm">
+              <MathText text={tipText} />
             </div>
+            {related.length > 0 && (
+              <div className="px-4 pb-3 flex flex-wrap items-center gap-2 text-[10px] font-mono text-start">
+                <span className="text-gray-500 uppercase tracking-[0.2em]">{t('glossary.seeAlso')}</span>
+                {related.map(([relatedId, relatedEntry]) => (
+                  <a
+                    key={relatedId}
+                    href={`#${glossaryAnchor(relatedId)}`}
+                    onClick={(e) => { e.preventDefault(); setIsVisible(false); jumpToElement(glossaryAnchor(relatedId)); }}
+                    className="px-2 py-1 border border-cyber-cyan/30 rounded-sm text-cyber-cyan hover:bg-cyber-cyan/10"
+                  >
+                    <TeX source={relatedEntry.symbol} />
+                  </a>
+                ))}
+              </div>
+            )}
          </div>
          {/* Arrow for desktop only */}
          <div 
@@ -78,137 +177,316 @@ export const MathTooltip = ({ children, tip, title = "DEFINITION" }: { children?
   );
 };
 
+// Screen-reader description of what a visualization currently shows. While
+// a state animates it is kept out of the live region, so it is read when
+// reached instead of on every frame.
+const VizSummary = ({ live = true, children }: { live?: boolean; children?: React.ReactNode }) => (
+  <p className="sr-only" aria-live={live ? 'polite' : 'off'} aria-atomic="true">{children}</p>
+);
+
+// A readout with a fixed number of decimals, in the reader's locale
+const fixed = ({ number }: I18n, value: number, digits: number) =>
+  number(value, { minimumFractionDigits: digits, maximumFractionDigits: digits });
+
 // --- OPERATOR FAMILY VISUALIZATION ---
+// Level k of |Ψ⟩ maps onto the palette, so the blob's hue tracks ⟨n⟩
+const levelColors = ({ cyber }: Theme) => [cyber.cyan, cyber.yellow, cyber.red, cyber.purple];
+
+const OPERATORS: { id: OperatorId; label: string; tex: string }[] = [
+  { id: 'E', label: 'Ê(α)', tex: '\\hat{E}' },
+  { id: 'C', label: 'Ĉ(α)', tex: '\\hat{C}' },
+  { id: 'X', label: 'Ĉχ(α)', tex: '\\hat{C}_\\chi' },
+  { id: 'G', label: 'Ĝ(α)', tex: '\\hat{G}' },
+];
+
+// Blob geometry and colour, derived from the measured observables
+const getStateStyle = (obs: Observables, palette: string[]) => {
+  const level = Math.min(obs.meanLevel, palette.length - 1.0001);
+  const lower = Math.floor(level);
+  const [from, to] = [channels(palette[lower]), channels(palette[lower + 1])];
+  const color = '#' + from.map((x, i) => Math.round(x + (to[i] - x) * (level - lower)).toString(16).padStart(2, '0')).join('');
+  const scale = 0.8 + 0.5 * obs.levelSpread;
+  // Relative phase of the two lowest levels sets the orientation
+  const rotate = ((obs.phases[1] - obs.phases[0]) * 180) / Math.PI;
+  const glow = `0 0 ${20 + Math.min(40, Math.abs(obs.energy) * 15)}px ${color}99`;
+  // Each corner's curvature follows one level's population
+  const borderRadius = obs.populations.map(p => `${Math.round(30 + 40 * p)}%`).join(' ');
+  return { scale, rotate, color, glow, borderRadius };
+};
+
+const ALPHA_PARAM = clampedParam(numberParam, ALPHA_RANGE[0], ALPHA_RANGE[1]);
+const ALPHA_STEP = 0.125;
+
+// `op.product=G:1.125,E:1`, in the order the product is written
+const PRODUCT_PARAM: ParamCodec<Factor[]> = {
+  parse: raw => {
+    if (raw === '') return [];
+    const factors = raw.split(',').map(item => {
+      const [id, alpha = ''] = item.split(':');
+      const op = OPERATOR_IDS.find(o => o === id);
+      const value = ALPHA_PARAM.parse(alpha);
+      return op && value !== undefined ? { id: op, alpha: value } : undefined;
+    });
+    return factors.length <= MAX_FACTORS && factors.every(f => f !== undefined) ? (factors as Factor[]) : undefined;
+  },
+  format: factors => factors.map(f => `${f.id}:${numberParam.format(f.alpha)}`).join(','),
+};
+const DEFAULT_PRODUCT: Factor[] = [{ id: 'E', alpha: 0 }];
+
+const formatAlpha = ({ number }: I18n, alpha: number) => number(alpha, { maximumFractionDigits: 3 });
+
+// Matrix entries to two decimals, dropping parts that round to zero
+const formatEntry = ({ number }: I18n, { re, im }: Complex) => {
+  const r = Number(re.toFixed(2)) || 0;
+  const i = Number(im.toFixed(2)) || 0;
+  const format = (value: number) => number(value, { maximumFractionDigits: 2 });
+  if (i === 0) return format(r);
+  if (r === 0) return `${format(i)}i`;
+  return `${format(r)}${i < 0 ? '−' : '+'}${format(Math.abs(i))}i`;
+};
+
+const SLIDER_SCHEMA: ParamSchema<{ distortion: number; speed: number }> = { distortion: integerParam, speed: integerParam };
+const DEFAULT_SLIDERS = {
+  distortion: 30, // 0-100, coupling strength of Ĉ and Ĉχ
+  speed: 50       // 10-150, time step per frame
+};
+
 export const OperatorFamilyViz: React.FC = () => {
-  const [activeOps, setActiveOps] = useState<Record<string, boolean>>({
-    E: true,
-    C: false,
-    X: false,
-    G: false
-  });
+  const [product, setProduct] = useUrlParam('op.product', PRODUCT_PARAM, DEFAULT_PRODUCT);
+  const activeOps = useMemo(() => activeOperators(product), [product]);
 
   // State for interactive controls - Sliders
-  const [params, setParams] = useState({
-    distortion: 30, // 0-100
-    speed: 50       // 0-100
+  const [params, setParams] = useUrlParams('op', SLIDER_SCHEMA, DEFAULT_SLIDERS);
+  const reducedMotion = useReducedMotion();
+  const theme = useTheme();
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [running, setRunning] = useState(!reducedMotion);
+
+  // Autoplay stops when reduced motion is switched on
+  useEffect(() => {
+    if (reducedMotion) setRunning(false);
+  }, [reducedMotion]);
+
+  // A new factor acts last, so it goes on the left
+  const addFactor = (id: OperatorId) =>
+    setProduct(prev => (prev.length < MAX_FACTORS ? [{ id, alpha: 0 }, ...prev] : prev));
+  const removeFactor = (index: number) => setProduct(prev => prev.filter((_, i) => i !== index));
+  const setAlpha = (index: number, alpha: number) =>
+    setProduct(prev => prev.map((f, i) => (i === index ? { ...f, alpha } : f)));
+  const moveFactor = (index: number, offset: -1 | 1) => setProduct(prev => {
+    const target = index + offset;
+    if (target < 0 || target >= prev.length) return prev;
+    const next = [...prev];
+    [next[index], next[target]] = [next[target], next[index]];
+    return next;
   });
 
-  const toggleOp = (key: string) => {
-    setActiveOps(prev => ({ ...prev, [key]: !prev[key] }));
-  };
-  
-  const getOpStyle = () => {
-    let scale = 1;
-    let rotate = 0;
-    let color = '#00f0ff'; // cyber cyan
-    let glow = '0 0 30px rgba(0, 240, 255, 0.4)';
-
-    if (activeOps.E) color = '#fcee0a'; // yellow
-    if (activeOps.C) {
-        scale = 1.3; 
-        glow = '0 0 50px rgba(255, 0, 60, 0.6)';
-    }
-    if (activeOps.X) {
-        rotate = 45; 
-        color = '#ff003c'; // red
-    }
-    if (activeOps.G) {
-        color = '#710193'; // purple
-        scale = scale * 0.8; 
-    }
-    
-    // Apply Distortion parameter
-    const baseDistort = activeOps.G ? 25 : 0;
-    const totalDistortion = baseDistort + (params.distortion * 0.4); 
-    
-    return { scale, rotate, color, glow, totalDistortion };
-  };
+  const hamiltonian = useMemo(() => buildHamiltonian(activeOps, params.distortion / 50), [activeOps, params.distortion]);
+  const dt = 0.02 * (params.speed / 50);
+  const { psi, time, reset } = useQuantumEvolution(hamiltonian, dt, initialState, running);
+  const observables = useMemo(() => measure(psi, hamiltonian), [psi, hamiltonian]);
+  const composition = useMemo(() => analyzeProduct(product), [product]);
+  const action = useMemo(() => applyProduct(composition.matrix, psi), [composition, psi]);
+  const orderMatters = composition.commutators.some(c => !c.commutes);
+  const entryScale = Math.max(1e-12, ...composition.matrix.flat().map(z => Math.hypot(z.re, z.im)));
+  const opById = (id: OperatorId) => OPERATORS.find(op => op.id === id)!;
+  const productText = product.length > 0 ? product.map(f => `${opById(f.id).label.replace('(α)', '')}(${formatAlpha(i18n, f.alpha)})`).join('·') : '𝟙';
 
-  const style = getOpStyle();
+  const palette = levelColors(theme);
+  const style = getStateStyle(observables, palette);
   const speedMultiplier = Math.max(0.1, params.speed / 50); 
-  
-  const borderRadiusKeyframes = useMemo(() => {
-     const d = style.totalDistortion;
-     if (d <= 5) return ["50% 50% 50% 50%"];
-     return [
-       "50% 50% 50% 50%",
-       `${50-d}% ${50+d}% ${50-d*0.6}% ${50+d*0.6}%`,
-       `${50+d*0.5}% ${50-d*0.5}% ${50+d}% ${50-d}%`,
-       `${50-d*0.8}% ${50+d*0.8}% ${50+d*0.4}% ${50-d*0.4}%`,
-       "50% 50% 50% 50%"
-     ];
-  }, [style.totalDistortion]);
+  const activeNames = OPERATORS.filter(op => activeOps[op.id]).map(op => op.label.replace('(α)', ''));
 
   return (
     <div className="flex flex-col items-center p-4 sm:p-6 bg-black/80 backdrop-blur-md rounded-xl border border-cyber-gray shadow-2xl relative w-full overflow-hidden group/card">
       {/* Decorative corners */}
-      <div className="absolute top-0 left-0 w-8 h-8 border-l-2 sm:border-l-4 border-t-2 sm:border-t-4 border-cyber-cyan opacity-50 group-hover/card:opacity-100 transition-opacity"></div>
-      <div className="absolute top-0 right-0 w-8 h-8 border-r-2 sm:border-r-4 border-t-2 sm:border-t-4 border-cyber-cyan opacity-50 group-hover/card:opacity-100 transition-opacity"></div>
-      <div className="absolute bottom-0 left-0 w-8 h-8 border-l-2 sm:border-l-4 border-b-2 sm:border-b-4 border-cyber-cyan opacity-50 group-hover/card:opacity-100 transition-opacity"></div>
-      <div className="absolute bottom-0 right-0 w-8 h-8 border-r-2 sm:border-r-4 border-b-2 sm:border-b-4 border-cyber-cyan opacity-50 group-hover/card:opacity-100 transition-opacity"></div>
+      <div className="absolute top-0 start-0 w-8 h-8 border-s-2 sm:border-s-4 border-t-2 sm:border-t-4 border-cyber-cyan opacity-50 group-hover/card:opacity-100 transition-opacity"></div>
+      <div className="absolute top-0 end-0 w-8 h-8 border-e-2 sm:border-e-4 border-t-2 sm:border-t-4 border-cyber-cyan opacity-50 group-hover/card:opacity-100 transition-opacity"></div>
+      <div className="absolute bottom-0 start-0 w-8 h-8 border-s-2 sm:border-s-4 border-b-2 sm:border-b-4 border-cyber-cyan opacity-50 group-hover/card:opacity-100 transition-opacity"></div>
+      <div className="absolute bottom-0 end-0 w-8 h-8 border-e-2 sm:border-e-4 border-b-2 sm:border-b-4 border-cyber-cyan opacity-50 group-hover/card:opacity-100 transition-opacity"></div>
 
       <div className="w-full flex justify-between items-center mb-4 border-b border-gray-800 pb-2 relative z-10">
-         <h3 className="font-mono text-lg sm:text-xl text-white tracking-widest">SIMULATION.STATE</h3>
+         <h3 className="font-mono text-lg sm:text-xl text-white tracking-widest">{t('operator.heading')}</h3>
          <Activity size={20} className="text-cyber-cyan animate-pulse" />
       </div>
       
       {/* Visualization Circle */}
       <div className="relative w-full aspect-square max-w-[200px] sm:max-w-[260px] bg-cyber-black rounded-full border border-gray-800 flex items-center justify-center mb-6 overflow-hidden shadow-inner group z-10">
-         <div className="absolute inset-0 opacity-30" style={{ backgroundImage: 'radial-gradient(#00f0ff 2px, transparent 2px)', backgroundSize: '30px 30px' }}></div>
+         <div className="absolute inset-0 opacity-30" style={{ backgroundImage: `radial-gradient(${theme.cyber.cyan} 2px, transparent 2px)`, backgroundSize: '30px 30px' }}></div>
          <div className="absolute inset-0 border border-cyber-cyan/20 rounded-full animate-pulse-fast"></div>
          <div className="absolute inset-0 border-4 border-transparent border-t-cyber-cyan/30 rounded-full animate-spin linear" style={{ animationDuration: `${10 / speedMultiplier}s` }}></div>
          
          {/* The State Psi */}
          <motion.div
-            className="w-24 h-24 sm:w-32 sm:h-32 rounded-full relative blur-sm mix-blend-screen"
-            animate={{
+            className={`w-24 h-24 sm:w-32 sm:h-32 relative blur-sm ${theme.dark ? 'mix-blend-screen' : 'mix-blend-multiply'}`}
+            style={{
                 scale: style.scale,
                 rotate: style.rotate,
                 backgroundColor: style.color,
                 boxShadow: style.glow,
-                borderRadius: borderRadiusKeyframes
-            }}
-            transition={{ 
-                duration: 0.5, 
-                type: "spring",
-                borderRadius: { 
-                    duration: 4 / speedMultiplier, 
-                    repeat: Infinity, 
-                    ease: "easeInOut" 
-                }
+                borderRadius: style.borderRadius,
+                // Fades as the composition annihilates more of the state
+                opacity: Math.max(0.15, Math.min(1, action.survival))
             }}
          >
              <div className="absolute inset-2 bg-white/10 rounded-full blur-md"></div>
              {activeOps.E && (
                  <motion.div 
                     className="absolute -inset-6 border-2 border-dashed border-white/50 rounded-full"
-                    animate={{ rotate: 360 }}
+                    animate={reducedMotion ? undefined : { rotate: 360 }}
                     transition={{ repeat: Infinity, duration: 4 / speedMultiplier, ease: "linear" }}
                  />
              )}
          </motion.div>
          
-         <div className="absolute bottom-6 text-[10px] sm:text-xs font-mono text-cyber-cyan bg-cyber-black/80 px-3 py-1 border border-cyber-cyan/30 backdrop-blur-sm rounded-sm">STATUS: |Ψ⟩</div>
+         <div className="absolute bottom-6 text-[10px] sm:text-xs font-mono text-cyber-cyan bg-cyber-black/80 px-3 py-1 border border-cyber-cyan/30 backdrop-blur-sm rounded-sm">{t('operator.status')}</div>
+      </div>
+
+      <VizSummary live={!running}>
+         {t(activeNames.length > 0 ? 'operator.summary' : 'operator.summaryFree', {
+            generators: activeNames.join(', '),
+            status: t(running ? 'viz.running' : 'viz.paused'),
+            time: fixed(i18n, time, 1),
+            populations: observables.populations.map(i18n.percent).join(', '),
+            energy: fixed(i18n, observables.energy, 2),
+            level: fixed(i18n, observables.meanLevel, 2),
+         })}{' '}
+         {action.annihilated
+            ? t('operator.summaryAnnihilated', { product: productText })
+            : t('operator.summaryKept', { product: productText, survival: fixed(i18n, action.survival, 2) })}
+      </VizSummary>
+
+      {/* Amplitudes & observables */}
+      <div className="w-full grid grid-cols-2 gap-3 mb-6 z-10">
+          <div className="bg-cyber-dark/50 border border-gray-800 rounded p-3">
+              <div className="text-[10px] font-mono text-gray-400 uppercase tracking-widest mb-2">{t('operator.amplitudes')}</div>
+              <div className="flex items-end gap-2 h-16">
+                  {observables.populations.map((p, k) => (
+                      <div key={k} className="flex-1 flex flex-col items-center justify-end h-full gap-1">
+                          <div className="w-full rounded-t-sm" style={{ height: `${Math.max(2, p * 100)}%`, backgroundColor: palette[k] }}></div>
+                          {/* Phase needle */}
+                          <div className="w-3 h-3 rounded-full border border-gray-600 relative">
+                              <div className="absolute left-1/2 top-1/2 w-[6px] h-[1px] bg-white origin-left" style={{ transform: `rotate(${(-observables.phases[k] * 180) / Math.PI}deg)` }}></div>
+                          </div>
+                          <div className="text-[8px] font-mono text-gray-500">|{k}⟩</div>
+                      </div>
+                  ))}
+              </div>
+          </div>
+          <div className="bg-cyber-dark/50 border border-gray-800 rounded p-3 font-mono text-[10px] space-y-1">
+              <div className="flex justify-between"><span className="text-gray-400">⟨Ψ|Ψ⟩</span><span className="text-white">{fixed(i18n, observables.norm2, 6)}</span></div>
+              <div className="flex justify-between"><span className="text-gray-400">⟨H⟩</span><span className="text-white">{fixed(i18n, observables.energy, 3)}</span></div>
+              {OPERATORS.map(op => (
+                  <div key={op.id} className="flex justify-between">
+                      <span className={activeOps[op.id] ? 'text-cyber-cyan' : 'text-gray-600'}>⟨<TeX source={op.tex} />⟩</span>
+                      <span className="text-white">{fixed(i18n, observables.expectations[op.id], 3)}</span>
+                  </div>
+              ))}
+              <div className="flex justify-between pt-1 border-t border-gray-800"><span className="text-gray-400">t</span><span className="text-white">{fixed(i18n, time, 2)}</span></div>
+          </div>
+      </div>
+
+      {/* Composition */}
+      <div className="w-full bg-cyber-dark/50 border border-gray-800 rounded p-3 mb-6 z-10 font-mono text-[10px]">
+          <div className="flex justify-between items-center text-gray-400 uppercase tracking-widest mb-3 border-b border-gray-800 pb-2">
+              <span>{t('operator.composition')}</span>
+              <span className={orderMatters ? 'text-cyber-yellow' : 'text-gray-500'}>{t(orderMatters ? 'operator.orderMatters' : 'operator.orderFree')}</span>
+          </div>
+
+          {/* Factors, written left to right; the rightmost acts first */}
+          <div className="flex flex-wrap items-center gap-1 mb-3" dir="ltr">
+              {product.length === 0 && <span className="text-gray-500">Π = 𝟙</span>}
+              {product.map((factor, i) => (
+                  <React.Fragment key={i}>
+                      {i > 0 && <span className="text-gray-500">·</span>}
+                      <div className="flex items-center gap-1 px-1.5 py-1 rounded border border-cyber-cyan/40 bg-cyber-cyan/5">
+                          <button onClick={() => moveFactor(i, -1)} disabled={i === 0} className="text-gray-500 hover:text-cyber-cyan disabled:opacity-20" aria-label={t('operator.moveLeft', { operator: opById(factor.id).label })}>
+                              <ChevronLeft size={10} />
+                          </button>
+                          <span className="text-cyber-cyan"><TeX source={opById(factor.id).tex} /></span>
+                          <input
+                              type="number"
+                              min={ALPHA_RANGE[0]}
+                              max={ALPHA_RANGE[1]}
+                              step={ALPHA_STEP}
+                              value={factor.alpha}
+                              onChange={e => {
+                                  const alpha = ALPHA_PARAM.parse(e.target.value);
+                                  if (alpha !== undefined) setAlpha(i, alpha);
+                              }}
+                              className="w-12 bg-transparent border-b border-gray-700 text-white text-center focus:border-cyber-cyan outline-none"
+                              aria-label={t('operator.alpha', { index: i + 1, operator: opById(factor.id).label })}
+                          />
+                          <button onClick={() => moveFactor(i, 1)} disabled={i === product.length - 1} className="text-gray-500 hover:text-cyber-cyan disabled:opacity-20" aria-label={t('operator.moveRight', { operator: opById(factor.id).label })}>
+                              <ChevronRight size={10} />
+                          </button>
+                          <button onClick={() => removeFactor(i)} className="text-gray-500 hover:text-cyber-red" aria-label={t('operator.remove', { operator: opById(factor.id).label })}>
+                              <X size={10} />
+                          </button>
+                      </div>
+                  </React.Fragment>
+              ))}
+          </div>
+
+          <div className="grid grid-cols-[auto_1fr] gap-3 items-start">
+              {/* Composite matrix, shaded by |Π_ij| */}
+              <div className="grid grid-cols-4 gap-px bg-gray-800 border border-gray-800" role="table" aria-label={t('operator.matrix')}>
+                  {composition.matrix.map((row, r) => row.map((z, c) => (
+                      <div
+                          key={`${r}-${c}`}
+                          role="cell"
+                          className="w-12 h-6 flex items-center justify-center text-[9px] text-white tabular-nums"
+                          style={{ backgroundColor: withAlpha(theme.cyber.cyan, 0.05 + 0.5 * Math.hypot(z.re, z.im) / entryScale) }}
+                          title={`Π[${r}][${c}] = ${formatEntry(i18n, z)}`}
+                      >
+                          {formatEntry(i18n, z)}
+                      </div>
+                  )))}
+              </div>
+
+              <div className="space-y-1">
+                  <div className="flex justify-between"><span className="text-gray-400">‖Π|Ψ⟩‖²</span><span className="text-white">{fixed(i18n, action.survival, 4)}</span></div>
+                  <div className="flex justify-between"><span className="text-gray-400">dim ker Π</span><span className={composition.kernel > 0 ? 'text-cyber-yellow' : 'text-white'}>{composition.kernel}</span></div>
+                  {composition.commutators.map(({ a, b, norm, commutes }) => (
+                      <div key={`${a}${b}`} className="flex justify-between">
+                          <span className="text-gray-400">[<TeX source={opById(a).tex} />, <TeX source={opById(b).tex} />]</span>
+                          <span className={commutes ? 'text-gray-500' : 'text-cyber-yellow'}>{commutes ? '0' : `‖·‖ = ${fixed(i18n, norm, 2)}`}</span>
+                      </div>
+                  ))}
+              </div>
+          </div>
+
+          <div className="flex items-center justify-between gap-2 mt-3 pt-2 border-t border-gray-800">
+              <span className={action.annihilated ? 'text-cyber-red font-bold tracking-widest' : 'text-gray-500'} role="status">
+                  {action.annihilated ? t('operator.annihilated') : composition.kernel > 0 ? t('operator.kernel', { count: composition.kernel }) : t('operator.invertible')}
+              </span>
+              <button
+                  onClick={() => reset(normalize(action.output))}
+                  disabled={action.annihilated}
+                  className="shrink-0 flex items-center gap-1 px-2 py-1 border border-cyber-cyan/50 text-cyber-cyan rounded-sm hover:bg-cyber-cyan/10 disabled:opacity-30 disabled:hover:bg-transparent"
+                  title={t('operator.applyTitle')}
+              >
+                  <Zap size={10} /> {t('operator.apply')}
+              </button>
+          </div>
       </div>
 
-      {/* Toggles */}
+      {/* Factors to add */}
       <div className="grid grid-cols-2 gap-2 sm:gap-3 w-full mb-6 z-10">
-          {[
-              { id: 'E', label: 'Ê(α)', name: 'DYNAMICAL' },
-              { id: 'C', label: 'Ĉ(α)', name: 'VACUUM' },
-              { id: 'X', label: 'Ĉχ(α)', name: 'CHIRAL' },
-              { id: 'G', label: 'Ĝ(α)', name: 'GRAVITY' },
-          ].map((op) => (
+          {OPERATORS.map((op) => (
               <button
                 key={op.id}
-                onClick={() => toggleOp(op.id)}
-                className={`flex items-center justify-between p-2 sm:p-3 rounded border text-left transition-all duration-200 group relative overflow-hidden ${activeOps[op.id] ? 'bg-cyber-cyan/10 text-cyber-cyan border-cyber-cyan shadow-[0_0_15px_rgba(0,240,255,0.2)]' : 'bg-cyber-dark text-gray-500 border-gray-800 hover:border-gray-500'}`}
+                onClick={() => addFactor(op.id)}
+                disabled={product.length >= MAX_FACTORS}
+                className={`flex items-center justify-between p-2 sm:p-3 rounded border text-start transition-all duration-200 group relative overflow-hidden disabled:opacity-40 ${activeOps[op.id] ? 'bg-cyber-cyan/10 text-cyber-cyan border-cyber-cyan shadow-[0_0_15px_rgb(var(--cyber-cyan)/0.2)]' : 'bg-cyber-dark text-gray-500 border-gray-800 hover:border-gray-500'}`}
+                aria-label={t('operator.add', { operator: op.label })}
               >
                   <div className="relative z-10">
                       <div className="font-mono font-bold text-sm sm:text-lg leading-none">{op.label}</div>
-                      <div className="text-[8px] sm:text-[10px] tracking-[0.2em] font-bold mt-1 opacity-70">{op.name}</div>
+                      <div className="text-[8px] sm:text-[10px] tracking-[0.2em] font-bold mt-1 opacity-70">{t(`operator.name.${op.id}`)}</div>
                   </div>
-                  <div className={`w-2 h-2 sm:w-3 sm:h-3 rounded-sm transition-all duration-300 ${activeOps[op.id] ? 'bg-cyber-cyan shadow-[0_0_10px_#00f0ff]' : 'bg-gray-800'}`}></div>
+                  <div className={`w-2 h-2 sm:w-3 sm:h-3 rounded-sm transition-all duration-300 ${activeOps[op.id] ? 'bg-cyber-cyan shadow-[0_0_10px_rgb(var(--cyber-cyan))]' : 'bg-gray-800'}`}></div>
                   {activeOps[op.id] && <div className="absolute inset-0 bg-cyber-cyan/5 animate-pulse"></div>}
               </button>
           ))}
@@ -216,20 +494,28 @@ export const OperatorFamilyViz: React.FC = () => {
 
       {/* Sliders */}
       <div className="w-full bg-cyber-dark/50 border border-gray-800 rounded p-3 sm:p-4 relative z-10">
-         <div className="absolute top-0 left-0 w-2 h-2 border-t border-l border-gray-500"></div>
-         <div className="absolute top-0 right-0 w-2 h-2 border-t border-r border-gray-500"></div>
-         <div className="absolute bottom-0 left-0 w-2 h-2 border-b border-l border-gray-500"></div>
-         <div className="absolute bottom-0 right-0 w-2 h-2 border-b border-r border-gray-500"></div>
+         <div className="absolute top-0 start-0 w-2 h-2 border-t border-s border-gray-500"></div>
+         <div className="absolute top-0 end-0 w-2 h-2 border-t border-e border-gray-500"></div>
+         <div className="absolute bottom-0 start-0 w-2 h-2 border-b border-s border-gray-500"></div>
+         <div className="absolute bottom-0 end-0 w-2 h-2 border-b border-e border-gray-500"></div>
 
-         <div className="flex items-center gap-2 mb-4 text-[10px] sm:text-xs font-mono text-gray-400 uppercase tracking-widest border-b border-gray-800 pb-2">
-            <Sliders size={12} /> Real-time Parameters
+         <div className="flex items-center justify-between gap-2 mb-4 text-[10px] sm:text-xs font-mono text-gray-400 uppercase tracking-widest border-b border-gray-800 pb-2">
+            <span className="flex items-center gap-2"><Sliders size={12} /> {t('operator.parameters')}</span>
+            <span className="flex gap-2">
+               <button onClick={() => setRunning(r => !r)} className="hover:text-cyber-cyan" aria-label={t(running ? 'operator.pause' : 'operator.resume')}>
+                  {running ? <Pause size={12} /> : <Play size={12} />}
+               </button>
+               <button onClick={() => reset()} className="hover:text-cyber-cyan" aria-label={t('operator.reset')}>
+                  <RotateCcw size={12} />
+               </button>
+            </span>
          </div>
 
          <div className="space-y-4 sm:space-y-5">
             <div>
                <div className="flex justify-between text-[10px] font-mono mb-2">
-                  <span className="text-cyber-cyan">DISTORTION_FIELD</span>
-                  <span className="text-white">{params.distortion}%</span>
+                  <span className="text-cyber-cyan">{t('operator.distortion')}</span>
+                  <span className="text-white">{i18n.percent(params.distortion / 100)}</span>
                </div>
                <input 
                   type="range" 
@@ -242,8 +528,8 @@ export const OperatorFamilyViz: React.FC = () => {
             
             <div>
                <div className="flex justify-between text-[10px] font-mono mb-2">
-                  <span className="text-cyber-yellow">TEMPORAL_FLUX</span>
-                  <span className="text-white">x{(params.speed / 50).toFixed(1)}</span>
+                  <span className="text-cyber-yellow">{t('operator.flux')}</span>
+                  <span className="text-white">Δt = {fixed(i18n, dt, 3)}</span>
                </div>
                <input 
                   type="range" 
@@ -259,64 +545,437 @@ export const OperatorFamilyViz: React.FC = () => {
   );
 };
 
+// --- HILBERT SPACE (BLOCH SPHERE) VISUALIZATION ---
+const PRECESSION_AXES: { id: 'x' | 'y' | 'z' | 'tilted'; tex: string; axis: BlochVector }[] = [
+  { id: 'x', tex: '\\sigma_x', axis: [1, 0, 0] },
+  { id: 'y', tex: '\\sigma_y', axis: [0, 1, 0] },
+  { id: 'z', tex: '\\sigma_z', axis: [0, 0, 1] },
+  { id: 'tilted', tex: '\\tfrac{\\sigma_x + \\sigma_z}{\\sqrt{2}}', axis: [Math.SQRT1_2, 0, Math.SQRT1_2] },
+];
+const QUBIT_COUNTS = [1, 2, 3];
+const QUBITS_PARAM = clampedParam(integerParam, 1, QUBIT_COUNTS.length);
+const AXIS_PARAM = enumParam(PRECESSION_AXES.map(a => a.id));
+const BLOCH_DT = 1 / 60;
+
+const toDegrees = (rad: number) => (rad * 180) / Math.PI;
+
+export const HilbertSpaceViz: React.FC = () => {
+  const [qubits, setQubits] = useUrlParam('bloch.qubits', QUBITS_PARAM, 1);
+  const [axisId, setAxisId] = useUrlParam('bloch.axis', AXIS_PARAM, 'tilted');
+  const [omega, setOmega] = useUrlParam('bloch.omega', numberParam, 1.5);
+  const [coupling, setCoupling] = useUrlParam('bloch.coupling', numberParam, 0.5);
+  const reducedMotion = useReducedMotion();
+  const [running, setRunning] = useState(!reducedMotion);
+  const [dragging, setDragging] = useState(false);
+  const [resetKey, setResetKey] = useState(0);
+  const sectionId = useSectionId();
+  const i18n = useI18n();
+  const { t } = i18n;
+  const degrees = (rad: number) => `${i18n.number(toDegrees(rad), { maximumFractionDigits: 0 })}°`;
+
+  const axis = PRECESSION_AXES.find(a => a.id === axisId) ?? PRECESSION_AXES[0];
+  const initial = useCallback(
+    () => productState(Array.from({ length: qubits }, () => stateFromAngles(qubits === 1 ? Math.PI / 3 : Math.PI / 2, 0))),
+    [qubits]
+  );
+  const hamiltonian = useMemo(() => precessionHamiltonian(axis.axis, omega, qubits, coupling), [axis, omega, qubits, coupling]);
+  const { psi, time, reset } = useQuantumEvolution(hamiltonian, BLOCH_DT, initial, running && !dragging);
+
+  useEffect(() => {
+    reset();
+    setResetKey(k => k + 1);
+  }, [reset]);
+
+  useEffect(() => {
+    if (reducedMotion) setRunning(false);
+  }, [reducedMotion]);
+
+  // One render can see the new qubit count before the reset lands
+  const vectors = useMemo(
+    () => (psi.length === 2 ** qubits ? Array.from({ length: qubits }, (_, k) => reducedBloch(psi, k, qubits)) : []),
+    [psi, qubits]
+  );
+  const energy = psi.length === hamiltonian.length ? expectation(hamiltonian, psi).re : 0;
+
+  // Dragging sets qubit k's direction; in multi-qubit mode the others keep
+  // their current directions and the register restarts as a product state.
+  const handleDrag = useCallback((index: number, direction: BlochVector) => {
+    const directions = vectors.map((v, k) => (k === index ? direction : v));
+    reset(productState(directions.map(stateFromBloch)));
+    setResetKey(k => k + 1);
+  }, [vectors, reset]);
+
+  return (
+    <div className="flex flex-col p-4 sm:p-6 bg-black/80 backdrop-blur-md rounded-xl border border-cyber-gray shadow-2xl relative w-full overflow-hidden">
+      <div className="w-full flex justify-between items-center mb-4 border-b border-gray-800 pb-2">
+         <h3 className="font-mono text-lg sm:text-xl text-white tracking-widest">{t('bloch.heading')}</h3>
+         <span className="flex gap-3 text-gray-400">
+            <button onClick={() => setRunning(r => !r)} className="hover:text-cyber-cyan" aria-label={t(running ? 'bloch.pause' : 'bloch.resume')}>
+               {running ? <Pause size={14} /> : <Play size={14} />}
+            </button>
+            <button onClick={() => { reset(); setResetKey(k => k + 1); }} className="hover:text-cyber-cyan" aria-label={t('bloch.reset')}>
+               <RotateCcw size={14} />
+            </button>
+         </span>
+      </div>
+
+      <div className="relative w-full h-64 sm:h-80 bg-cyber-black rounded border border-gray-800 mb-4 overflow-hidden cursor-grab active:cursor-grabbing">
+         <HilbertSpaceScene vectors={vectors} axis={axis.axis} resetKey={resetKey} captureId={`${sectionId ?? 'hilbert-space'}-bloch`} onDrag={handleDrag} onDraggingChange={setDragging} />
+         <div className="absolute bottom-2 start-2 text-[9px] font-mono text-gray-500 pointer-events-none">{t('bloch.hint')}</div>
+      </div>
+
+      <VizSummary live={!running || dragging}>
+         {t('bloch.summary', {
+            count: qubits,
+            axis: t(`bloch.axis.${axis.id}`),
+            omega: fixed(i18n, omega, 2),
+            coupling: fixed(i18n, coupling, 2),
+            status: t(running ? 'viz.running' : 'viz.paused'),
+            time: fixed(i18n, time, 1),
+         })}
+         {vectors.map((v, k) => {
+            const r = Math.hypot(...v);
+            return ' ' + t(r < 0.99 ? 'bloch.summaryEntangled' : 'bloch.summaryQubit', {
+               index: String(k),
+               theta: degrees(Math.acos(Math.max(-1, Math.min(1, v[2] / (r || 1))))),
+               phi: degrees(Math.atan2(v[1], v[0])),
+               length: fixed(i18n, r, 2),
+            });
+         })}
+      </VizSummary>
+
+      <div className="grid grid-cols-2 gap-3 mb-4">
+         <div>
+            <div className="text-[10px] font-mono text-gray-400 uppercase tracking-widest mb-2">{t('bloch.qubits')}</div>
+            <div className="flex gap-1">
+               {QUBIT_COUNTS.map(n => (
+                  <button
+                    key={n}
+                    onClick={() => setQubits(n)}
+                    className={`flex-1 py-1 rounded border font-mono text-xs transition-colors ${qubits === n ? 'bg-cyber-cyan/10 text-cyber-cyan border-cyber-cyan' : 'bg-cyber-dark text-gray-500 border-gray-800 hover:border-gray-500'}`}
+                  >
+                    {n}
+                  </button>
+               ))}
+            </div>
+         </div>
+         <div>
+            <div className="text-[10px] font-mono text-gray-400 uppercase tracking-widest mb-2">{t('bloch.hamiltonian')} <TeX source="\hat{n}\cdot\vec{\sigma}" /></div>
+            <div className="flex gap-1">
+               {PRECESSION_AXES.map(a => (
+                  <button
+                    key={a.id}
+                    onClick={() => setAxisId(a.id)}
+                    title={t(`bloch.axis.${a.id}`)}
+                    aria-label={t(`bloch.axis.${a.id}`)}
+                    className={`flex-1 py-1 rounded border font-mono text-[10px] transition-colors ${axisId === a.id ? 'bg-cyber-yellow/10 text-cyber-yellow border-cyber-yellow' : 'bg-cyber-dark text-gray-500 border-gray-800 hover:border-gray-500'}`}
+                  >
+                    <TeX source={a.tex} />
+                  </button>
+               ))}
+            </div>
+         </div>
+      </div>
+
+      <div className="bg-cyber-dark/50 border border-gray-800 rounded p-3 font-mono text-[10px] space-y-1 mb-4">
+         {vectors.map((v, k) => {
+            const r = Math.hypot(...v);
+            return (
+               <div key={k} className="flex justify-between gap-2">
+                  <span className="text-gray-400">q{k}</span>
+                  <span className="text-white">θ {degrees(Math.acos(Math.max(-1, Math.min(1, v[2] / (r || 1)))))}</span>
+                  <span className="text-white">φ {degrees(Math.atan2(v[1], v[0]))}</span>
+                  <span className={r < 0.99 ? 'text-cyber-red' : 'text-cyber-cyan'}>|r| {fixed(i18n, r, 3)}</span>
+               </div>
+            );
+         })}
+         <div className="flex justify-between pt-1 border-t border-gray-800"><span className="text-gray-400">⟨H⟩</span><span className="text-white">{fixed(i18n, energy, 3)}</span></div>
+         <div className="flex justify-between"><span className="text-gray-400">t</span><span className="text-white">{fixed(i18n, time, 2)}</span></div>
+      </div>
+
+      <div className="space-y-4">
+         <div>
+            <div className="flex justify-between text-[10px] font-mono mb-2">
+               <span className="text-cyber-yellow">{t('bloch.frequency')}</span>
+               <span className="text-white">ω = {fixed(i18n, omega, 2)}</span>
+            </div>
+            <input
+               type="range"
+               min="0" max="6" step="0.05"
+               value={omega}
+               onChange={(e) => setOmega(parseFloat(e.target.value))}
+               className="w-full h-2 md:h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-cyber-yellow hover:accent-white transition-all"
+            />
+         </div>
+         {qubits > 1 && (
+            <div>
+               <div className="flex justify-between text-[10px] font-mono mb-2">
+                  <span className="text-cyber-red">{t('bloch.coupling')}</span>
+                  <span className="text-white">J = {fixed(i18n, coupling, 2)}</span>
+               </div>
+               <input
+                  type="range"
+                  min="0" max="2" step="0.05"
+                  value={coupling}
+                  onChange={(e) => setCoupling(parseFloat(e.target.value))}
+                  className="w-full h-2 md:h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-cyber-red hover:accent-white transition-all"
+               />
+            </div>
+         )}
+      </div>
+    </div>
+  );
+};
+
 // --- INTEGRAL SUMMATION VISUALIZATION ---
+const N_SEQUENCE = [2, 4, 8, 16, 32, 64, 128, 256];
+const MAX_N = 256;
+const N_PARAM = clampedParam(integerParam, 1, MAX_N);
+const RULE_PARAM = enumParam(RULES.map(r => r.id));
+const INTEGRAND_PARAM = enumParam(INTEGRANDS.map(i => i.id));
+const AREA_W = 400;
+const AREA_H = 180;
+const SUM_FORMAT: Intl.NumberFormatOptions = { minimumFractionDigits: 8, maximumFractionDigits: 8 };
+const SIGNIFICANT_FORMAT: Intl.NumberFormatOptions = { minimumSignificantDigits: 6, maximumSignificantDigits: 6 };
+
+// Panel shapes for the chosen rule, in data coordinates mapped by sx/sy
+const panelPaths = (
+  integrand: Integrand,
+  rule: QuadratureRule,
+  n: number,
+  sx: (x: number) => number,
+  sy: (y: number) => number
+): { d: string; positive: boolean }[] => {
+  const { f, domain: [a, b] } = integrand;
+  const panels = effectivePanels(rule, n);
+  const h = (b - a) / panels;
+  const y0 = sy(0);
+  const shapes: { d: string; positive: boolean }[] = [];
+
+  if (rule === 'simpson') {
+    for (let i = 0; i < panels; i += 2) {
+      const [x0, x1, x2] = [a + i * h, a + (i + 1) * h, a + (i + 2) * h];
+      const [f0, f1, f2] = [f(x0), f(x1), f(x2)];
+      // Quadratic Bézier through the three nodes of the interpolating parabola
+      const cy = 2 * f1 - (f0 + f2) / 2;
+      shapes.push({
+        d: `M${sx(x0)},${y0} L${sx(x0)},${sy(f0)} Q${sx(x1)},${sy(cy)} ${sx(x2)},${sy(f2)} L${sx(x2)},${y0} Z`,
+        positive: f0 + 4 * f1 + f2 >= 0,
+      });
+    }
+    return shapes;
+  }
+
+  for (let i = 0; i < panels; i++) {
+    const [xl, xr] = [a + i * h, a + (i + 1) * h];
+    if (rule === 'trapezoid') {
+      const [fl, fr] = [f(xl), f(xr)];
+      shapes.push({ d: `M${sx(xl)},${y0} L${sx(xl)},${sy(fl)} L${sx(xr)},${sy(fr)} L${sx(xr)},${y0} Z`, positive: fl + fr >= 0 });
+    } else {
+      const sample = rule === 'left' ? xl : rule === 'right' ? xr : (xl + xr) / 2;
+      const fy = f(sample);
+      shapes.push({ d: `M${sx(xl)},${y0} L${sx(xl)},${sy(fy)} L${sx(xr)},${sy(fy)} L${sx(xr)},${y0} Z`, positive: fy >= 0 });
+    }
+  }
+  return shapes;
+};
+
 export const IntegralSummationViz: React.FC = () => {
-  const [n, setN] = useState(4); 
-  
+  const [n, setN] = useUrlParam('int.n', N_PARAM, 4);
+  const [rule, setRule] = useUrlParam('int.rule', RULE_PARAM, 'midpoint');
+  const [integrandId, setIntegrandId] = useUrlParam('int.f', INTEGRAND_PARAM, INTEGRANDS[0].id);
+  const reducedMotion = useReducedMotion();
+  const { base, cyber } = useTheme();
+  const [playing, setPlaying] = useUrlParam('int.play', booleanParam, !reducedMotion);
+  const integrand = INTEGRANDS.find(i => i.id === integrandId) ?? INTEGRANDS[0];
+  const i18n = useI18n();
+  const { t } = i18n;
+
+  const stepN = (direction: 1 | -1) => setN(prev => {
+    if (direction === 1) return N_SEQUENCE.find(v => v > prev) ?? N_SEQUENCE[0];
+    return [...N_SEQUENCE].reverse().find(v => v < prev) ?? N_SEQUENCE[N_SEQUENCE.length - 1];
+  });
+
   useEffect(() => {
-    const interval = setInterval(() => {
-        setN(prev => prev >= 64 ? 4 : prev * 2);
-    }, 1500);
+    if (!playing) return;
+    const interval = setInterval(() => stepN(1), 1500);
     return () => clearInterval(interval);
-  }, []);
+  }, [playing]);
+
+  useEffect(() => {
+    if (reducedMotion) setPlaying(false);
+  }, [reducedMotion]);
+
+  const { a, b, yMin, yMax, curvePath } = useMemo(() => {
+    const [a, b] = integrand.domain;
+    const xs = Array.from({ length: 201 }, (_, i) => a + ((b - a) * i) / 200);
+    const ys = xs.map(integrand.f);
+    const yMin = Math.min(0, ...ys);
+    const yMax = Math.max(0, ...ys);
+    const pad = (yMax - yMin) * 0.1;
+    return { a, b, yMin: yMin - pad, yMax: yMax + pad, curvePath: xs.map((x, i) => [x, ys[i]]) };
+  }, [integrand]);
+
+  const sx = (x: number) => ((x - a) / (b - a)) * AREA_W;
+  const sy = (y: number) => AREA_H - ((y - yMin) / (yMax - yMin)) * AREA_H;
+
+  const sum = integrate(integrand, rule, n);
+  const error = Math.abs(sum - integrand.exact);
+  const errors = useMemo(
+    // Exact results (Simpson on a cubic) would sit at log(0); floor them
+    () => errorCurve(integrand, rule, MAX_N).map(p => ({ x: p.n, y: Math.max(p.error, 1e-16) })),
+    [integrand, rule]
+  );
+  const convergence = N_SEQUENCE.map(v => ({ n: v, sum: integrate(integrand, rule, v) }));
+  const panels = effectivePanels(rule, n);
 
   return (
     <div className="flex flex-col items-center p-4 sm:p-6 bg-black/80 backdrop-blur-md rounded-xl border border-cyber-gray shadow-2xl relative w-full group/card">
-      <div className="absolute top-0 left-0 w-8 h-8 border-l-4 border-t-4 border-cyber-yellow opacity-50 group-hover/card:opacity-100 transition-opacity"></div>
-      <div className="absolute top-0 right-0 w-8 h-8 border-r-4 border-t-4 border-cyber-yellow opacity-50 group-hover/card:opacity-100 transition-opacity"></div>
-      <div className="absolute bottom-0 left-0 w-8 h-8 border-l-4 border-b-4 border-cyber-yellow opacity-50 group-hover/card:opacity-100 transition-opacity"></div>
-      <div className="absolute bottom-0 right-0 w-8 h-8 border-r-4 border-b-4 border-cyber-yellow opacity-50 group-hover/card:opacity-100 transition-opacity"></div>
-
-      <div className="flex items-center justify-between w-full mb-6">
-          <h3 className="font-mono text-lg sm:text-xl text-white uppercase tracking-wider">Integral.Process</h3>
-          <div className="px-3 py-1 bg-cyber-dark border border-cyber-cyan text-cyber-cyan font-mono text-[10px] sm:text-xs shadow-[0_0_10px_rgba(0,240,255,0.3)]">
-            N_PARTITION: <span className="text-white font-bold">{n}</span>
+      <div className="absolute top-0 start-0 w-8 h-8 border-s-4 border-t-4 border-cyber-yellow opacity-50 group-hover/card:opacity-100 transition-opacity"></div>
+      <div className="absolute top-0 end-0 w-8 h-8 border-e-4 border-t-4 border-cyber-yellow opacity-50 group-hover/card:opacity-100 transition-opacity"></div>
+      <div className="absolute bottom-0 start-0 w-8 h-8 border-s-4 border-b-4 border-cyber-yellow opacity-50 group-hover/card:opacity-100 transition-opacity"></div>
+      <div className="absolute bottom-0 end-0 w-8 h-8 border-e-4 border-b-4 border-cyber-yellow opacity-50 group-hover/card:opacity-100 transition-opacity"></div>
+
+      <div className="flex items-center justify-between w-full mb-4">
+          <h3 className="font-mono text-lg sm:text-xl text-white uppercase tracking-wider">{t('integral.heading')}</h3>
+          <div className="px-3 py-1 bg-cyber-dark border border-cyber-cyan text-cyber-cyan font-mono text-[10px] sm:text-xs shadow-[0_0_10px_rgb(var(--cyber-cyan)/0.3)]">
+            {t('integral.partitions')} <span className="text-white font-bold">{panels}</span>
           </div>
       </div>
 
-      <div className="relative w-full h-40 sm:h-48 bg-black/80 rounded border border-gray-800 overflow-hidden flex items-end px-4 mb-6 shadow-inner">
-        <div className="absolute inset-0 bg-[linear-gradient(rgba(255,255,255,0.05)_1px,transparent_1px),linear-gradient(90deg,rgba(255,255,255,0.05)_1px,transparent_1px)] bg-[size:30px_30px]"></div>
+      {/* Integrand & rule pickers */}
+      <div className="w-full grid grid-cols-2 sm:grid-cols-4 gap-2 mb-3">
+          {INTEGRANDS.map(i => (
+              <button
+                  key={i.id}
+                  onClick={() => setIntegrandId(i.id)}
+                  className={`p-2 rounded border font-mono text-[10px] tracking-[0.15em] transition-all ${integrandId === i.id ? 'bg-cyber-yellow/10 text-cyber-yellow border-cyber-yellow' : 'bg-cyber-dark text-gray-500 border-gray-800 hover:border-gray-500'}`}
+              >
+                  {t(`integral.integrand.${i.id}`)}
+              </button>
+          ))}
+      </div>
+      <div className="w-full grid grid-cols-5 gap-1 mb-4">
+          {RULES.map(r => (
+              <button
+                  key={r.id}
+                  onClick={() => setRule(r.id)}
+                  title={t('integral.order', { order: r.order })}
+                  className={`py-1 rounded border font-mono text-[9px] tracking-[0.1em] transition-all ${rule === r.id ? 'bg-cyber-cyan/10 text-cyber-cyan border-cyber-cyan' : 'bg-cyber-dark text-gray-500 border-gray-800 hover:border-gray-500'}`}
+              >
+                  {t(`integral.rule.${r.id}`)}
+              </button>
+          ))}
+      </div>
+
+      <div className="w-full text-center text-white mb-2">
+          <TeX source={`\\int_{${a}}^{${b}} ${integrand.tex}\\,d${integrand.variable}`} />
+      </div>
 
-        <div className="flex items-end w-full h-full gap-[2px] relative z-10">
-            {Array.from({ length: n }).map((_, i) => {
-                const x = i / n;
-                const heightPct = 20 + Math.abs(Math.sin(x * Math.PI * 2) * 60 * Math.exp(-x * 2)); 
-                
-                return (
-                    <motion.div
-                        key={`${n}-${i}`}
-                        initial={{ height: 0 }}
-                        animate={{ height: `${heightPct}%` }}
-                        transition={{ type: "spring", stiffness: 100, damping: 20 }}
-                        className="flex-1 bg-cyber-yellow hover:bg-white transition-colors shadow-[0_0_10px_rgba(252,238,10,0.6)] rounded-t-sm"
-                    />
-                );
-            })}
-        </div>
-        
-        <div className="absolute bottom-0 left-0 w-full h-[2px] bg-cyber-cyan shadow-[0_0_15px_#00f0ff]"></div>
+      <div className="relative w-full bg-black/80 rounded border border-gray-800 overflow-hidden mb-4 shadow-inner">
+        <div className="absolute inset-0 bg-[linear-gradient(rgb(var(--white)/0.05)_1px,transparent_1px),linear-gradient(90deg,rgb(var(--white)/0.05)_1px,transparent_1px)] bg-[size:30px_30px]"></div>
+        <svg viewBox={`0 0 ${AREA_W} ${AREA_H}`} className="w-full h-40 sm:h-48 relative z-10" preserveAspectRatio="none" role="img" aria-label={t('integral.plot', { rule: t(`integral.ruleName.${rule}`), count: panels })}>
+            {panelPaths(integrand, rule, n, sx, sy).map((shape, i) => (
+                <path
+                    key={`${n}-${i}`}
+                    d={shape.d}
+                    fill={shape.positive ? withAlpha(cyber.yellow, 0.55) : withAlpha(cyber.red, 0.5)}
+                    stroke={shape.positive ? cyber.yellow : cyber.red}
+                    strokeWidth={0.5}
+                    className="transition-all duration-300"
+                />
+            ))}
+            <line x1={0} x2={AREA_W} y1={sy(0)} y2={sy(0)} stroke={cyber.cyan} strokeWidth={1.5} />
+            <path
+                d={curvePath.map(([x, y], i) => `${i === 0 ? 'M' : 'L'}${sx(x).toFixed(1)},${sy(y).toFixed(1)}`).join(' ')}
+                fill="none"
+                stroke={base.white}
+                strokeWidth={1.5}
+                vectorEffect="non-scaling-stroke"
+            />
+        </svg>
+      </div>
+
+      {/* Playback & scrubbing */}
+      <div className="w-full flex items-center gap-3 mb-4">
+          <button onClick={() => stepN(-1)} className="text-gray-400 hover:text-cyber-cyan" aria-label={t('integral.previous')}><SkipBack size={14} className="rtl:rotate-180" /></button>
+          <button onClick={() => setPlaying(p => !p)} className="text-gray-400 hover:text-cyber-cyan" aria-label={t(playing ? 'integral.pause' : 'integral.play')}>
+              {playing ? <Pause size={14} /> : <Play size={14} />}
+          </button>
+          <button onClick={() => stepN(1)} className="text-gray-400 hover:text-cyber-cyan" aria-label={t('integral.next')}><SkipForward size={14} className="rtl:rotate-180" /></button>
+          <input
+              type="range"
+              min={1}
+              max={MAX_N}
+              value={n}
+              onChange={(e) => { setPlaying(false); setN(parseInt(e.target.value)); }}
+              className="flex-1 h-2 md:h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-cyber-yellow hover:accent-white transition-all"
+              aria-label={t('integral.partitionsLabel')}
+          />
+      </div>
+
+      <VizSummary live={!playing}>
+          {t('integral.summary', {
+              rule: t(`integral.ruleName.${rule}`),
+              count: panels,
+              integrand: t(`integral.integrandName.${integrand.id}`),
+              a,
+              b,
+              sum: i18n.number(sum, SIGNIFICANT_FORMAT),
+              exact: i18n.number(integrand.exact, SIGNIFICANT_FORMAT),
+              error: i18n.scientific(error, 2),
+          })}
+      </VizSummary>
+
+      <div className="w-full grid grid-cols-3 gap-2 mb-4 font-mono text-[10px]">
+          <div className="p-2 bg-cyber-dark border border-gray-800">
+              <div className="text-gray-500 tracking-widest">S_N</div>
+              <div className="text-cyber-yellow text-sm">{i18n.number(sum, SUM_FORMAT)}</div>
+          </div>
+          <div className="p-2 bg-cyber-dark border border-gray-800">
+              <div className="text-gray-500 tracking-widest">{t('integral.exact')}</div>
+              <div className="text-white text-sm">{i18n.number(integrand.exact, SUM_FORMAT)}</div>
+          </div>
+          <div className="p-2 bg-cyber-dark border border-gray-800">
+              <div className="text-gray-500 tracking-widest">|S_N − I|</div>
+              <div className="text-cyber-red text-sm">{i18n.scientific(error, 2)}</div>
+          </div>
+      </div>
+
+      {/* Convergence of the partial sum and its error */}
+      <div className="w-full grid sm:grid-cols-2 gap-3 mb-4">
+          <div className="bg-black/60 border border-gray-800 rounded p-2 font-mono text-[9px] space-y-1">
+              <div className="text-gray-500 tracking-widest mb-1">{t('integral.convergence')}</div>
+              {convergence.map(c => (
+                  <div key={c.n} className={`flex justify-between ${c.n === panels ? 'text-cyber-yellow' : 'text-gray-400'}`}>
+                      <span>N={c.n}</span>
+                      <span>{i18n.number(c.sum, SUM_FORMAT)}</span>
+                  </div>
+              ))}
+          </div>
+          <div className="bg-black/60 border border-gray-800 rounded p-2">
+              <LogLogPlot
+                  series={errors}
+                  xDomain={[1, MAX_N]}
+                  yDomain={[1e-16, 10]}
+                  xLabel="N"
+                  yLabel="|S_N − I|"
+                  color={cyber.yellow}
+                  current={{ x: n, y: Math.max(error, 1e-16) }}
+              />
+          </div>
       </div>
 
       <div className="w-full flex items-center justify-between text-xs sm:text-sm font-mono text-gray-500">
           <div className="flex items-center gap-2">
             <Sigma size={14} className="text-cyber-yellow" />
-            <span>SUM</span>
+            <span>{t('integral.sum')}</span>
           </div>
-          <ChevronRight size={14} className="text-gray-700" />
-          <div className="text-white tracking-widest hidden sm:block">INTEGRAL</div>
-          <ChevronRight size={14} className="text-gray-700 hidden sm:block" />
-          <div className="text-cyber-red font-bold flex items-center gap-2 shadow-[0_0_20px_rgba(255,0,60,0.2)] px-2 py-1 border border-cyber-red/30 rounded bg-cyber-red/10 text-xs">
-              <Zap size={14} /> NULL
+          <ChevronRight size={14} className="text-gray-700 rtl:rotate-180" />
+          <div className="text-white tracking-widest hidden sm:block">{t('integral.integral')}</div>
+          <ChevronRight size={14} className="text-gray-700 hidden sm:block rtl:rotate-180" />
+          <div className="text-cyber-red font-bold flex items-center gap-2 shadow-[0_0_20px_rgb(var(--cyber-red)/0.2)] px-2 py-1 border border-cyber-red/30 rounded bg-cyber-red/10 text-xs">
+              <Zap size={14} /> ε = {i18n.scientific(error, 1)}
           </div>
       </div>
     </div>
@@ -324,10 +983,339 @@ export const IntegralSummationViz: React.FC = () => {
 };
 
 // --- COLLAPSE THRESHOLD CHART ---
+const SEPARATION_RANGE = PARAM_RANGES.separation;
+const COLLAPSE_SCHEMA: ParamSchema<CollapseParams> = {
+    distribution: enumParam(DISTRIBUTIONS.map(d => d.id)),
+    mass: clampedParam(numberParam, ...PARAM_RANGES.mass),
+    separation: clampedParam(numberParam, ...PARAM_RANGES.separation),
+    radius: clampedParam(numberParam, ...PARAM_RANGES.radius),
+    coherenceTime: clampedParam(numberParam, ...PARAM_RANGES.coherenceTime),
+};
+
+// --- PHASE DIAGRAM ---
+const PHASE_COLUMNS = 64;
+const PHASE_ROWS = 40;
+const SWEEP_PARAM = enumParam(PHASE_SWEEPS.map(s => s.id));
+
+const AXIS_LABELS: Record<PhaseAxis, { label: MessageKey; unit: string; format: (i18n: I18n, value: number) => string }> = {
+    mass: { label: 'phase.axis.mass', unit: 'kg', format: (i18n, v) => i18n.mass(v) },
+    separation: { label: 'phase.axis.separation', unit: 'm', format: (i18n, v) => i18n.si(v, 'm') },
+    radius: { label: 'phase.axis.radius', unit: 'm', format: (i18n, v) => i18n.si(v, 'm') },
+    coherenceTime: { label: 'phase.axis.coherenceTime', unit: 's', format: (i18n, v) => i18n.duration(v) },
+};
+
+// Sweeps two parameters around the current point and colours the plane by
+// τ_OR against τc. Clicking a cell loads it into the chart above.
+const PhaseDiagram = ({ params, onSelect }: { params: CollapseParams; onSelect: (values: Partial<CollapseParams>) => void }) => {
+    const [sweepId, setSweepId] = useUrlParam('dp.sweep', SWEEP_PARAM, PHASE_SWEEPS[0].id);
+    const sweep = PHASE_SWEEPS.find(s => s.id === sweepId) ?? PHASE_SWEEPS[0];
+    const [hover, setHover] = useState<PhaseCell | null>(null);
+    const { cyber } = useTheme();
+    const i18n = useI18n();
+    const { t } = i18n;
+    const axisLabel = (axis: PhaseAxis) => `${t(AXIS_LABELS[axis].label)} [${AXIS_LABELS[axis].unit}]`;
+
+    // Swept in the compute worker. The last map of the same axes stays up
+    // while the next one runs; a failed sweep replaces it with the error.
+    const { run: runSweep, running, progress } = useComputeJob('phase-sweep');
+    const [map, setMap] = useState<{ sweepId: string; margins: Float64Array } | null>(null);
+    const [failure, setFailure] = useState<string | null>(null);
+    useEffect(() => {
+        setFailure(null);
+        runSweep({ params, sweep, columns: PHASE_COLUMNS, rows: PHASE_ROWS })
+            .then(next => {
+                if (next) startTransition(() => setMap({ sweepId: sweep.id, margins: next }));
+            })
+            .catch(err => setFailure(err instanceof Error ? err.message : String(err)));
+    }, [runSweep, params, sweep]);
+    const margins = map?.sweepId === sweep.id ? map.margins : null;
+    const collapseShare = useMemo(() => (margins ? margins.filter(m => m <= 0).length / margins.length : 0), [margins]);
+
+    const valuesAt = ({ column, row }: PhaseCell): Partial<CollapseParams> => ({
+        [sweep.x]: phaseAxisValue(PARAM_RANGES[sweep.x], PHASE_COLUMNS, column),
+        [sweep.y]: phaseAxisValue(PARAM_RANGES[sweep.y], PHASE_ROWS, row),
+    });
+    const hovered = hover ? { ...params, ...valuesAt(hover) } : null;
+    const hoveredResult = hovered ? computeCollapse(hovered) : null;
+
+    return (
+        <div className="relative z-10 space-y-3">
+            <div className="flex items-center justify-between gap-2 font-mono text-[10px] tracking-[0.15em]">
+                <span className="flex items-center gap-2 text-gray-400 uppercase"><Grid3x3 size={12} /> {t('phase.title')}</span>
+                <div className="flex gap-1">
+                    {PHASE_SWEEPS.map(s => (
+                        <button
+                            key={s.id}
+                            onClick={() => setSweepId(s.id)}
+                            aria-pressed={s.id === sweep.id}
+                            className={`px-2 py-1 rounded border transition-all ${s.id === sweep.id ? 'bg-cyber-cyan/10 text-cyber-cyan border-cyber-cyan' : 'bg-cyber-dark text-gray-500 border-gray-800 hover:border-gray-500'}`}
+                        >
+                            {s.label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <div className="relative bg-black/60 border border-gray-800 rounded p-2" aria-busy={running}>
+                {running && (
+                    <span className="absolute top-3 end-3 z-10 font-mono text-[10px] tracking-[0.2em] text-cyber-cyan bg-cyber-black/80 px-2 py-0.5 rounded">
+                        {t('phase.computing', { percent: i18n.percent(progress) })}
+                    </span>
+                )}
+                {failure ? (
+                    <div className="aspect-[400/220] flex flex-col items-center justify-center gap-2 p-4 text-center font-mono text-[10px]" role="alert">
+                        <span className="flex items-center gap-2 text-cyber-red tracking-[0.2em] uppercase"><AlertTriangle size={14} /> {t('phase.failed')}</span>
+                        <span className="text-gray-500 break-all">{failure}</span>
+                    </div>
+                ) : margins ? (
+                    <PhaseMapPlot
+                        values={margins}
+                        columns={PHASE_COLUMNS}
+                        rows={PHASE_ROWS}
+                        xDomain={PARAM_RANGES[sweep.x]}
+                        yDomain={PARAM_RANGES[sweep.y]}
+                        xLabel={axisLabel(sweep.x)}
+                        yLabel={axisLabel(sweep.y)}
+                        negativeColor={cyber.cyan}
+                        positiveColor={cyber.purple}
+                        current={{ x: params[sweep.x], y: params[sweep.y] }}
+                        onHover={setHover}
+                        onSelect={cell => onSelect(valuesAt(cell))}
+                    />
+                ) : (
+                    <div className="aspect-[400/220]" />
+                )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3 font-mono text-[10px]">
+                <div className="space-y-1">
+                    <div className="flex items-center gap-2"><span className="w-3 h-3 bg-cyber-cyan/70"></span><span className="text-gray-400">{t('phase.collapse')}</span></div>
+                    <div className="flex items-center gap-2"><span className="w-3 h-3 bg-cyber-purple/70"></span><span className="text-gray-400">{t('phase.decoherence')}</span></div>
+                </div>
+                <div className="space-y-1" aria-live="polite">
+                    {hovered && hoveredResult ? (
+                        <>
+                            <div className="flex justify-between"><span className="text-gray-400">{t(AXIS_LABELS[sweep.x].label)}</span><span className="text-white">{AXIS_LABELS[sweep.x].format(i18n, hovered[sweep.x])}</span></div>
+                            <div className="flex justify-between"><span className="text-gray-400">{t(AXIS_LABELS[sweep.y].label)}</span><span className="text-white">{AXIS_LABELS[sweep.y].format(i18n, hovered[sweep.y])}</span></div>
+                            <div className="flex justify-between"><span className="text-gray-400">τ_OR / τc</span><span className={hoveredResult.collapses ? 'text-cyber-cyan' : 'text-white'}>{i18n.duration(hoveredResult.tau)} / {i18n.duration(hovered.coherenceTime)}</span></div>
+                        </>
+                    ) : (
+                        <div className="text-gray-600">{t('phase.hint')}</div>
+                    )}
+                </div>
+            </div>
+
+            {margins && !failure && (
+                <VizSummary live={false}>
+                    {t('phase.summary', { y: axisLabel(sweep.y), x: axisLabel(sweep.x), share: i18n.percent(collapseShare) })}
+                </VizSummary>
+            )}
+        </div>
+    );
+};
+
+// --- STOCHASTIC COLLAPSE (MONTE CARLO) ---
+const TRIALS = 10000;
+const WEIGHT_PARAM = clampedParam(numberParam, 0.01, 0.99);
+const SEED_PARAM = clampedParam(integerParam, 0, 2 ** 32 - 1);
+const MODEL_PARAM = enumParam(COLLAPSE_MODELS.map(m => m.id));
+const FREQUENCY_FORMAT: Intl.NumberFormatOptions = { minimumFractionDigits: 4, maximumFractionDigits: 4 };
+
+const CollapseMonteCarlo = ({ params }: { params: CollapseParams }) => {
+    const [model, setModel] = useUrlParam<CollapseModel>('mc.model', MODEL_PARAM, 'penrose-or');
+    const [weight, setWeight] = useUrlParam('mc.weight', WEIGHT_PARAM, 0.5);
+    const [seed, setSeed] = useUrlParam('mc.seed', SEED_PARAM, 1);
+    const [result, setResult] = useState<TrialSet | null>(null);
+    const [failure, setFailure] = useState<string | null>(null);
+    const trials = useComputeJob('collapse-trials');
+    const { cancel } = trials;
+    const i18n = useI18n();
+    const { t } = i18n;
+
+    // Results describe one configuration; drop them (and any run in flight) when it changes
+    useEffect(() => {
+        cancel();
+        setResult(null);
+        setFailure(null);
+    }, [cancel, params, model, weight, seed]);
+
+    const run = async () => {
+        setFailure(null);
+        try {
+            const next = await trials.run({ model, params, weight, trials: TRIALS, seed });
+            if (next) startTransition(() => setResult(next));
+        } catch (err) {
+            setResult(null);
+            setFailure(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    const rate = collapseRate(model, params);
+    const sampleMean = result ? meanTime(result) : NaN;
+    const referenceRate = result && result.model === 'csl' ? 1 / sampleMean : rate;
+    const bins = useMemo(() => (result ? collapseHistogram(result, 30, 5, referenceRate) : []), [result, referenceRate]);
+    const born = [weight, 1 - weight];
+    const sigma = Math.sqrt(weight * (1 - weight) / TRIALS);
+
+    return (
+        <div className="bg-cyber-dark p-4 rounded border border-gray-800 relative z-10 space-y-4">
+            <div className="flex justify-between items-center text-[10px] font-mono text-gray-400 uppercase tracking-widest border-b border-gray-800 pb-2">
+                <span className="flex items-center gap-2"><Dices size={12} /> {t('mc.title')}</span>
+                <span className="text-gray-500">1/Γ = {i18n.duration(1 / rate)}</span>
+            </div>
+
+            <div className="grid grid-cols-3 gap-2">
+                {COLLAPSE_MODELS.map(m => (
+                    <button
+                        key={m.id}
+                        onClick={() => setModel(m.id)}
+                        title={t(`mc.model.${m.id}`)}
+                        className={`p-2 rounded border font-mono text-[10px] tracking-[0.15em] transition-all ${model === m.id ? 'bg-cyber-red/10 text-cyber-red border-cyber-red' : 'bg-black text-gray-500 border-gray-800 hover:border-gray-500'}`}
+                    >
+                        {m.label}
+                    </button>
+                ))}
+            </div>
+
+            <div className="grid grid-cols-[1fr_auto] gap-4 items-end">
+                <label className="block">
+                    <div className="flex justify-between text-[10px] font-mono mb-2">
+                        <span className="text-cyber-yellow">{t('mc.weight')}</span>
+                        <span className="text-white">{i18n.number(weight, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                    </div>
+                    <input
+                        type="range"
+                        min="0.01" max="0.99" step="0.01"
+                        value={weight}
+                        onChange={(e) => setWeight(parseFloat(e.target.value))}
+                        className="w-full h-2 md:h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-cyber-yellow hover:accent-white transition-all"
+                    />
+                </label>
+                <label className="block font-mono text-[10px] text-gray-400">
+                    {t('mc.seed')}
+                    <input
+                        type="number"
+                        min={0}
+                        value={seed}
+                        onChange={(e) => setSeed(Math.max(0, parseInt(e.target.value) || 0))}
+                        className="block w-20 mt-1 bg-black border border-gray-800 rounded px-2 py-1 text-white focus:border-cyber-cyan outline-none"
+                    />
+                </label>
+            </div>
+
+            <div className="flex gap-2">
+                <button
+                    onClick={run}
+                    disabled={trials.running || !isFinite(rate) || rate <= 0}
+                    className="relative flex-1 py-2 border border-cyber-cyan text-cyber-cyan font-mono text-xs tracking-[0.2em] uppercase hover:bg-cyber-cyan/10 disabled:opacity-40 disabled:cursor-not-allowed transition-colors overflow-hidden"
+                >
+                    {trials.running && <span className="absolute inset-y-0 start-0 bg-cyber-cyan/20" style={{ width: `${trials.progress * 100}%` }} />}
+                    <span className="relative">
+                        {trials.running ? t('mc.running', { percent: i18n.percent(trials.progress) }) : t('mc.run', { count: TRIALS })}
+                    </span>
+                </button>
+                {trials.running && (
+                    <button
+                        onClick={cancel}
+                        className="px-3 py-2 border border-gray-700 text-gray-400 font-mono text-xs tracking-[0.2em] uppercase hover:text-white hover:border-gray-500 transition-colors"
+                    >
+                        {t('mc.cancel')}
+                    </button>
+                )}
+            </div>
+
+            {failure && (
+                <div className="flex flex-col gap-1 p-3 bg-cyber-red/5 border border-cyber-red/40 rounded font-mono text-[10px]" role="alert">
+                    <span className="flex items-center gap-2 text-cyber-red tracking-[0.2em] uppercase"><AlertTriangle size={12} /> {t('mc.failed')}</span>
+                    <span className="text-gray-500 break-all">{failure}</span>
+                </div>
+            )}
+
+            {result && (
+                <>
+                    <VizSummary>
+                        {t('mc.summary', {
+                            count: TRIALS,
+                            model: COLLAPSE_MODELS.find(m => m.id === result.model)?.label ?? result.model,
+                            seed: String(result.seed),
+                            share: i18n.percent(result.counts[0] / TRIALS),
+                            weight: i18n.percent(weight),
+                            mean: i18n.duration(sampleMean),
+                        })}
+                    </VizSummary>
+                    <div className="bg-black/60 border border-gray-800 rounded p-2">
+                        <HistogramPlot
+                            bins={bins}
+                            xLabel={t('mc.axisTime', { tau: i18n.duration(1 / referenceRate) })}
+                            yLabel={t('mc.axisTrials')}
+                            formatX={x => i18n.number(x * referenceRate, { minimumFractionDigits: 1, maximumFractionDigits: 1 })}
+                            expectedLabel={result.model === 'csl' ? 'EXP, SAMPLE MEAN' : 'EXP(−t/τ)'}
+                        />
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-3 font-mono text-[10px]">
+                        <div className="space-y-2">
+                            {(['L', 'R'] as const).map((branch, k) => {
+                                const frequency = result.counts[k] / TRIALS;
+                                return (
+                                    <div key={branch}>
+                                        <div className="flex justify-between mb-1">
+                                            <span className="text-gray-400">|{branch}⟩</span>
+                                            <span className="text-white">{i18n.number(frequency, FREQUENCY_FORMAT)} <span className="text-gray-500">/ {i18n.number(born[k], FREQUENCY_FORMAT)}</span></span>
+                                        </div>
+                                        <div className="relative h-2 bg-black border border-gray-800">
+                                            <div className="absolute inset-y-0 start-0 bg-cyber-purple" style={{ width: `${frequency * 100}%` }}></div>
+                                            <div className="absolute -inset-y-1 w-px bg-cyber-yellow" style={{ insetInlineStart: `${born[k] * 100}%` }} title={t('mc.bornRule')}></div>
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                        <div className="space-y-1">
+                            <div className="flex justify-between"><span className="text-gray-400">{t('mc.sampleMean')}</span><span className="text-white">{i18n.duration(sampleMean)}</span></div>
+                            <div className="flex justify-between"><span className="text-gray-400">{t('mc.theoryMean')}</span><span className="text-white">{result.model === 'csl' ? '—' : i18n.duration(1 / rate)}</span></div>
+                            <div className="flex justify-between"><span className="text-gray-400">|f₀ − |c₀|²|</span><span className="text-white">{i18n.number(Math.abs(result.counts[0] / TRIALS - weight) / sigma, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}σ</span></div>
+                            <div className="flex justify-between"><span className="text-gray-400">{t('mc.seedLabel')}</span><span className="text-white">{result.seed}</span></div>
+                        </div>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
 export const CollapseThresholdChart: React.FC = () => {
-    const [energy, setEnergy] = useState(50); // G[Psi]
-    const thresholdMet = energy >= 40; 
-    const tauOR = (30 / energy) * 100;
+    const [params, setParams] = useUrlParams('dp', COLLAPSE_SCHEMA, DEFAULT_COLLAPSE_PARAMS);
+    const result = useMemo(() => computeCollapse(params), [params]);
+    const thresholdMet = result.collapses;
+    const { cyber } = useTheme();
+    const i18n = useI18n();
+    const { t } = i18n;
+
+    const curve = useMemo(
+        () => sweepSeparation(params, SEPARATION_RANGE[0], SEPARATION_RANGE[1]).map(p => ({ x: p.separation, y: p.tau })),
+        [params.distribution, params.mass, params.radius]
+    );
+
+    const markers = useMemo(() => REFERENCE_SYSTEMS.map(ref => ({
+        id: ref.id,
+        label: ref.label,
+        x: ref.params.separation,
+        y: referenceTau(ref),
+        color: cyber.yellow,
+        onSelect: () => setParams(p => ({ ...p, ...ref.params })),
+    })), [cyber]);
+
+    // Fit the τ axis to whole decades around everything drawn
+    const yDomain = useMemo<[number, number]>(() => {
+        const taus = [...curve.map(p => p.y), ...markers.map(m => m.y), result.tau, params.coherenceTime].filter(t => isFinite(t) && t > 0);
+        const lo = Math.max(-60, Math.floor(Math.log10(Math.min(...taus))));
+        const hi = Math.min(80, Math.ceil(Math.log10(Math.max(...taus))));
+        return [Math.pow(10, lo), Math.pow(10, Math.max(hi, lo + 1))];
+    }, [curve, markers, result.tau, params.coherenceTime]);
+
+    const set = <K extends keyof CollapseParams>(key: K) => (value: CollapseParams[K]) =>
+        setParams(p => ({ ...p, [key]: value }));
 
     return (
         <div className="flex flex-col gap-6 p-4 sm:p-6 bg-black/80 backdrop-blur-md border border-cyber-gray rounded-2xl shadow-2xl relative w-full overflow-hidden">
@@ -335,58 +1323,335 @@ export const CollapseThresholdChart: React.FC = () => {
             
             <div className="flex flex-col sm:flex-row justify-between items-start gap-2 sm:gap-0 relative z-10">
                 <div>
-                    <h3 className="font-mono text-xl text-white mb-1 uppercase tracking-wider">Condition Check</h3>
+                    <h3 className="font-mono text-xl text-white mb-1 uppercase tracking-wider">{t('collapse.title')}</h3>
                     <p className="text-gray-500 text-xs font-mono tracking-wide">
                         (A2) GRAVITATIONAL_SELF_ENERGY
                     </p>
                 </div>
-                <div className={`px-3 py-1 border font-mono text-xs font-bold uppercase tracking-widest transition-all duration-300 ${thresholdMet ? 'bg-cyber-cyan/10 border-cyber-cyan text-cyber-cyan shadow-[0_0_20px_rgba(0,240,255,0.4)]' : 'bg-gray-900 border-gray-700 text-gray-500'}`}>
-                    {thresholdMet ? "COLLAPSE_IMMINENT" : "STATE_STABLE"}
+                <div className={`px-3 py-1 border font-mono text-xs font-bold uppercase tracking-widest transition-all duration-300 ${thresholdMet ? 'bg-cyber-cyan/10 border-cyber-cyan text-cyber-cyan shadow-[0_0_20px_rgb(var(--cyber-cyan)/0.4)]' : 'bg-gray-900 border-gray-700 text-gray-500'}`}>
+                    {t(thresholdMet ? 'collapse.imminent' : 'collapse.stable')}
                 </div>
             </div>
 
-            <div className="bg-cyber-dark p-4 rounded border border-gray-800 relative z-10">
-                <div className="flex justify-between mb-3 text-xs font-mono text-cyber-yellow font-bold">
-                    <span>INPUT: <MathTooltip tip="Gravitational Self-Energy. The energy uncertainty arising from the difference in spacetime geometries." title="DEF: GRAVITY">G[Ψ]</MathTooltip></span>
-                    <span>{energy} UNITS</span>
+            <div className="grid grid-cols-4 gap-2 relative z-10">
+                {DISTRIBUTIONS.map(d => (
+                    <button
+                        key={d.id}
+                        onClick={() => set('distribution')(d.id)}
+                        title={t(`collapse.distribution.${d.id}`)}
+                        className={`p-2 rounded border font-mono text-[10px] tracking-[0.15em] transition-all ${params.distribution === d.id ? 'bg-cyber-cyan/10 text-cyber-cyan border-cyber-cyan' : 'bg-cyber-dark text-gray-500 border-gray-800 hover:border-gray-500'}`}
+                    >
+                        {d.label}
+                    </button>
+                ))}
+            </div>
+
+            <div className="bg-cyber-dark p-4 rounded border border-gray-800 relative z-10 space-y-4">
+                <LogSlider label={t('collapse.mass')} value={params.mass} min={PARAM_RANGES.mass[0]} max={PARAM_RANGES.mass[1]} onChange={set('mass')} format={v => i18n.mass(v)} accent="yellow" />
+                <LogSlider label={t('collapse.separation')} value={params.separation} min={SEPARATION_RANGE[0]} max={SEPARATION_RANGE[1]} onChange={set('separation')} format={v => i18n.si(v, 'm')} />
+                <LogSlider label={t(params.distribution === 'point-masses' ? 'collapse.constituentRadius' : 'collapse.radius')} value={params.radius} min={PARAM_RANGES.radius[0]} max={PARAM_RANGES.radius[1]} onChange={set('radius')} format={v => i18n.si(v, 'm')} />
+                <LogSlider label={t('collapse.coherence')} value={params.coherenceTime} min={PARAM_RANGES.coherenceTime[0]} max={PARAM_RANGES.coherenceTime[1]} onChange={set('coherenceTime')} format={v => i18n.duration(v)} accent="red" />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3 relative z-10">
+                <div className="p-3 bg-cyber-dark border border-gray-700">
+                    <div className="text-[10px] text-gray-400 uppercase font-mono mb-1 tracking-widest flex items-center">
+                        E_G = <MathTooltip term="self-energy" tex="G[\Psi]" />
+                    </div>
+                    <div className="font-mono text-lg text-white leading-none">{i18n.si(result.selfEnergy, 'J')}</div>
+                    <div className="font-mono text-[10px] text-gray-600 mt-1">{i18n.si(result.selfEnergy / ELECTRON_VOLT, 'eV')}</div>
                 </div>
-                <input 
-                    type="range" 
-                    min="10" 
-                    max="100" 
-                    value={energy} 
-                    onChange={(e) => setEnergy(parseInt(e.target.value))}
-                    className="w-full h-2 bg-gray-800 rounded-lg appearance-none cursor-pointer accent-cyber-yellow hover:accent-cyber-cyan transition-colors"
+                <div className="p-3 bg-cyber-dark border border-gray-700 text-end">
+                    <div className="text-[10px] text-gray-400 uppercase font-mono mb-1 tracking-widest">{t('collapse.timescale')}</div>
+                    <div className={`font-mono text-lg leading-none ${thresholdMet ? 'text-cyber-cyan' : 'text-white'}`}>{i18n.duration(result.tau)}</div>
+                </div>
+            </div>
+
+            <div className="relative z-10 bg-black/60 border border-gray-800 rounded p-2">
+                <LogLogPlot
+                    series={curve}
+                    xDomain={SEPARATION_RANGE}
+                    yDomain={yDomain}
+                    xLabel={t('collapse.axisSeparation')}
+                    yLabel={t('collapse.axisTau')}
+                    color={thresholdMet ? cyber.cyan : cyber.purple}
+                    current={{ x: params.separation, y: result.tau }}
+                    markers={markers}
+                    lines={[{ y: params.coherenceTime, label: t('collapse.limit'), color: cyber.red }]}
                 />
             </div>
-            
-            <div className="relative h-32 border-b border-gray-700 flex items-end pb-1 bg-[linear-gradient(rgba(255,255,255,0.02)_1px,transparent_1px)] bg-[size:15px_15px] z-10">
-                <div className="absolute left-0 w-full h-[2px] bg-cyber-red z-10 opacity-70 border-t border-dashed border-white" style={{ bottom: '40%' }}>
-                    <span className="absolute left-0 -top-6 text-[10px] font-mono font-bold text-cyber-red bg-cyber-black px-1 border border-cyber-red shadow-[0_0_10px_rgba(255,0,60,0.5)]">LIMIT: ℏ/τc</span>
+
+            <div className="font-mono text-xs text-gray-400 leading-relaxed border-s-4 border-gray-800 ps-3 py-1 truncate relative z-10">
+                {thresholdMet 
+                    ? <span className="text-cyber-cyan text-shadow-neon">{t('collapse.alert')}</span>
+                    : <span>{t('collapse.status')}</span>}
+            </div>
+
+            <PhaseDiagram params={params} onSelect={values => setParams(p => ({ ...p, ...values }))} />
+
+            <VizSummary>
+                {t(thresholdMet ? 'collapse.summaryReduces' : 'collapse.summarySurvives', {
+                    distribution: t(`collapse.distribution.${params.distribution}`),
+                    mass: i18n.mass(params.mass),
+                    separation: i18n.si(params.separation, 'm'),
+                    energy: i18n.si(result.selfEnergy, 'J'),
+                    tau: i18n.duration(result.tau),
+                    coherence: i18n.duration(params.coherenceTime),
+                })}
+            </VizSummary>
+
+            <CollapseMonteCarlo params={params} />
+        </div>
+    )
+}
+
+// --- DENSITY MATRIX (DECOHERENCE) ---
+const CHANNEL_PARAM = enumParam(CHANNELS);
+const DENSITY_VIEWS = ['heatmap', 'cityscape'] as const;
+type DensityView = typeof DENSITY_VIEWS[number];
+const VIEW_PARAM = enumParam(DENSITY_VIEWS);
+const BODY_MASS_PARAM = clampedParam(numberParam, PARAM_RANGES.mass[0], PARAM_RANGES.mass[1]);
+const SPACING_PARAM = clampedParam(numberParam, SEPARATION_RANGE[0], SEPARATION_RANGE[1]);
+const DENSITY_LEVELS = Array.from({ length: DENSITY_DIM }, (_, k) => k);
+const PURITY_FORMAT = { minimumFractionDigits: 3, maximumFractionDigits: 3 };
+
+// Populations on the diagonal, coherences off it; brightness is |ρ_jk|
+const densityColor = ({ cyber }: Theme, j: number, k: number) => (j === k ? cyber.yellow : cyber.cyan);
+
+const DensityHeatmap = ({ rho, scale }: { rho: Complex[][]; scale: number }) => {
+    const theme = useTheme();
+    const i18n = useI18n();
+    return (
+        <div className="grid grid-cols-[auto_repeat(4,1fr)] gap-px font-mono text-[9px] text-gray-500" dir="ltr" role="table" aria-label="ρ">
+            <span></span>
+            {DENSITY_LEVELS.map(k => <span key={k} className="text-center pb-1">|{k}⟩</span>)}
+            {rho.map((row, j) => (
+                <React.Fragment key={j}>
+                    <span className="pe-1 self-center">⟨{j}|</span>
+                    {row.map((z, k) => {
+                        const magnitude = Math.hypot(z.re, z.im);
+                        return (
+                            <div
+                                key={k}
+                                role="cell"
+                                className="aspect-square flex items-center justify-center text-white border border-gray-900 tabular-nums"
+                                style={{ backgroundColor: withAlpha(densityColor(theme, j, k), Math.min(1, magnitude / scale) * 0.85) }}
+                            >
+                                {i18n.number(magnitude, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                            </div>
+                        );
+                    })}
+                </React.Fragment>
+            ))}
+        </div>
+    );
+};
+
+// Isometric bars of height |ρ_jk|, drawn back to front
+const DensityCityscape = ({ rho, scale }: { rho: Complex[][]; scale: number }) => {
+    const theme = useTheme();
+    const { t } = useI18n();
+    const tile = { w: 44, h: 22 };
+    const maxHeight = 90;
+    const top = maxHeight + 10;
+    const cx = 120;
+    const cells = rho
+        .flatMap((row, j) => row.map((z, k) => ({ j, k, magnitude: Math.hypot(z.re, z.im) })))
+        .sort((a, b) => a.j + a.k - (b.j + b.k));
+
+    return (
+        <svg viewBox={`0 0 240 ${top + DENSITY_DIM * tile.h + 10}`} className="w-full h-auto" role="img" aria-label={t('density.cityscapeLabel')}>
+            {cells.map(({ j, k, magnitude }) => {
+                const x = cx + ((k - j) * tile.w) / 2;
+                const y = top + ((j + k) * tile.h) / 2;
+                const height = Math.min(1, magnitude / scale) * maxHeight;
+                const color = densityColor(theme, j, k);
+                const pt = (px: number, py: number) => `${px.toFixed(1)},${py.toFixed(1)}`;
+                const left = [pt(x - tile.w / 2, y + tile.h / 2), pt(x, y + tile.h), pt(x, y + tile.h - height), pt(x - tile.w / 2, y + tile.h / 2 - height)];
+                const right = [pt(x, y + tile.h), pt(x + tile.w / 2, y + tile.h / 2), pt(x + tile.w / 2, y + tile.h / 2 - height), pt(x, y + tile.h - height)];
+                const roof = [pt(x, y - height), pt(x + tile.w / 2, y + tile.h / 2 - height), pt(x, y + tile.h - height), pt(x - tile.w / 2, y + tile.h / 2 - height)];
+                return (
+                    <g key={`${j}-${k}`} stroke={withAlpha(theme.base.white, 0.15)} strokeWidth={0.5}>
+                        <polygon points={left.join(' ')} fill={withAlpha(color, 0.45)} />
+                        <polygon points={right.join(' ')} fill={withAlpha(color, 0.3)} />
+                        <polygon points={roof.join(' ')} fill={withAlpha(color, 0.15 + 0.75 * Math.min(1, magnitude / scale))} />
+                    </g>
+                );
+            })}
+        </svg>
+    );
+};
+
+export const DensityMatrixViz: React.FC = () => {
+    const [channel, setChannel] = useUrlParam('rho.channel', CHANNEL_PARAM, 'gravitational');
+    const [view, setView] = useUrlParam<DensityView>('rho.view', VIEW_PARAM, 'heatmap');
+    const [mass, setMass] = useUrlParam('rho.mass', BODY_MASS_PARAM, DEFAULT_COLLAPSE_PARAMS.mass);
+    const [separation, setSeparation] = useUrlParam('rho.separation', SPACING_PARAM, DEFAULT_COLLAPSE_PARAMS.separation);
+    const reducedMotion = useReducedMotion();
+    const [running, setRunning] = useState(!reducedMotion);
+    const [time, setTime] = useState(reducedMotion ? DENSITY_DURATION : 0);
+    const { cyber } = useTheme();
+    const i18n = useI18n();
+    const { t } = i18n;
+
+    const model = useMemo(
+        () => channelModel(channel, { distribution: DEFAULT_COLLAPSE_PARAMS.distribution, radius: DEFAULT_COLLAPSE_PARAMS.radius, mass, separation }),
+        [channel, mass, separation]
+    );
+    const samples = useMemo(() => evolveDensity(model), [model]);
+    const scale = useMemo(() => trajectoryScale(samples), [samples]);
+    const sample = samples[Math.round((time / DENSITY_DURATION) * (samples.length - 1))];
+
+    // A new channel plays from a pure state again
+    useEffect(() => {
+        setTime(reducedMotion ? DENSITY_DURATION : 0);
+        setRunning(!reducedMotion);
+    }, [channel]);
+
+    useEffect(() => {
+        if (reducedMotion) setRunning(false);
+    }, [reducedMotion]);
+
+    // One τ per second of animation, stopping at the end of the trajectory
+    useEffect(() => {
+        if (!running) return;
+        let last = performance.now();
+        let frame = requestAnimationFrame(function tick(now) {
+            const dt = Math.min(0.1, (now - last) / 1000);
+            last = now;
+            setTime(current => Math.min(DENSITY_DURATION, current + dt));
+            frame = requestAnimationFrame(tick);
+        });
+        return () => cancelAnimationFrame(frame);
+    }, [running]);
+
+    useEffect(() => {
+        if (time >= DENSITY_DURATION) setRunning(false);
+    }, [time]);
+
+    const togglePlay = () => {
+        if (!running && time >= DENSITY_DURATION) setTime(0);
+        setRunning(r => !r);
+    };
+
+    const curves = useMemo(() => [
+        { label: 'Tr(ρ²)', color: cyber.cyan, points: samples.map(s => ({ x: s.t, y: s.purity })) },
+        { label: 'S(ρ)', color: cyber.red, points: samples.map(s => ({ x: s.t, y: s.entropy })) },
+    ], [samples, cyber]);
+    const oneDecimal = { minimumFractionDigits: 1, maximumFractionDigits: 1 };
+
+    return (
+        <div className="flex flex-col gap-6 p-4 sm:p-6 bg-black/80 backdrop-blur-md border border-cyber-gray rounded-2xl shadow-2xl relative w-full overflow-hidden">
+            <div className="absolute top-0 left-0 w-full h-2 bg-gradient-to-r from-cyber-yellow via-cyber-cyan to-cyber-purple rounded-t-2xl"></div>
+
+            <div className="flex flex-col sm:flex-row justify-between items-start gap-2 sm:gap-0 relative z-10">
+                <div>
+                    <h3 className="font-mono text-xl text-white mb-1 uppercase tracking-wider">{t('density.title')}</h3>
+                    <p className="text-gray-500 text-xs font-mono tracking-wide">
+                        {t('density.equation')}
+                    </p>
+                </div>
+                <div className="flex border border-gray-700 font-mono text-[10px] tracking-widest">
+                    {DENSITY_VIEWS.map(v => (
+                        <button
+                            key={v}
+                            onClick={() => setView(v)}
+                            aria-pressed={view === v}
+                            className={`px-2 py-1 transition-colors ${view === v ? 'bg-cyber-cyan/10 text-cyber-cyan' : 'text-gray-500 hover:text-white'}`}
+                        >
+                            {t(v === 'heatmap' ? 'density.heatmap' : 'density.cityscape')}
+                        </button>
+                    ))}
                 </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-2 relative z-10">
+                {CHANNELS.map(c => (
+                    <button
+                        key={c}
+                        onClick={() => setChannel(c)}
+                        title={t(`density.channel.${c}`)}
+                        aria-pressed={channel === c}
+                        className={`p-2 rounded border font-mono text-[10px] tracking-[0.15em] transition-all ${channel === c ? 'bg-cyber-cyan/10 text-cyber-cyan border-cyber-cyan' : 'bg-cyber-dark text-gray-500 border-gray-800 hover:border-gray-500'}`}
+                    >
+                        {t(`density.channelLabel.${c}`)}
+                    </button>
+                ))}
+            </div>
 
-                <div className="w-full flex justify-center h-full items-end relative px-8">
-                     <motion.div 
-                        className={`w-full max-w-[120px] rounded-t-sm transition-colors duration-300 relative overflow-hidden ${thresholdMet ? 'bg-cyber-cyan' : 'bg-gray-700'}`}
-                        animate={{ height: `${energy}%` }}
-                        transition={{ type: "spring", stiffness: 120, damping: 20 }}
-                     >
-                        <div className="absolute top-0 left-0 w-full h-1 bg-white/60"></div>
-                        {thresholdMet && <div className="absolute inset-0 bg-cyber-cyan shadow-[0_0_50px_#00f0ff] opacity-80"></div>}
-                     </motion.div>
+            {channel === 'gravitational' && (
+                <div className="bg-cyber-dark p-4 rounded border border-gray-800 relative z-10 space-y-4">
+                    <LogSlider label={t('collapse.mass')} value={mass} min={PARAM_RANGES.mass[0]} max={PARAM_RANGES.mass[1]} onChange={setMass} format={v => i18n.mass(v)} accent="yellow" />
+                    <LogSlider label={t('density.spacing')} value={separation} min={SEPARATION_RANGE[0]} max={SEPARATION_RANGE[1]} onChange={setSeparation} format={v => i18n.si(v, 'm')} />
                 </div>
+            )}
 
-                <div className="absolute right-0 top-0 w-32 p-2 bg-cyber-dark border border-gray-700 text-right shadow-lg">
-                    <div className="text-[10px] text-gray-400 uppercase font-mono mb-1 tracking-widest">Timescale τ_OR</div>
-                    <div className="font-mono text-xl text-white tracking-widest leading-none">{tauOR.toFixed(1)}<span className="text-[10px] text-gray-600 ml-1">ms</span></div>
+            <div className="relative z-10 bg-black/60 border border-gray-800 rounded p-3">
+                {view === 'heatmap' ? <DensityHeatmap rho={sample.rho} scale={scale} /> : <DensityCityscape rho={sample.rho} scale={scale} />}
+            </div>
+
+            <div className="flex items-center gap-3 relative z-10 font-mono text-[10px] text-gray-400">
+                <button onClick={togglePlay} className="hover:text-cyber-cyan" aria-label={t(running ? 'density.pause' : 'density.play')}>
+                    {running ? <Pause size={12} /> : <Play size={12} />}
+                </button>
+                <button onClick={() => { setTime(0); setRunning(!reducedMotion); }} className="hover:text-cyber-cyan" aria-label={t('density.restart')}>
+                    <RotateCcw size={12} />
+                </button>
+                <input
+                    type="range"
+                    min={0}
+                    max={DENSITY_DURATION}
+                    step={DENSITY_DURATION / (samples.length - 1)}
+                    value={time}
+                    onChange={e => { setRunning(false); setTime(parseFloat(e.target.value)); }}
+                    aria-label={t('density.time')}
+                    className="flex-1 h-2 md:h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-cyber-cyan"
+                />
+                <span className="text-white tabular-nums">{t('density.timeValue', { time: i18n.number(sample.t, { minimumFractionDigits: 2, maximumFractionDigits: 2 }) })}</span>
+            </div>
+
+            <div className="grid grid-cols-3 gap-3 relative z-10">
+                <div className="p-3 bg-cyber-dark border border-gray-700">
+                    <div className="text-[10px] text-gray-400 uppercase font-mono mb-1 tracking-widest">{t('density.purity')}</div>
+                    <div className="font-mono text-lg text-cyber-cyan leading-none">{i18n.number(sample.purity, PURITY_FORMAT)}</div>
+                </div>
+                <div className="p-3 bg-cyber-dark border border-gray-700">
+                    <div className="text-[10px] text-gray-400 uppercase font-mono mb-1 tracking-widest">{t('density.entropy')}</div>
+                    <div className="font-mono text-lg text-cyber-red leading-none">{i18n.number(sample.entropy, PURITY_FORMAT)}</div>
+                    <div className="font-mono text-[10px] text-gray-600 mt-1">{t('density.entropyMax', { max: i18n.number(MAX_ENTROPY, PURITY_FORMAT) })}</div>
+                </div>
+                <div className="p-3 bg-cyber-dark border border-gray-700 text-end">
+                    <div className="text-[10px] text-gray-400 uppercase font-mono mb-1 tracking-widest">τ</div>
+                    <div className="font-mono text-lg text-white leading-none">{model.tau === null ? '1/γ' : i18n.duration(model.tau)}</div>
+                    <div className="font-mono text-[10px] text-gray-600 mt-1">{t(model.tau === null ? 'density.tauEnvironment' : 'density.tauGravity')}</div>
                 </div>
             </div>
 
-            <div className="font-mono text-xs text-gray-400 leading-relaxed border-l-4 border-gray-800 pl-3 py-1 truncate relative z-10">
-                {thresholdMet 
-                    ? <span className="text-cyber-cyan text-shadow-neon">> SYSTEM ALERT: Self-energy threshold exceeded.</span>
-                    : <span>> SYSTEM STATUS: Self-energy insufficient.</span>}
+            <div className="relative z-10 bg-black/60 border border-gray-800 rounded p-2">
+                <LinePlot
+                    series={curves}
+                    xDomain={[0, DENSITY_DURATION]}
+                    yDomain={[0, 1.5]}
+                    xLabel={t('density.axisTime')}
+                    yLabel={t('density.axisValue')}
+                    formatX={x => i18n.number(x, oneDecimal)}
+                    formatY={y => i18n.number(y, oneDecimal)}
+                    cursor={sample.t}
+                />
+            </div>
+
+            <div className="font-mono text-xs text-gray-400 leading-relaxed border-s-4 border-gray-800 ps-3 py-1 relative z-10">
+                {t(`density.note.${channel}`)}
             </div>
+
+            <VizSummary live={!running}>
+                {t('density.summary', {
+                    channel: t(`density.channel.${channel}`),
+                    time: i18n.number(sample.t, oneDecimal),
+                    purity: i18n.number(sample.purity, PURITY_FORMAT),
+                    entropy: i18n.number(sample.entropy, PURITY_FORMAT),
+                })}
+            </VizSummary>
         </div>
-    )
-}
+    );
+};
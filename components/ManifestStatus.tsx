@@ -0,0 +1,76 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useRef } from 'react';
+import { motion } from 'framer-motion';
+import { AlertTriangle, FileUp, Loader } from 'lucide-react';
+import { ManifestError } from '../lib/manifest';
+import { useI18n } from '../hooks/useI18n';
+
+export const ManifestLoading = () => {
+  const { t } = useI18n();
+  return (
+    <div className="min-h-screen flex items-center justify-center">
+      <div className="flex items-center gap-3 font-mono text-cyber-cyan text-sm tracking-[0.3em] uppercase">
+        <Loader size={16} className="animate-spin" /> {t('manifest.loading')}
+      </div>
+    </div>
+  );
+};
+
+export const ManifestErrorPanel = ({ error, onLoadFile }: { error: ManifestError; onLoadFile: (file: File) => void }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { t } = useI18n();
+
+  return (
+    <div className="min-h-screen flex items-center justify-center py-20 px-4">
+      <motion.div
+          initial={{ opacity: 0, y: 30 }}
+          animate={{ opacity: 1, y: 0 }}
+          role="alert"
+          className="max-w-2xl w-full bg-black/90 backdrop-blur-xl border border-cyber-red/60 rounded-xl overflow-hidden shadow-[0_0_50px_rgb(var(--cyber-red)/0.2)]"
+      >
+          <div className="bg-cyber-red/10 px-6 py-3 border-b border-cyber-red/30 flex items-center gap-3 text-cyber-red font-mono text-xs tracking-[0.3em] uppercase">
+              <AlertTriangle size={14} /> {t('manifest.error')}
+          </div>
+          <div className="p-6 space-y-4">
+              <p className="text-white text-lg">{error.message}</p>
+              <p className="text-gray-500 font-mono text-xs break-all">{t('manifest.source', { source: error.source })}</p>
+
+              {error.issues.length > 0 && (
+                  <ul className="max-h-64 overflow-y-auto bg-cyber-dark/50 border border-gray-800 rounded p-4 space-y-2 font-mono text-xs text-gray-300">
+                      {error.issues.map((issue, idx) => (
+                          <li key={idx} className="flex gap-2">
+                              <span className="text-cyber-red">&gt;</span>
+                              <span>{issue}</span>
+                          </li>
+                      ))}
+                  </ul>
+              )}
+
+              <div className="pt-2 flex flex-wrap gap-3">
+                  <button
+                      onClick={() => inputRef.current?.click()}
+                      className="flex items-center gap-2 px-4 py-2 border border-cyber-cyan text-cyber-cyan font-mono text-xs tracking-[0.2em] uppercase hover:bg-cyber-cyan/10 transition-colors"
+                  >
+                      <FileUp size={14} /> {t('manifest.loadLocal')}
+                  </button>
+                  <input
+                      ref={inputRef}
+                      type="file"
+                      accept=".json,.yaml,.yml,.md,.markdown"
+                      className="hidden"
+                      onChange={(e) => {
+                          const file = e.target.files?.[0];
+                          if (file) onLoadFile(file);
+                          e.target.value = '';
+                      }}
+                  />
+              </div>
+          </div>
+      </motion.div>
+    </div>
+  );
+};
@@ -0,0 +1,516 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Terminal, Play, Github, Mail, User, BookOpen, CornerDownRight, Check, Copy, ExternalLink, Quote } from 'lucide-react';
+import {
+  OperatorFamilyViz,
+  HilbertSpaceViz,
+  IntegralSummationViz,
+  CollapseThresholdChart,
+  DensityMatrixViz,
+} from './Diagrams';
+import { RichText } from './RichText';
+import { DerivationSteps } from './DerivationSteps';
+import { MathText, TeX } from './TeX';
+import { SectionProvider, useBibliography, usePaper, useRevealStep } from './PaperContext';
+import { useTermUsages } from '../hooks/useTermUsages';
+import { useI18n } from '../hooks/useI18n';
+import { getRelatedTerms, glossaryAnchor, jumpToElement, usagesOf } from '../lib/glossary';
+import { getPageUrl } from '../lib/manifest';
+import { citePage, formatReference, referenceAnchor, referenceLink } from '../lib/references';
+import { MessageKey } from '../lib/messages';
+import {
+  AccentColor,
+  ContactSection,
+  DerivationSection,
+  GlossarySection,
+  HeroSection,
+  NarrativeSection,
+  ReferencesSection,
+  SectionProps,
+  TextVizSection,
+  VizId,
+} from '../types';
+
+// Visualizations a text-viz section can attach by id
+export const VISUALIZATIONS: Record<VizId, React.FC> = {
+  'operator-family': OperatorFamilyViz,
+  'hilbert-space': HilbertSpaceViz,
+  'integral-summation': IntegralSummationViz,
+  'collapse-threshold': CollapseThresholdChart,
+  'density-matrix': DensityMatrixViz,
+};
+
+// Figure captions, e.g. for the printed paper
+export const VIZ_TITLES: Record<VizId, MessageKey> = {
+  'operator-family': 'viz.operator-family',
+  'hilbert-space': 'viz.hilbert-space',
+  'integral-summation': 'viz.integral-summation',
+  'collapse-threshold': 'viz.collapse-threshold',
+  'density-matrix': 'viz.density-matrix',
+};
+
+// Query-string prefixes each visualization keeps its parameters under
+export const VIZ_PARAM_PREFIXES: Record<VizId, string[]> = {
+  'operator-family': ['op'],
+  'hilbert-space': ['bloch'],
+  'integral-summation': ['int'],
+  'collapse-threshold': ['dp', 'mc'],
+  'density-matrix': ['rho'],
+};
+
+const ACCENT_GRADIENT: Record<AccentColor, string> = {
+  cyan: 'via-cyber-cyan',
+  yellow: 'via-cyber-yellow',
+  red: 'via-cyber-red',
+};
+
+const ACCENT_CALLOUT: Record<AccentColor, { border: string; text: string }> = {
+  cyan: { border: 'border-cyber-cyan', text: 'text-cyber-cyan' },
+  yellow: { border: 'border-cyber-yellow', text: 'text-cyber-yellow' },
+  red: { border: 'border-cyber-red', text: 'text-cyber-red' },
+};
+
+const DEFAULT_SECTION_CLASS = 'min-h-screen flex items-center justify-center py-20 px-4 md:px-12 scroll-mt-0';
+
+// A presentation fragment: hidden until the slide reaches step `index + 1`
+const Reveal = ({ index, className = '', children }: { index: number; className?: string; children?: React.ReactNode }) => {
+  const visible = index < useRevealStep();
+  return (
+    <div className={`transition-opacity duration-500 ${visible ? 'opacity-100' : 'opacity-0 pointer-events-none'} ${className}`} aria-hidden={!visible}>
+      {children}
+    </div>
+  );
+};
+
+export const SectionFrame: React.FC<SectionProps> = ({ id, title, children, className = DEFAULT_SECTION_CLASS, sectionRef }) => (
+  <section id={id} ref={sectionRef} aria-label={title} className={className}>
+    <SectionProvider sectionId={id}>
+      {children}
+    </SectionProvider>
+  </section>
+);
+
+// --- HERO ---
+const HeroBlock = ({ section, onAdvance }: { section: HeroSection; onAdvance: () => void }) => (
+  <>
+    <motion.div
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        transition={{ duration: 1, ease: "easeOut" }}
+        className="space-y-6 max-w-4xl"
+    >
+        <h1 className="text-6xl md:text-8xl lg:text-9xl font-bold tracking-tighter text-white drop-shadow-[0_0_30px_rgb(var(--white)/0.1)]">
+            {section.title}
+        </h1>
+        <div className="inline-block border-t border-b border-cyber-cyan/30 py-4 px-8 backdrop-blur-sm bg-black/20">
+            <p className="text-cyber-cyan tracking-[0.3em] font-mono text-sm md:text-base lg:text-lg">
+                {section.subtitle}
+            </p>
+        </div>
+    </motion.div>
+
+    <motion.button
+       onClick={onAdvance}
+       initial={{ opacity: 0, y: 20 }}
+       animate={{ opacity: 1, y: 0 }}
+       whileHover={{ scale: 1.05 }}
+       whileTap={{ scale: 0.95 }}
+       transition={{ delay: 1.2, duration: 0.8 }}
+       className="group relative px-8 py-4 bg-cyber-black/40 backdrop-blur-md border border-cyber-cyan text-cyber-cyan font-mono tracking-[0.2em] text-sm md:text-base uppercase overflow-hidden transition-all duration-300 hover:shadow-[0_0_30px_rgb(var(--cyber-cyan)/0.4)] hover:border-cyber-cyan hover:text-white"
+    >
+       <span className="relative z-10 flex items-center gap-3 font-bold">
+           {section.cta} <Play size={14} className="fill-current" />
+       </span>
+       <div className="absolute inset-0 bg-cyber-cyan/80 translate-y-full group-hover:translate-y-0 transition-transform duration-300 ease-out z-0"></div>
+    </motion.button>
+  </>
+);
+
+// --- TEXT + VISUALIZATION ---
+const TextVizBlock = ({ section }: { section: TextVizSection }) => {
+  const Viz = VISUALIZATIONS[section.viz];
+  const reversed = section.layout === 'viz-left';
+  const corner = reversed ? 'bottom-0 end-0' : 'top-0 start-0';
+  const { t } = useI18n();
+
+  return (
+    <motion.div
+        initial={{ opacity: 0, y: 50 }}
+        whileInView={{ opacity: 1, y: 0 }}
+        viewport={{ once: true, margin: "-50px" }}
+        className={`max-w-7xl w-full lg:flex ${reversed ? 'lg:flex-row-reverse' : ''} lg:gap-16 items-center`}
+    >
+        <div className="lg:w-1/2 space-y-6 bg-black/85 backdrop-blur-xl p-6 md:p-8 rounded-xl border border-gray-800 mb-8 lg:mb-0 relative overflow-hidden">
+            <div className={`absolute ${corner} w-20 h-[1px] bg-gradient-to-r from-transparent ${ACCENT_GRADIENT[section.accent]} to-transparent opacity-50`}></div>
+            <span className="text-cyber-cyan font-mono text-xs tracking-[0.3em] uppercase">{section.label}</span>
+            <h2 className="text-3xl md:text-4xl font-bold text-white cyber-glitch-text" data-text={section.title}>{section.title}</h2>
+            <div className="w-12 h-1 bg-cyber-cyan/50 rounded-full"></div>
+            {section.paragraphs.map((paragraph, idx) => (
+                <Reveal key={idx} index={idx}>
+                    <p className="text-gray-300 leading-relaxed">
+                        <RichText text={paragraph} />
+                    </p>
+                </Reveal>
+            ))}
+            {section.callout && (
+                <Reveal index={section.paragraphs.length} className={`mt-4 p-4 bg-cyber-dark/50 rounded border-s-2 ${ACCENT_CALLOUT[section.callout.accent].border}`}>
+                    <code className={`font-mono ${ACCENT_CALLOUT[section.callout.accent].text} text-sm block`}>
+                        {section.callout.lines.map((line, idx) => (
+                            <React.Fragment key={idx}>
+                                {idx > 0 && <br/>}
+                                <RichText text={line} />
+                            </React.Fragment>
+                        ))}
+                    </code>
+                </Reveal>
+            )}
+        </div>
+        <div className="lg:w-1/2" data-snapshot={section.id} role="figure" aria-label={t(VIZ_TITLES[section.viz])}>
+            <Viz />
+        </div>
+    </motion.div>
+  );
+};
+
+// --- DERIVATION ---
+const DerivationBlock = ({ section }: { section: DerivationSection }) => {
+  const { t } = useI18n();
+  return (
+  <motion.div
+      initial={{ opacity: 0, scale: 0.95 }}
+      whileInView={{ opacity: 1, scale: 1 }}
+      viewport={{ once: true }}
+      className="w-full max-w-4xl mx-auto space-y-12"
+  >
+       <div className="text-center space-y-6">
+           <span className="text-cyber-cyan font-mono text-xs tracking-[0.3em] uppercase">{section.label}</span>
+           <h2 className="text-3xl md:text-5xl font-bold text-white cyber-glitch-text" data-text={section.title}>{section.title}</h2>
+           <p className="text-gray-400 max-w-2xl mx-auto leading-relaxed">
+              <RichText text={section.summary} />
+           </p>
+       </div>
+
+       <div className="p-1 bg-gradient-to-r from-cyber-yellow via-cyber-red to-cyber-yellow rounded-xl shadow-[0_0_50px_rgb(var(--cyber-yellow)/0.15)] relative z-20">
+          <div className="bg-black/90 backdrop-blur-xl rounded-lg p-8 md:p-12 text-center relative overflow-hidden">
+              <div className="absolute inset-0 bg-[url('https://grainy-gradients.vercel.app/noise.svg')] opacity-10 pointer-events-none"></div>
+              <div className="relative z-10 space-y-8">
+                  <div className="text-cyber-red font-bold text-xs uppercase tracking-[0.4em] flex justify-center items-center gap-2">
+                      <Terminal size={14} /> {t('derivation.final')}
+                  </div>
+                  <Reveal index={0} className="font-mono text-3xl md:text-5xl text-white flex flex-col md:flex-row items-center justify-center gap-6">
+                     {section.equation.map((part, idx) => (
+                         <span key={idx} className={idx % 2 === 1 ? 'text-cyber-gray' : undefined}>
+                             <RichText text={part} />
+                         </span>
+                     ))}
+                  </Reveal>
+                  {section.display && (
+                      <div className="space-y-4 text-white text-lg md:text-2xl overflow-x-auto">
+                          {section.display.map((source, idx) => (
+                              <Reveal key={idx} index={idx + 1}>
+                                  <TeX source={source} display />
+                              </Reveal>
+                          ))}
+                      </div>
+                  )}
+
+                  {section.steps && (
+                      <Reveal index={1 + (section.display?.length ?? 0)}>
+                          <DerivationSteps steps={section.steps} firstFragment={1 + (section.display?.length ?? 0)} />
+                      </Reveal>
+                  )}
+
+                  <Reveal index={1 + (section.display?.length ?? 0) + (section.steps?.length ?? 0)}>
+                      {/* Conclusion Panel */}
+                      <div className="mt-8 pt-8 border-t border-gray-800/50">
+                          <h4 className="text-cyber-cyan font-mono text-sm tracking-widest mb-4">{t('derivation.conclusion')}</h4>
+                          <p className="text-gray-400 text-sm md:text-base max-w-2xl mx-auto">
+                              <RichText text={section.conclusion} />
+                          </p>
+                      </div>
+
+                      <div className="text-gray-600 font-mono text-xs mt-6">
+                          {section.signoff}
+                      </div>
+                  </Reveal>
+              </div>
+          </div>
+      </div>
+  </motion.div>
+  );
+};
+
+// --- GLOSSARY ---
+const GlossaryBlock = ({ section }: { section: GlossarySection }) => {
+  const { glossary, sections } = usePaper();
+  const usages = useTermUsages();
+  const { t } = useI18n();
+  const titleOf = (sectionId: string | null) =>
+    sections.find(s => s.id === sectionId)?.title ?? t('glossary.unknownSection');
+
+  return (
+    <motion.div
+        initial={{ opacity: 0, y: 50 }}
+        whileInView={{ opacity: 1, y: 0 }}
+        viewport={{ once: true, margin: "-50px" }}
+        className="max-w-7xl w-full space-y-10"
+    >
+        <div className="text-center space-y-6">
+            <span className="text-cyber-cyan font-mono text-xs tracking-[0.3em] uppercase">{section.label}</span>
+            <h2 className="text-3xl md:text-5xl font-bold text-white cyber-glitch-text" data-text={section.title}>{section.title}</h2>
+        </div>
+
+        <dl className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {Object.entries(glossary).map(([id, entry]) => {
+                const related = getRelatedTerms(glossary, id);
+                const termUsages = usagesOf(usages, id);
+
+                return (
+                    <div
+                        key={id}
+                        id={glossaryAnchor(id)}
+                        className="bg-black/85 backdrop-blur-xl p-5 rounded-xl border border-gray-800 space-y-3 scroll-mt-24"
+                    >
+                        <dt className="flex items-center justify-between gap-4">
+                            <span className="text-cyber-cyan text-xl"><TeX source={entry.symbol} /></span>
+                            <span className="text-[10px] font-mono text-gray-500 uppercase tracking-[0.2em] flex items-center gap-2">
+                                <BookOpen size={12} /> {entry.title}
+                            </span>
+                        </dt>
+                        <dd className="text-gray-300 text-sm leading-relaxed"><MathText text={entry.tip} /></dd>
+
+                        {related.length > 0 && (
+                            <dd className="flex flex-wrap items-center gap-2 text-[10px] font-mono">
+                                <span className="text-gray-500 uppercase tracking-[0.2em]">{t('glossary.seeAlso')}</span>
+                                {related.map(([relatedId, relatedEntry]) => (
+                                    <a
+                                        key={relatedId}
+                                        href={`#${glossaryAnchor(relatedId)}`}
+                                        onClick={(e) => { e.preventDefault(); jumpToElement(glossaryAnchor(relatedId)); }}
+                                        className="px-2 py-1 border border-cyber-cyan/30 rounded-sm text-cyber-cyan hover:bg-cyber-cyan/10"
+                                    >
+                                        <TeX source={relatedEntry.symbol} />
+                                    </a>
+                                ))}
+                            </dd>
+                        )}
+
+                        <dd className="flex flex-wrap items-center gap-2 text-[10px] font-mono pt-2 border-t border-gray-800">
+                            <span className="text-gray-500 uppercase tracking-[0.2em]">{t('glossary.usedIn')}</span>
+                            {termUsages.length === 0 && <span className="text-gray-600">—</span>}
+                            {termUsages.map((usage, idx) => (
+                                <button
+                                    key={usage.elementId}
+                                    onClick={() => jumpToElement(usage.elementId)}
+                                    className="flex items-center gap-1 px-2 py-1 border border-gray-700 rounded-sm text-gray-300 hover:border-cyber-yellow hover:text-cyber-yellow"
+                                >
+                                    <CornerDownRight size={10} /> {titleOf(usage.sectionId)}
+                                    <span className="text-gray-600">#{idx + 1}</span>
+                                </button>
+                            ))}
+                        </dd>
+                    </div>
+                );
+            })}
+        </dl>
+    </motion.div>
+  );
+};
+
+// --- REFERENCES ---
+type CiteFormat = 'bibtex' | 'apa';
+
+const CiteThisPage = () => {
+  const paper = usePaper();
+  const [format, setFormat] = useState<CiteFormat>('bibtex');
+  const [copied, setCopied] = useState(false);
+  const { t } = useI18n();
+  const citation = citePage(paper, getPageUrl(), new Date())[format];
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(citation);
+      setCopied(true);
+      window.setTimeout(() => setCopied(false), 1500);
+    } catch {
+      // Clipboard access can be refused; the text stays selectable
+    }
+  };
+
+  return (
+    <div className="bg-black/85 backdrop-blur-xl rounded-xl border border-gray-800 overflow-hidden">
+        <div className="flex items-center justify-between gap-4 px-5 py-3 border-b border-gray-800 font-mono text-[10px] tracking-[0.2em] uppercase">
+            <span className="flex items-center gap-2 text-cyber-cyan"><Quote size={12} /> {t('cite.title')}</span>
+            <div className="flex items-center gap-2">
+                {(['bibtex', 'apa'] as CiteFormat[]).map(id => (
+                    <button
+                        key={id}
+                        onClick={() => { setFormat(id); setCopied(false); }}
+                        aria-pressed={format === id}
+                        className={`px-2 py-1 border rounded-sm ${format === id ? 'border-cyber-cyan text-cyber-cyan bg-cyber-cyan/10' : 'border-gray-700 text-gray-400 hover:text-white'}`}
+                    >
+                        {id === 'bibtex' ? 'BibTeX' : 'APA'}
+                    </button>
+                ))}
+                <button
+                    onClick={copy}
+                    aria-label={t('cite.copyLabel')}
+                    className="flex items-center gap-1 px-2 py-1 border border-gray-700 rounded-sm text-gray-300 hover:border-cyber-yellow hover:text-cyber-yellow"
+                >
+                    {copied ? <Check size={10} /> : <Copy size={10} />} {t(copied ? 'cite.copied' : 'cite.copy')}
+                </button>
+            </div>
+        </div>
+        <pre className="px-5 py-4 text-xs text-gray-300 font-mono whitespace-pre-wrap break-all select-all">{citation}</pre>
+    </div>
+  );
+};
+
+const ReferencesBlock = ({ section }: { section: ReferencesSection }) => {
+  const { entries, numbers } = useBibliography() ?? { entries: [], numbers: new Map<string, number>() };
+
+  return (
+    <motion.div
+        initial={{ opacity: 0, y: 50 }}
+        whileInView={{ opacity: 1, y: 0 }}
+        viewport={{ once: true, margin: "-50px" }}
+        className="max-w-4xl w-full space-y-10"
+    >
+        <div className="text-center space-y-6">
+            <span className="text-cyber-cyan font-mono text-xs tracking-[0.3em] uppercase">{section.label}</span>
+            <h2 className="text-3xl md:text-5xl font-bold text-white cyber-glitch-text" data-text={section.title}>{section.title}</h2>
+        </div>
+
+        <ol className="space-y-3">
+            {entries.map(ref => {
+                const link = referenceLink(ref);
+                return (
+                    <li
+                        key={ref.id}
+                        id={referenceAnchor(ref.id)}
+                        className="bg-black/85 backdrop-blur-xl px-5 py-4 rounded-xl border border-gray-800 grid grid-cols-[3rem_1fr] gap-3 scroll-mt-24"
+                    >
+                        <span className="text-cyber-cyan font-mono text-sm">[{numbers.get(ref.id)}]</span>
+                        <div className="space-y-2 text-gray-300 text-sm leading-relaxed">
+                            <MathText text={formatReference(ref, false)} />
+                            {link && (
+                                <a href={link} target="_blank" rel="noopener noreferrer" className="flex items-center gap-2 text-[10px] font-mono text-cyber-cyan hover:underline break-all">
+                                    <ExternalLink size={10} className="shrink-0" /> {link}
+                                </a>
+                            )}
+                        </div>
+                    </li>
+                );
+            })}
+        </ol>
+
+        <CiteThisPage />
+    </motion.div>
+  );
+};
+
+// --- CONTACT ---
+const ContactBlock = ({ section }: { section: ContactSection }) => {
+  const { author } = usePaper();
+
+  return (
+    <motion.div
+        initial={{ opacity: 0, y: 30 }}
+        whileInView={{ opacity: 1, y: 0 }}
+        viewport={{ once: true }}
+        className="max-w-md w-full"
+    >
+        <div className="bg-black/85 backdrop-blur-xl border border-cyber-cyan/30 rounded-2xl p-8 relative overflow-hidden group hover:border-cyber-cyan/60 transition-colors">
+             {/* Scanline effect */}
+             <div className="absolute inset-0 bg-[linear-gradient(transparent_0%,rgb(var(--cyber-cyan)/0.05)_50%,transparent_100%)] bg-[length:100%_4px] animate-pulse pointer-events-none"></div>
+
+             <div className="relative z-10 flex flex-col items-center text-center space-y-6">
+                <div className="w-20 h-20 rounded-full bg-cyber-dark border-2 border-cyber-cyan flex items-center justify-center shadow-[0_0_20px_rgb(var(--cyber-cyan)/0.3)] mb-2">
+                    <User size={32} className="text-cyber-cyan" />
+                </div>
+
+                <div className="space-y-2">
+                    <h3 className="text-2xl font-bold text-white tracking-wider">{author.name}</h3>
+                    <div className="h-[1px] w-16 bg-cyber-red mx-auto"></div>
+                    <p className="text-cyber-cyan text-sm font-mono tracking-widest">{author.role}</p>
+                </div>
+
+                <div className="w-full space-y-4 pt-4">
+                    <a href={`mailto:${author.email}`} className="flex items-center gap-4 p-3 rounded bg-cyber-dark/50 hover:bg-cyber-cyan/10 border border-gray-800 hover:border-cyber-cyan transition-all group/item">
+                        <Mail size={18} className="text-gray-400 group-hover/item:text-cyber-cyan" />
+                        <span className="text-gray-300 font-mono text-sm group-hover/item:text-white">{author.email}</span>
+                    </a>
+                    <a href={`https://github.com/${author.github}`} target="_blank" rel="noopener noreferrer" className="flex items-center gap-4 p-3 rounded bg-cyber-dark/50 hover:bg-cyber-cyan/10 border border-gray-800 hover:border-cyber-cyan transition-all group/item">
+                        <Github size={18} className="text-gray-400 group-hover/item:text-cyber-cyan" />
+                        <span className="text-gray-300 font-mono text-sm group-hover/item:text-white">github.com/{author.github}</span>
+                    </a>
+                </div>
+
+                <div className="pt-6 text-xs text-gray-600 font-mono">
+                    {section.signoff}
+                </div>
+             </div>
+        </div>
+    </motion.div>
+  );
+};
+
+// --- SECTION DISPATCH ---
+export const NarrativeSectionView = ({
+  section,
+  sectionRef,
+  onAdvance,
+}: {
+  section: NarrativeSection;
+  sectionRef: React.Ref<HTMLElement>;
+  onAdvance: () => void;
+}) => {
+  switch (section.kind) {
+    case 'hero':
+      return (
+        <SectionFrame
+          id={section.id}
+          title={section.title}
+          sectionRef={sectionRef}
+          className="min-h-[100dvh] flex flex-col items-center justify-center p-6 text-center relative gap-12 sm:gap-16 snap-start"
+        >
+          <HeroBlock section={section} onAdvance={onAdvance} />
+        </SectionFrame>
+      );
+    case 'text-viz':
+      return (
+        <SectionFrame id={section.id} title={section.title} sectionRef={sectionRef}>
+          <TextVizBlock section={section} />
+        </SectionFrame>
+      );
+    case 'derivation':
+      return (
+        <SectionFrame id={section.id} title={section.title} sectionRef={sectionRef}>
+          <DerivationBlock section={section} />
+        </SectionFrame>
+      );
+    case 'glossary':
+      return (
+        <SectionFrame id={section.id} title={section.title} sectionRef={sectionRef}>
+          <GlossaryBlock section={section} />
+        </SectionFrame>
+      );
+    case 'references':
+      return (
+        <SectionFrame id={section.id} title={section.title} sectionRef={sectionRef}>
+          <ReferencesBlock section={section} />
+        </SectionFrame>
+      );
+    case 'contact':
+      return (
+        <SectionFrame id={section.id} title={section.title} sectionRef={sectionRef}>
+          <ContactBlock section={section} />
+        </SectionFrame>
+      );
+  }
+};
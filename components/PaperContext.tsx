@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { createContext, useContext } from 'react';
+import { GlossaryEntry, PaperManifest } from '../types';
+import { Bibliography, getBibliography } from '../lib/references';
+
+const PaperContext = createContext<PaperManifest | null>(null);
+
+// Id of the narrative section a component is rendered inside
+const SectionContext = createContext<string | null>(null);
+
+// How many fragments of the current slide are revealed; everything is
+// shown outside presentation mode
+const RevealContext = createContext<number>(Infinity);
+
+const EMPTY_GLOSSARY: Record<string, GlossaryEntry> = {};
+
+export const PaperProvider = ({ paper, children }: { paper: PaperManifest; children?: React.ReactNode }) => (
+  <PaperContext.Provider value={paper}>{children}</PaperContext.Provider>
+);
+
+export const SectionProvider = ({ sectionId, children }: { sectionId: string; children?: React.ReactNode }) => (
+  <SectionContext.Provider value={sectionId}>{children}</SectionContext.Provider>
+);
+
+export const RevealProvider = ({ step, children }: { step: number; children?: React.ReactNode }) => (
+  <RevealContext.Provider value={step}>{children}</RevealContext.Provider>
+);
+
+export const usePaper = (): PaperManifest => {
+  const paper = useContext(PaperContext);
+  if (!paper) {
+    throw new Error("usePaper must be used inside a PaperProvider");
+  }
+  return paper;
+};
+
+// Safe outside a paper (e.g. a visualization rendered on its own)
+export const useGlossary = (): Record<string, GlossaryEntry> =>
+  useContext(PaperContext)?.glossary ?? EMPTY_GLOSSARY;
+
+export const useBibliography = (): Bibliography | null => {
+  const paper = useContext(PaperContext);
+  return paper ? getBibliography(paper) : null;
+};
+
+export const useSectionId = (): string | null => useContext(SectionContext);
+
+export const useRevealStep = (): number => useContext(RevealContext);
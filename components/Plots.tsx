@@ -0,0 +1,472 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useState } from 'react';
+import { superscript } from '../lib/units';
+import { Theme, channels, withAlpha } from '../lib/theme';
+import { useTheme } from '../hooks/useTheme';
+
+export interface PlotPoint {
+  x: number;
+  y: number;
+}
+
+export interface PlotMarker extends PlotPoint {
+  id: string;
+  label: string;
+  color: string;
+  onSelect?: () => void;
+}
+
+export interface PlotLine {
+  y: number;
+  label: string;
+  color: string;
+}
+
+const WIDTH = 400;
+const HEIGHT = 220;
+const PAD = { left: 44, right: 12, top: 12, bottom: 28 };
+
+const decadeLabel = (exponent: number) => `10${superscript(exponent)}`;
+
+// Frame, grid and label colours shared by every chart
+const chartColors = (theme: Theme) => ({
+  panel: withAlpha(theme.base.white, 0.02),
+  frame: theme.cyber.gray,
+  grid: withAlpha(theme.base.white, 0.05),
+  tick: theme.base.gray[500],
+  label: theme.base.gray[400],
+});
+
+// Log-log line chart drawn in SVG. Points outside the domain are clipped.
+export const LogLogPlot = ({
+  series,
+  xDomain,
+  yDomain,
+  xLabel,
+  yLabel,
+  color: lineColor,
+  current,
+  markers = [],
+  lines = [],
+}: {
+  series: PlotPoint[];
+  xDomain: [number, number];
+  yDomain: [number, number];
+  xLabel: string;
+  yLabel: string;
+  color?: string;
+  current?: PlotPoint;
+  markers?: PlotMarker[];
+  lines?: PlotLine[];
+}) => {
+  const theme = useTheme();
+  const ink = chartColors(theme);
+  const color = lineColor ?? theme.cyber.cyan;
+  const [lx0, lx1] = xDomain.map(Math.log10);
+  const [ly0, ly1] = yDomain.map(Math.log10);
+  const plotW = WIDTH - PAD.left - PAD.right;
+  const plotH = HEIGHT - PAD.top - PAD.bottom;
+
+  const sx = (x: number) => PAD.left + ((Math.log10(x) - lx0) / (lx1 - lx0)) * plotW;
+  const sy = (y: number) => PAD.top + (1 - (Math.log10(y) - ly0) / (ly1 - ly0)) * plotH;
+  const inDomain = (p: PlotPoint) =>
+    isFinite(p.y) && p.x >= xDomain[0] && p.x <= xDomain[1] && p.y >= yDomain[0] && p.y <= yDomain[1];
+
+  const path = series
+    .filter(p => isFinite(p.y) && p.y > 0)
+    .map((p, i) => `${i === 0 ? 'M' : 'L'}${sx(p.x).toFixed(1)},${sy(Math.min(Math.max(p.y, yDomain[0]), yDomain[1])).toFixed(1)}`)
+    .join(' ');
+
+  const tickStep = (span: number) => Math.max(1, Math.ceil(span / 6));
+  const xTicks: number[] = [];
+  for (let e = Math.ceil(lx0); e <= lx1; e += tickStep(lx1 - lx0)) xTicks.push(e);
+  const yTicks: number[] = [];
+  for (let e = Math.ceil(ly0); e <= ly1; e += tickStep(ly1 - ly0)) yTicks.push(e);
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto font-mono" role="img" aria-label={`${yLabel} against ${xLabel}, log-log`}>
+      <rect x={PAD.left} y={PAD.top} width={plotW} height={plotH} fill={ink.panel} stroke={ink.frame} />
+
+      {xTicks.map(e => (
+        <g key={`x${e}`}>
+          <line x1={sx(10 ** e)} x2={sx(10 ** e)} y1={PAD.top} y2={PAD.top + plotH} stroke={ink.grid} />
+          <text x={sx(10 ** e)} y={HEIGHT - PAD.bottom + 12} fill={ink.tick} fontSize="8" textAnchor="middle">{decadeLabel(e)}</text>
+        </g>
+      ))}
+      {yTicks.map(e => (
+        <g key={`y${e}`}>
+          <line x1={PAD.left} x2={PAD.left + plotW} y1={sy(10 ** e)} y2={sy(10 ** e)} stroke={ink.grid} />
+          <text x={PAD.left - 4} y={sy(10 ** e) + 3} fill={ink.tick} fontSize="8" textAnchor="end">{decadeLabel(e)}</text>
+        </g>
+      ))}
+
+      <text x={PAD.left + plotW / 2} y={HEIGHT - 4} fill={ink.label} fontSize="9" textAnchor="middle">{xLabel}</text>
+      <text x={10} y={PAD.top + plotH / 2} fill={ink.label} fontSize="9" textAnchor="middle" transform={`rotate(-90 10 ${PAD.top + plotH / 2})`}>{yLabel}</text>
+
+      {lines.filter(l => l.y >= yDomain[0] && l.y <= yDomain[1]).map(l => (
+        <g key={l.label}>
+          <line x1={PAD.left} x2={PAD.left + plotW} y1={sy(l.y)} y2={sy(l.y)} stroke={l.color} strokeDasharray="4 3" opacity={0.8} />
+          <text x={PAD.left + 4} y={sy(l.y) - 4} fill={l.color} fontSize="8">{l.label}</text>
+        </g>
+      ))}
+
+      <path d={path} fill="none" stroke={color} strokeWidth={1.5} style={{ filter: `drop-shadow(0 0 3px ${color})` }} />
+
+      {markers.filter(inDomain).map(m => (
+        <g
+          key={m.id}
+          onClick={m.onSelect}
+          className={m.onSelect ? 'cursor-pointer' : undefined}
+          role={m.onSelect ? 'button' : undefined}
+          aria-label={m.label}
+        >
+          <rect x={sx(m.x) - 3} y={sy(m.y) - 3} width={6} height={6} fill="none" stroke={m.color} transform={`rotate(45 ${sx(m.x)} ${sy(m.y)})`} />
+          <text x={sx(m.x)} y={sy(m.y) - 7} fill={m.color} fontSize="7" textAnchor="middle">{m.label}</text>
+        </g>
+      ))}
+
+      {current && inDomain(current) && (
+        <circle cx={sx(current.x)} cy={sy(current.y)} r={4} fill={theme.base.white} stroke={color} strokeWidth={2} />
+      )}
+    </svg>
+  );
+};
+
+export interface HistogramBar {
+  start: number;
+  end: number;
+  count: number;
+  expected?: number;
+}
+
+// Linear histogram with an optional expected-count curve over the bars
+export const HistogramPlot = ({
+  bins,
+  xLabel,
+  yLabel,
+  formatX,
+  color: barColor,
+  expectedColor: curveColor,
+  expectedLabel,
+}: {
+  bins: HistogramBar[];
+  xLabel: string;
+  yLabel: string;
+  formatX: (x: number) => string;
+  color?: string;
+  expectedColor?: string;
+  expectedLabel?: string;
+}) => {
+  const theme = useTheme();
+  const ink = chartColors(theme);
+  const color = barColor ?? theme.cyber.purple;
+  const expectedColor = curveColor ?? theme.cyber.cyan;
+  const plotW = WIDTH - PAD.left - PAD.right;
+  const plotH = HEIGHT - PAD.top - PAD.bottom;
+  const x0 = bins[0]?.start ?? 0;
+  const x1 = bins[bins.length - 1]?.end ?? 1;
+  const yMax = Math.max(1, ...bins.map(b => Math.max(b.count, b.expected ?? 0))) * 1.1;
+
+  const sx = (x: number) => PAD.left + ((x - x0) / (x1 - x0)) * plotW;
+  const sy = (y: number) => PAD.top + (1 - y / yMax) * plotH;
+
+  const expectedPath = bins
+    .filter(b => b.expected !== undefined)
+    .map((b, i) => `${i === 0 ? 'M' : 'L'}${sx((b.start + b.end) / 2).toFixed(1)},${sy(b.expected!).toFixed(1)}`)
+    .join(' ');
+  const xTicks = [0, 0.25, 0.5, 0.75, 1].map(f => x0 + f * (x1 - x0));
+  const yTicks = [0, 0.5, 1].map(f => Math.round((f * yMax) / 1.1));
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto font-mono" role="img" aria-label={`Histogram of ${yLabel} against ${xLabel}`}>
+      <rect x={PAD.left} y={PAD.top} width={plotW} height={plotH} fill={ink.panel} stroke={ink.frame} />
+
+      {xTicks.map(x => (
+        <text key={`x${x}`} x={sx(x)} y={HEIGHT - PAD.bottom + 12} fill={ink.tick} fontSize="8" textAnchor="middle">{formatX(x)}</text>
+      ))}
+      {yTicks.map(y => (
+        <g key={`y${y}`}>
+          <line x1={PAD.left} x2={PAD.left + plotW} y1={sy(y)} y2={sy(y)} stroke={ink.grid} />
+          <text x={PAD.left - 4} y={sy(y) + 3} fill={ink.tick} fontSize="8" textAnchor="end">{y}</text>
+        </g>
+      ))}
+
+      <text x={PAD.left + plotW / 2} y={HEIGHT - 4} fill={ink.label} fontSize="9" textAnchor="middle">{xLabel}</text>
+      <text x={10} y={PAD.top + plotH / 2} fill={ink.label} fontSize="9" textAnchor="middle" transform={`rotate(-90 10 ${PAD.top + plotH / 2})`}>{yLabel}</text>
+
+      {bins.map((b, i) => (
+        <rect
+          key={i}
+          x={sx(b.start) + 0.5}
+          y={sy(b.count)}
+          width={Math.max(0, sx(b.end) - sx(b.start) - 1)}
+          height={PAD.top + plotH - sy(b.count)}
+          fill={color}
+          opacity={0.7}
+        />
+      ))}
+
+      {expectedPath && (
+        <path d={expectedPath} fill="none" stroke={expectedColor} strokeWidth={1.5} style={{ filter: `drop-shadow(0 0 3px ${expectedColor})` }} />
+      )}
+      {expectedLabel && (
+        <text x={PAD.left + plotW - 4} y={PAD.top + 10} fill={expectedColor} fontSize="8" textAnchor="end">{expectedLabel}</text>
+      )}
+    </svg>
+  );
+};
+
+export interface PlotSeries {
+  label: string;
+  color: string;
+  points: PlotPoint[];
+}
+
+// Linear chart of several series on shared axes, with a vertical cursor
+// for the current x
+export const LinePlot = ({
+  series,
+  xDomain,
+  yDomain,
+  xLabel,
+  yLabel,
+  formatX,
+  formatY,
+  cursor,
+}: {
+  series: PlotSeries[];
+  xDomain: [number, number];
+  yDomain: [number, number];
+  xLabel: string;
+  yLabel: string;
+  formatX: (x: number) => string;
+  formatY: (y: number) => string;
+  cursor?: number;
+}) => {
+  const theme = useTheme();
+  const ink = chartColors(theme);
+  const plotW = WIDTH - PAD.left - PAD.right;
+  const plotH = HEIGHT - PAD.top - PAD.bottom;
+  const [x0, x1] = xDomain;
+  const [y0, y1] = yDomain;
+
+  const sx = (x: number) => PAD.left + ((x - x0) / (x1 - x0)) * plotW;
+  const sy = (y: number) => PAD.top + (1 - (Math.min(Math.max(y, y0), y1) - y0) / (y1 - y0)) * plotH;
+  const path = (points: PlotPoint[]) =>
+    points.map((p, i) => `${i === 0 ? 'M' : 'L'}${sx(p.x).toFixed(1)},${sy(p.y).toFixed(1)}`).join(' ');
+
+  const xTicks = [0, 0.25, 0.5, 0.75, 1].map(f => x0 + f * (x1 - x0));
+  const yTicks = [0, 0.5, 1].map(f => y0 + f * (y1 - y0));
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto font-mono" role="img" aria-label={`${series.map(s => s.label).join(', ')} against ${xLabel}`}>
+      <rect x={PAD.left} y={PAD.top} width={plotW} height={plotH} fill={ink.panel} stroke={ink.frame} />
+
+      {xTicks.map(x => (
+        <text key={`x${x}`} x={sx(x)} y={HEIGHT - PAD.bottom + 12} fill={ink.tick} fontSize="8" textAnchor="middle">{formatX(x)}</text>
+      ))}
+      {yTicks.map(y => (
+        <g key={`y${y}`}>
+          <line x1={PAD.left} x2={PAD.left + plotW} y1={sy(y)} y2={sy(y)} stroke={ink.grid} />
+          <text x={PAD.left - 4} y={sy(y) + 3} fill={ink.tick} fontSize="8" textAnchor="end">{formatY(y)}</text>
+        </g>
+      ))}
+
+      <text x={PAD.left + plotW / 2} y={HEIGHT - 4} fill={ink.label} fontSize="9" textAnchor="middle">{xLabel}</text>
+      <text x={10} y={PAD.top + plotH / 2} fill={ink.label} fontSize="9" textAnchor="middle" transform={`rotate(-90 10 ${PAD.top + plotH / 2})`}>{yLabel}</text>
+
+      {cursor !== undefined && cursor >= x0 && cursor <= x1 && (
+        <line x1={sx(cursor)} x2={sx(cursor)} y1={PAD.top} y2={PAD.top + plotH} stroke={theme.base.white} strokeDasharray="2 2" opacity={0.5} />
+      )}
+
+      {series.map((s, i) => (
+        <g key={s.label}>
+          <path d={path(s.points)} fill="none" stroke={s.color} strokeWidth={1.5} style={{ filter: `drop-shadow(0 0 3px ${s.color})` }} />
+          <text x={PAD.left + plotW - 4} y={PAD.top + 10 + i * 10} fill={s.color} fontSize="8" textAnchor="end">{s.label}</text>
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+export interface PhaseCell {
+  column: number;
+  row: number;
+}
+
+// Log-log map of a signed value over a grid, drawn as a raster under the
+// axes: negative cells in one colour, positive in the other, stronger the
+// further from zero, with the zero contour traced along cell edges. The
+// pointer or arrow keys pick a cell; click or Enter selects it.
+export const PhaseMapPlot = ({
+  values,
+  columns,
+  rows,
+  xDomain,
+  yDomain,
+  xLabel,
+  yLabel,
+  negativeColor,
+  positiveColor,
+  span = 6,
+  current,
+  onHover,
+  onSelect,
+}: {
+  values: Float64Array; // row-major from the bottom row
+  columns: number;
+  rows: number;
+  xDomain: [number, number];
+  yDomain: [number, number];
+  xLabel: string;
+  yLabel: string;
+  negativeColor: string;
+  positiveColor: string;
+  span?: number; // |value| drawn at full strength
+  current?: PlotPoint;
+  onHover?: (cell: PhaseCell | null) => void;
+  onSelect?: (cell: PhaseCell) => void;
+}) => {
+  const theme = useTheme();
+  const ink = chartColors(theme);
+  const [cursor, setCursor] = useState<PhaseCell | null>(null);
+  const [lx0, lx1] = xDomain.map(Math.log10);
+  const [ly0, ly1] = yDomain.map(Math.log10);
+  const plotW = WIDTH - PAD.left - PAD.right;
+  const plotH = HEIGHT - PAD.top - PAD.bottom;
+  const cellW = plotW / columns;
+  const cellH = plotH / rows;
+
+  const sx = (x: number) => PAD.left + ((Math.log10(x) - lx0) / (lx1 - lx0)) * plotW;
+  const sy = (y: number) => PAD.top + (1 - (Math.log10(y) - ly0) / (ly1 - ly0)) * plotH;
+
+  const raster = useMemo(() => {
+    const canvas = document.createElement('canvas');
+    canvas.width = columns;
+    canvas.height = rows;
+    const context = canvas.getContext('2d');
+    if (!context) return '';
+    const image = context.createImageData(columns, rows);
+    const negative = channels(negativeColor);
+    const positive = channels(positiveColor);
+    values.forEach((value, i) => {
+      const column = i % columns;
+      const row = Math.floor(i / columns);
+      const offset = ((rows - 1 - row) * columns + column) * 4; // image rows run top down
+      const [r, g, b] = value <= 0 ? negative : positive;
+      image.data.set([r, g, b, Math.round(255 * (0.2 + 0.7 * Math.min(1, Math.abs(value) / span)))], offset);
+    });
+    context.putImageData(image, 0, 0);
+    return canvas.toDataURL();
+  }, [values, columns, rows, negativeColor, positiveColor, span]);
+
+  // Cell edges where the sign flips
+  const contour = useMemo(() => {
+    const negative = (column: number, row: number) => values[row * columns + column] <= 0;
+    const segments: string[] = [];
+    for (let row = 0; row < rows; row++) {
+      for (let column = 0; column < columns; column++) {
+        const x = PAD.left + column * cellW;
+        const y = PAD.top + (rows - 1 - row) * cellH;
+        if (column + 1 < columns && negative(column, row) !== negative(column + 1, row)) {
+          segments.push(`M${(x + cellW).toFixed(1)},${y.toFixed(1)}v${cellH.toFixed(1)}`);
+        }
+        if (row + 1 < rows && negative(column, row) !== negative(column, row + 1)) {
+          segments.push(`M${x.toFixed(1)},${y.toFixed(1)}h${cellW.toFixed(1)}`);
+        }
+      }
+    }
+    return segments.join('');
+  }, [values, columns, rows, cellW, cellH]);
+
+  const tickStep = (decades: number) => Math.max(1, Math.ceil(decades / 6));
+  const xTicks: number[] = [];
+  for (let e = Math.ceil(lx0); e <= lx1; e += tickStep(lx1 - lx0)) xTicks.push(e);
+  const yTicks: number[] = [];
+  for (let e = Math.ceil(ly0); e <= ly1; e += tickStep(ly1 - ly0)) yTicks.push(e);
+
+  const moveTo = (cell: PhaseCell | null) => {
+    setCursor(cell);
+    onHover?.(cell);
+  };
+
+  const cellAt = (event: React.MouseEvent<SVGSVGElement>): PhaseCell | null => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = ((event.clientX - rect.left) / rect.width) * WIDTH - PAD.left;
+    const y = ((event.clientY - rect.top) / rect.height) * HEIGHT - PAD.top;
+    if (x < 0 || y < 0 || x >= plotW || y >= plotH) return null;
+    return { column: Math.floor(x / cellW), row: rows - 1 - Math.floor(y / cellH) };
+  };
+
+  const onKeyDown = (event: React.KeyboardEvent) => {
+    const moves: Record<string, [number, number]> = { ArrowLeft: [-1, 0], ArrowRight: [1, 0], ArrowUp: [0, 1], ArrowDown: [0, -1] };
+    if (event.key in moves) {
+      event.preventDefault();
+      event.stopPropagation();
+      const [dc, dr] = moves[event.key];
+      const from = cursor ?? { column: Math.floor(columns / 2), row: Math.floor(rows / 2) };
+      moveTo({
+        column: Math.min(columns - 1, Math.max(0, from.column + dc)),
+        row: Math.min(rows - 1, Math.max(0, from.row + dr)),
+      });
+    } else if (event.key === 'Enter' && cursor) {
+      event.preventDefault();
+      event.stopPropagation();
+      onSelect?.(cursor);
+    }
+  };
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="w-full h-auto font-mono cursor-crosshair outline-none focus-visible:ring-2 focus-visible:ring-cyber-cyan rounded"
+      role="application"
+      aria-roledescription="phase diagram"
+      aria-label={`${yLabel} against ${xLabel}, log-log. Arrow keys move the cursor, Enter selects.`}
+      tabIndex={0}
+      onPointerMove={(e) => moveTo(cellAt(e))}
+      onPointerLeave={() => moveTo(null)}
+      onClick={(e) => { const cell = cellAt(e); if (cell) onSelect?.(cell); }}
+      onKeyDown={onKeyDown}
+      onBlur={() => moveTo(null)}
+    >
+      <rect x={PAD.left} y={PAD.top} width={plotW} height={plotH} fill={ink.panel} />
+      {raster && (
+        <image href={raster} x={PAD.left} y={PAD.top} width={plotW} height={plotH} preserveAspectRatio="none" style={{ imageRendering: 'pixelated' }} />
+      )}
+      <rect x={PAD.left} y={PAD.top} width={plotW} height={plotH} fill="none" stroke={ink.frame} />
+
+      {xTicks.map(e => (
+        <text key={`x${e}`} x={sx(10 ** e)} y={HEIGHT - PAD.bottom + 12} fill={ink.tick} fontSize="8" textAnchor="middle">{decadeLabel(e)}</text>
+      ))}
+      {yTicks.map(e => (
+        <text key={`y${e}`} x={PAD.left - 4} y={sy(10 ** e) + 3} fill={ink.tick} fontSize="8" textAnchor="end">{decadeLabel(e)}</text>
+      ))}
+
+      <text x={PAD.left + plotW / 2} y={HEIGHT - 4} fill={ink.label} fontSize="9" textAnchor="middle">{xLabel}</text>
+      <text x={10} y={PAD.top + plotH / 2} fill={ink.label} fontSize="9" textAnchor="middle" transform={`rotate(-90 10 ${PAD.top + plotH / 2})`}>{yLabel}</text>
+
+      <path d={contour} fill="none" stroke={theme.base.white} strokeWidth={1} opacity={0.8} />
+
+      {cursor && (
+        <rect
+          x={PAD.left + cursor.column * cellW}
+          y={PAD.top + (rows - 1 - cursor.row) * cellH}
+          width={cellW}
+          height={cellH}
+          fill="none"
+          stroke={theme.base.white}
+          strokeWidth={1.5}
+          pointerEvents="none"
+        />
+      )}
+      {current && current.x >= xDomain[0] && current.x <= xDomain[1] && current.y >= yDomain[0] && current.y <= yDomain[1] && (
+        <circle cx={sx(current.x)} cy={sy(current.y)} r={4} fill="none" stroke={theme.base.white} strokeWidth={2} pointerEvents="none" />
+      )}
+    </svg>
+  );
+};
@@ -0,0 +1,194 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight, EyeOff, MonitorPlay, Pause, Play, TimerReset, X } from 'lucide-react';
+import { NarrativeSectionView } from './Narrative';
+import { RevealProvider, usePaper } from './PaperContext';
+import { RichText } from './RichText';
+import { useI18n } from '../hooks/useI18n';
+import { usePresenterRemote } from '../hooks/usePresentation';
+import { SlideAction, SlidePosition, advance, fragmentCount } from '../lib/presentation';
+import { NarrativeSection } from '../types';
+
+type NavAction = Exclude<SlideAction, 'exit'>;
+
+const noRef = () => undefined;
+
+const formatClock = (seconds: number) => {
+  const s = Math.floor(seconds);
+  const hours = Math.floor(s / 3600);
+  const mm = String(Math.floor((s % 3600) / 60)).padStart(2, '0');
+  const ss = String(s % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${mm}:${ss}` : `${mm}:${ss}`;
+};
+
+// --- AUDIENCE SLIDE ---
+
+export const SlideView = ({
+  sections,
+  position,
+  blanked,
+  onAction,
+  onExit,
+  onOpenPresenter,
+}: {
+  sections: NarrativeSection[];
+  position: SlidePosition;
+  blanked: boolean;
+  onAction: (action: NavAction) => void;
+  onExit: () => void;
+  onOpenPresenter: () => void;
+}) => {
+  const { t } = useI18n();
+  const section = sections[position.slide];
+  const fragments = fragmentCount(section);
+
+  return (
+    <div className="fixed inset-0 z-40 overflow-y-auto">
+      <RevealProvider step={position.step}>
+        <NarrativeSectionView key={section.id} section={section} sectionRef={noRef} onAdvance={() => onAction('next')} />
+      </RevealProvider>
+
+      {blanked && <div className="fixed inset-0 z-50 bg-black" aria-label={t('present.blanked')}></div>}
+
+      <div className="fixed bottom-4 end-4 z-50 flex items-center gap-3 px-3 py-2 bg-black/70 backdrop-blur-md border border-gray-800 rounded font-mono text-[10px] text-gray-400 opacity-40 hover:opacity-100 transition-opacity">
+        <button onClick={() => onAction('prev')} className="hover:text-cyber-cyan" aria-label={t('present.previous')}><ChevronLeft size={14} className="rtl:rotate-180" /></button>
+        <span className="tracking-widest">
+          {position.slide + 1} / {sections.length}
+          {fragments > 0 && <span className="text-gray-600"> · {position.step}/{fragments}</span>}
+        </span>
+        <button onClick={() => onAction('next')} className="hover:text-cyber-cyan" aria-label={t('present.next')}><ChevronRight size={14} className="rtl:rotate-180" /></button>
+        <button onClick={onOpenPresenter} className="hover:text-cyber-cyan" aria-label={t('present.openPresenter')}><MonitorPlay size={14} /></button>
+        <button onClick={onExit} className="hover:text-cyber-red" aria-label={t('present.exit')}><X size={14} /></button>
+      </div>
+
+      <div className="fixed bottom-0 start-0 z-50 h-0.5 bg-cyber-cyan transition-all duration-300" style={{ width: `${((position.slide + 1) / sections.length) * 100}%` }}></div>
+    </div>
+  );
+};
+
+// --- PRESENTER WINDOW ---
+
+// A whole slide rendered at 1600×900 and scaled into a thumbnail
+const SlidePreview = ({ section, step }: { section: NarrativeSection; step: number }) => (
+  <div className="relative w-[480px] max-w-full aspect-video overflow-hidden rounded border border-gray-800 bg-cyber-black pointer-events-none" aria-hidden>
+    <div className="absolute top-0 left-0 w-[1600px] h-[900px] origin-top-left scale-[0.3] overflow-hidden">
+      <RevealProvider step={step}>
+        <NarrativeSectionView section={section} sectionRef={noRef} onAdvance={() => undefined} />
+      </RevealProvider>
+    </div>
+  </div>
+);
+
+const useStopwatch = () => {
+  const [elapsed, setElapsed] = useState(0);
+  const [running, setRunning] = useState(true);
+
+  useEffect(() => {
+    if (!running) return;
+    const started = Date.now() - elapsed * 1000;
+    const interval = setInterval(() => setElapsed((Date.now() - started) / 1000), 250);
+    return () => clearInterval(interval);
+    // `elapsed` only seeds the start time when the watch (re)starts
+  }, [running]);
+
+  return { elapsed, running, toggle: () => setRunning(r => !r), reset: () => setElapsed(0) };
+};
+
+export const PresenterConsole: React.FC = () => {
+  const { title, sections } = usePaper();
+  const { position, blanked, perform, goto, connected, supported } = usePresenterRemote();
+  const { t, locale } = useI18n();
+  const stopwatch = useStopwatch();
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const current = position ? sections[position.slide] : null;
+  const next = position ? advance(sections, position, 1) : null;
+  const nextSection = next ? sections[next.slide] : null;
+  const atEnd = !!position && !!next && next.slide === position.slide && next.step === position.step;
+
+  return (
+    <div className="min-h-screen bg-cyber-black text-gray-200 font-sans p-6 flex flex-col gap-6">
+      <header className="flex items-center justify-between border-b border-gray-800 pb-4 font-mono">
+        <div>
+          <div className="text-[10px] text-gray-500 tracking-[0.3em] uppercase">{t('present.presenter')}</div>
+          <div className="text-white tracking-widest">{title}</div>
+        </div>
+        <div className="flex items-center gap-6">
+          <div className="text-end">
+            <div className="text-[10px] text-gray-500 tracking-[0.3em] uppercase">{t('present.elapsed')}</div>
+            <div className={`text-3xl ${stopwatch.running ? 'text-cyber-cyan' : 'text-gray-500'}`}>{formatClock(stopwatch.elapsed)}</div>
+          </div>
+          <div className="flex flex-col gap-1 text-gray-400">
+            <button onClick={stopwatch.toggle} className="hover:text-cyber-cyan" aria-label={t(stopwatch.running ? 'present.pauseTimer' : 'present.resumeTimer')}>
+              {stopwatch.running ? <Pause size={14} /> : <Play size={14} />}
+            </button>
+            <button onClick={stopwatch.reset} className="hover:text-cyber-cyan" aria-label={t('present.resetTimer')}><TimerReset size={14} /></button>
+          </div>
+          <div className="text-end">
+            <div className="text-[10px] text-gray-500 tracking-[0.3em] uppercase">{t('present.clock')}</div>
+            <div className="text-3xl text-white">{now.toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit' })}</div>
+          </div>
+        </div>
+      </header>
+
+      {!supported && (
+        <p className="font-mono text-sm text-cyber-red">{t('present.unsupported')}</p>
+      )}
+      {supported && !connected && (
+        <p className="font-mono text-sm text-gray-500">{t('present.waiting')}</p>
+      )}
+
+      {current && position && (
+        <div className="grid lg:grid-cols-[1fr_auto] gap-8 flex-1">
+          <section className="space-y-4 min-w-0">
+            <div className="font-mono text-[10px] text-gray-500 tracking-[0.3em] uppercase">
+              {t('present.slide', { slide: position.slide + 1, total: sections.length })}
+              {fragmentCount(current) > 0 && ` · ${t('present.step', { step: position.step, total: fragmentCount(current) })}`}
+              {blanked && <span className="text-cyber-yellow"> · {t('present.screenBlanked')}</span>}
+            </div>
+            <h1 className="text-3xl font-bold text-white">{current.title}</h1>
+            <div className="bg-black/60 border border-gray-800 rounded p-5 space-y-3 text-lg leading-relaxed text-gray-300">
+              {current.notes?.length
+                ? current.notes.map((note, idx) => <p key={idx}><RichText text={note} /></p>)
+                : <p className="text-gray-600 font-mono text-sm">{t('present.noNotes')}</p>}
+            </div>
+          </section>
+
+          <aside className="space-y-3">
+            <div className="font-mono text-[10px] text-gray-500 tracking-[0.3em] uppercase">
+              {atEnd ? t('present.end') : next && next.slide === position.slide ? t('present.nextStep', { step: next.step }) : t('present.nextSlide', { title: nextSection?.title ?? '' })}
+            </div>
+            {nextSection && next && !atEnd && <SlidePreview section={nextSection} step={next.step} />}
+          </aside>
+        </div>
+      )}
+
+      <footer className="flex flex-wrap items-center gap-2 border-t border-gray-800 pt-4 font-mono text-xs">
+        <button onClick={() => perform('prev')} disabled={!connected} className="px-4 py-2 border border-gray-700 hover:border-cyber-cyan hover:text-cyber-cyan disabled:opacity-40 flex items-center gap-2"><ChevronLeft size={14} className="rtl:rotate-180" /> {t('present.prevButton')}</button>
+        <button onClick={() => perform('next')} disabled={!connected} className="px-4 py-2 border border-cyber-cyan text-cyber-cyan hover:bg-cyber-cyan/10 disabled:opacity-40 flex items-center gap-2">{t('present.nextButton')} <ChevronRight size={14} className="rtl:rotate-180" /></button>
+        <button onClick={() => perform('blank')} disabled={!connected} className="px-4 py-2 border border-gray-700 hover:border-cyber-yellow hover:text-cyber-yellow disabled:opacity-40 flex items-center gap-2"><EyeOff size={14} /> {t('present.blankButton')}</button>
+        <span className="flex-1"></span>
+        {sections.map((section, idx) => (
+          <button
+            key={section.id}
+            onClick={() => goto(idx)}
+            disabled={!connected}
+            title={section.title}
+            className={`w-7 h-7 border text-[10px] disabled:opacity-40 ${position?.slide === idx ? 'border-cyber-cyan text-cyber-cyan' : 'border-gray-800 text-gray-500 hover:border-gray-500'}`}
+          >
+            {idx + 1}
+          </button>
+        ))}
+      </footer>
+    </div>
+  );
+};
@@ -0,0 +1,162 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect } from 'react';
+import { ArrowLeft, Printer } from 'lucide-react';
+import { VIZ_TITLES } from './Narrative';
+import { useBibliography, usePaper } from './PaperContext';
+import { RichText } from './RichText';
+import { MathText, TeX } from './TeX';
+import { formatReference, referenceLink } from '../lib/references';
+import { useI18n } from '../hooks/useI18n';
+
+export interface PrintSnapshot {
+  snapshots: Record<string, string>; // data-snapshot key → static HTML
+  takenAt: Date;
+}
+
+// Matches the data-snapshot key on HeroScene
+export const HERO_SNAPSHOT = 'hero-scene';
+
+const Figure = ({ html, number, caption, wide = false }: { html?: string; number: number; caption: string; wide?: boolean }) => {
+  const { t } = useI18n();
+  return (
+    <figure className="print-figure space-y-2 break-inside-avoid">
+      {html
+        ? <div className={`print-snapshot bg-cyber-black rounded overflow-hidden pointer-events-none select-none ${wide ? 'aspect-video' : 'p-3'}`} dangerouslySetInnerHTML={{ __html: html }} />
+        : <div className="border border-dashed border-gray-300 rounded p-6 text-center text-sm text-gray-400">{t('print.snapshotMissing')}</div>}
+      <figcaption className="text-sm text-gray-600"><span className="font-semibold">{t('print.figure', { number })}</span> {caption}</figcaption>
+    </figure>
+  );
+};
+
+// Linear, light rendering of the whole paper for print-to-PDF. The live
+// visualizations are replaced by snapshots taken when the export started.
+export const PrintView = ({ snapshot, autoPrint, onClose }: { snapshot: PrintSnapshot; autoPrint: boolean; onClose: () => void }) => {
+  const { title, author, sections, glossary } = usePaper();
+  const references = useBibliography()?.entries ?? [];
+  const { t, locale } = useI18n();
+  const hero = sections.find(section => section.kind === 'hero');
+  let figure = 0;
+
+  useEffect(() => {
+    if (!autoPrint) return;
+    // Give KaTeX and the snapshot images a moment to lay out
+    const timeout = setTimeout(() => window.print(), 400);
+    return () => clearTimeout(timeout);
+  }, [autoPrint]);
+
+  return (
+    <div className="print-document relative z-20 min-h-screen bg-white text-gray-900">
+      <div className="print:hidden sticky top-0 z-10 flex items-center justify-between gap-4 px-6 py-3 bg-gray-100 border-b border-gray-300 font-mono text-xs">
+        <button onClick={onClose} className="flex items-center gap-2 text-gray-600 hover:text-black"><ArrowLeft size={14} className="rtl:rotate-180" /> {t('print.back')}</button>
+        <span className="text-gray-500">{t('print.preview', { time: snapshot.takenAt.toLocaleTimeString(locale) })}</span>
+        <button onClick={() => window.print()} className="flex items-center gap-2 px-3 py-1 border border-gray-400 rounded hover:bg-white"><Printer size={14} /> {t('print.print')}</button>
+      </div>
+
+      <article className="max-w-3xl mx-auto px-8 py-12 space-y-10 leading-relaxed">
+        <header className="text-center space-y-3 border-b border-gray-300 pb-8">
+          <h1 className="text-4xl font-bold tracking-tight">{title}</h1>
+          <p className="text-lg">{author.name} <span className="text-gray-500">· {author.role}</span></p>
+          <p className="text-sm text-gray-500 font-mono">{author.email} · github.com/{author.github}</p>
+          <p className="text-xs text-gray-400">
+            {t('print.exported', { date: snapshot.takenAt.toLocaleString(locale) })}
+          </p>
+        </header>
+
+        {hero && hero.kind === 'hero' && (
+          <Figure html={snapshot.snapshots[HERO_SNAPSHOT]} number={++figure} caption={`${hero.title}: ${hero.subtitle.toLowerCase()}.`} wide />
+        )}
+
+        {sections.map(section => {
+          switch (section.kind) {
+            case 'text-viz':
+              return (
+                <section key={section.id} className="space-y-4">
+                  <div className="text-xs font-mono tracking-[0.2em] text-gray-500 uppercase">{section.label}</div>
+                  <h2 className="text-2xl font-bold">{section.title}</h2>
+                  {section.paragraphs.map((paragraph, idx) => (
+                    <p key={idx}><RichText text={paragraph} plain /></p>
+                  ))}
+                  {section.callout && (
+                    <blockquote className="border-s-4 border-gray-300 ps-4 font-mono text-sm text-gray-700 space-y-1">
+                      {section.callout.lines.map((line, idx) => <div key={idx}><RichText text={line} plain /></div>)}
+                    </blockquote>
+                  )}
+                  <Figure html={snapshot.snapshots[section.id]} number={++figure} caption={`${t(VIZ_TITLES[section.viz])}.`} />
+                </section>
+              );
+            case 'derivation':
+              return (
+                <section key={section.id} className="space-y-4 break-inside-avoid">
+                  <div className="text-xs font-mono tracking-[0.2em] text-gray-500 uppercase">{section.label}</div>
+                  <h2 className="text-2xl font-bold">{section.title}</h2>
+                  <p><RichText text={section.summary} plain /></p>
+                  <div className="text-2xl text-center py-2 flex justify-center gap-4">
+                    {section.equation.map((part, idx) => <span key={idx}><RichText text={part} plain /></span>)}
+                  </div>
+                  {section.display?.map((source, idx) => <TeX key={idx} source={source} display />)}
+                  {section.steps && (
+                    <ol className="space-y-3 border-s-2 border-gray-300 ps-4">
+                      {section.steps.map((step, idx) => (
+                        <li key={idx} className="break-inside-avoid">
+                          <div className="grid grid-cols-[2.5rem_1fr] items-center">
+                            <span className="text-sm text-gray-500">({idx + 1})</span>
+                            <TeX source={step.tex} display />
+                          </div>
+                          <p className="text-sm"><RichText text={step.justification} plain /></p>
+                          {step.details?.map((line, lineIdx) => (
+                            <p key={lineIdx} className="text-sm text-gray-600 ps-4"><RichText text={line} plain /></p>
+                          ))}
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+                  <p><RichText text={section.conclusion} plain /></p>
+                </section>
+              );
+            default:
+              return null;
+          }
+        })}
+
+        {references.length > 0 && (
+          <section className="space-y-4 break-before-page">
+            <h2 className="text-2xl font-bold">{t('print.references')}</h2>
+            <ol className="space-y-2 text-sm">
+              {references.map((ref, idx) => {
+                const link = referenceLink(ref);
+                return (
+                  <li key={ref.id} className="grid grid-cols-[2.5rem_1fr]">
+                    <span>[{idx + 1}]</span>
+                    <span>
+                      {formatReference(ref, false)}
+                      {link && <> <a href={link} className="underline break-all">{link}</a></>}
+                    </span>
+                  </li>
+                );
+              })}
+            </ol>
+          </section>
+        )}
+
+        <section className="space-y-4 break-before-page">
+          <h2 className="text-2xl font-bold">{t('print.glossary')}</h2>
+          <dl className="space-y-3 text-sm">
+            {Object.entries(glossary).map(([id, entry]) => (
+              <div key={id} className="grid grid-cols-[6rem_1fr] gap-4 break-inside-avoid">
+                <dt className="text-lg text-end"><TeX source={entry.symbol} /></dt>
+                <dd>
+                  <div className="font-mono text-xs tracking-[0.15em] text-gray-500 uppercase">{entry.title}</div>
+                  <MathText text={entry.tip} />
+                </dd>
+              </div>
+            ))}
+          </dl>
+        </section>
+      </article>
+    </div>
+  );
+};
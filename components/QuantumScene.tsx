@@ -4,12 +4,18 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useRef } from 'react';
-import { Canvas, useFrame } from '@react-three/fiber';
-import { Float, MeshDistortMaterial, Sphere, Torus, Octahedron, Stars } from '@react-three/drei';
-import { Mesh, MeshStandardMaterial, DoubleSide } from 'three';
+import React, { useEffect, useRef, useState } from 'react';
+import { Canvas, ThreeEvent, useFrame } from '@react-three/fiber';
+import { Float, Html, Line, MeshDistortMaterial, OrbitControls, Sphere, Torus, Octahedron, Stars } from '@react-three/drei';
+import { Mesh, MeshStandardMaterial, DoubleSide, Vector3 } from 'three';
+import { BlochVector } from '../lib/qubit';
+import { CaptureTarget } from './CaptureTarget';
+import { useReducedMotion } from '../hooks/useReducedMotion';
+import { useTheme } from '../hooks/useTheme';
+import { useQuality } from '../hooks/useQuality';
+import { GOVERNOR_WINDOW, QUALITY_TIERS, effectiveTier, initialGovernor, reportAutoTier, stepGovernor } from '../lib/quality';
 
-const NeonOperatorNode = ({ position, color, speed = 1, type = 'sphere' }: { position: [number, number, number]; color: string; speed?: number; type?: 'sphere' | 'octa' }) => {
+const NeonOperatorNode = ({ position, color, speed = 1, type = 'sphere', distort = true }: { position: [number, number, number]; color: string; speed?: number; type?: 'sphere' | 'octa'; distort?: boolean }) => {
   const ref = useRef<Mesh>(null);
   
   useFrame((state) => {
@@ -38,21 +44,25 @@ const NeonOperatorNode = ({ position, color, speed = 1, type = 'sphere' }: { pos
 
   return (
     <Sphere ref={ref} args={[0.6, 32, 32]} position={position}>
-      <MeshDistortMaterial
-        color={color}
-        emissive={color}
-        emissiveIntensity={0.5}
-        wireframe={true}
-        metalness={1}
-        roughness={0}
-        distort={0.4}
-        speed={speed}
-      />
+      {distort ? (
+        <MeshDistortMaterial
+          color={color}
+          emissive={color}
+          emissiveIntensity={0.5}
+          wireframe={true}
+          metalness={1}
+          roughness={0}
+          distort={0.4}
+          speed={speed}
+        />
+      ) : (
+        <meshStandardMaterial color={color} emissive={color} emissiveIntensity={0.5} wireframe metalness={1} roughness={0} />
+      )}
     </Sphere>
   );
 };
 
-const CyberTorus = () => {
+const CyberTorus = ({ color }: { color: string }) => {
   const ref = useRef<Mesh>(null);
   
   useFrame((state) => {
@@ -72,86 +82,284 @@ const CyberTorus = () => {
 
   return (
     <Torus ref={ref} args={[3.5, 0.02, 16, 100]} rotation={[Math.PI / 2, 0, 0]}>
-      <meshStandardMaterial color="#00f0ff" emissive="#00f0ff" emissiveIntensity={1.5} toneMapped={false} />
+      <meshStandardMaterial color={color} emissive={color} emissiveIntensity={1.5} toneMapped={false} />
     </Torus>
   );
 }
 
+// Averages frame times over fixed windows and lets the governor pick the
+// tier. Long gaps (a stalled tab, a resumed frameloop) are not frames.
+const QualityGovernor = () => {
+  const governor = useRef(initialGovernor(useQuality().autoTier));
+  const sample = useRef({ elapsed: 0, frames: 0 });
+
+  useFrame((_, delta) => {
+    if (delta > 0.25) return;
+    const w = sample.current;
+    w.elapsed += delta;
+    w.frames += 1;
+    if (w.elapsed < GOVERNOR_WINDOW) return;
+    governor.current = stepGovernor(governor.current, (w.elapsed * 1000) / w.frames);
+    reportAutoTier(governor.current.tier);
+    sample.current = { elapsed: 0, frames: 0 };
+  });
+
+  return null;
+};
+
+// False while the tab is hidden or the element is scrolled or laid out
+// out of view
+const useOnScreen = (ref: React.RefObject<HTMLElement | null>) => {
+  const [intersecting, setIntersecting] = useState(true);
+  const [pageVisible, setPageVisible] = useState(() => document.visibilityState === 'visible');
+
+  useEffect(() => {
+    const onVisibility = () => setPageVisible(document.visibilityState === 'visible');
+    document.addEventListener('visibilitychange', onVisibility);
+    return () => document.removeEventListener('visibilitychange', onVisibility);
+  }, []);
+
+  useEffect(() => {
+    if (!ref.current) return;
+    const observer = new IntersectionObserver(([entry]) => setIntersecting(entry.isIntersecting));
+    observer.observe(ref.current);
+    return () => observer.disconnect();
+  }, [ref]);
+
+  return intersecting && pageVisible;
+};
+
 export const HeroScene: React.FC = () => {
+  const container = useRef<HTMLDivElement>(null);
+  const onScreen = useOnScreen(container);
+  // 'demand' draws a single still frame until something invalidates it
+  const reducedMotion = useReducedMotion();
+  const { cyber, scene } = useTheme();
+  const quality = useQuality();
+  const tier = QUALITY_TIERS[effectiveTier(quality)];
+  const frameloop = !onScreen ? 'never' : reducedMotion ? 'demand' : 'always';
+
   return (
-    <div className="w-full h-full">
-      <Canvas camera={{ position: [0, 0, 8], fov: 40 }} gl={{ toneMappingExposure: 1.5 }}>
-        <fog attach="fog" args={['#050505', 5, 20]} />
+    <div ref={container} className="w-full h-full" data-snapshot="hero-scene">
+      <Canvas frameloop={frameloop} dpr={[1, tier.maxDpr]} camera={{ position: [0, 0, 8], fov: 40 }} gl={{ toneMappingExposure: scene.exposure, preserveDrawingBuffer: true }}>
+        {quality.mode === 'auto' && <QualityGovernor />}
+        <fog attach="fog" args={[cyber.black, 5, 20]} />
         <ambientLight intensity={0.5} />
         
         {/* Neon Lights */}
-        <pointLight position={[10, 10, 10]} intensity={2} color="#00f0ff" distance={20} />
-        <pointLight position={[-10, -10, -10]} intensity={2} color="#ff003c" distance={20} />
+        <pointLight position={[10, 10, 10]} intensity={2} color={cyber.cyan} distance={20} />
+        <pointLight position={[-10, -10, -10]} intensity={2} color={cyber.red} distance={20} />
         
         <Float speed={2} rotationIntensity={0.5} floatIntensity={0.5}>
           {/* Central State */}
-          <Sphere args={[1, 64, 64]}>
-             <MeshDistortMaterial 
-                color="#1a1a1d" 
-                emissive="#710193"
-                emissiveIntensity={0.5}
-                roughness={0.1}
-                metalness={1}
-                distort={0.3}
-                speed={2}
-             />
+          <Sphere args={[1, tier.segments, tier.segments]}>
+             {tier.distort ? (
+               <MeshDistortMaterial 
+                  color={cyber.gray}
+                  emissive={cyber.purple}
+                  emissiveIntensity={0.5}
+                  roughness={0.1}
+                  metalness={1}
+                  distort={0.3}
+                  speed={2}
+               />
+             ) : (
+               <meshStandardMaterial color={cyber.gray} emissive={cyber.purple} emissiveIntensity={0.5} roughness={0.1} metalness={1} />
+             )}
           </Sphere>
-          <CyberTorus />
+          <CyberTorus color={cyber.cyan} />
         </Float>
         
         {/* Orbiting Operators */}
         <Float speed={3} rotationIntensity={1} floatIntensity={1}>
-           <NeonOperatorNode position={[-3, 1.5, -1]} color="#fcee0a" type="octa" speed={2} />
-           <NeonOperatorNode position={[3, -1.5, -2]} color="#00f0ff" type="octa" speed={2} />
-           <NeonOperatorNode position={[0, 3, -4]} color="#ff003c" type="sphere" speed={1.5} />
+           <NeonOperatorNode position={[-3, 1.5, -1]} color={cyber.yellow} type="octa" speed={2} />
+           <NeonOperatorNode position={[3, -1.5, -2]} color={cyber.cyan} type="octa" speed={2} />
+           <NeonOperatorNode position={[0, 3, -4]} color={cyber.red} type="sphere" speed={1.5} distort={tier.distort} />
         </Float>
 
-        <Stars radius={100} depth={50} count={3000} factor={3} saturation={0} fade speed={2} />
+        {scene.stars && <Stars radius={100} depth={50} count={tier.stars} factor={3} saturation={0} fade speed={2} />}
+        <CaptureTarget id="hero-scene" label="HERO SCENE" />
       </Canvas>
     </div>
   );
 };
 
-export const HilbertSpaceScene: React.FC = () => {
+// --- BLOCH SPHERE ---
+
+const SPHERE_SPACING = 2.8;
+const TRAIL_LENGTH = 240;
+
+// Bloch (x, y, z) → scene coordinates with z up and x toward the viewer
+const toScene = ([x, y, z]: BlochVector): [number, number, number] => [y, z, x];
+const fromScene = (p: Vector3): BlochVector => [p.z, p.x, p.y];
+
+const AXES: { label: string; end: BlochVector }[] = [
+  { label: '|0⟩', end: [0, 0, 1] },
+  { label: '|1⟩', end: [0, 0, -1] },
+  { label: '|+⟩', end: [1, 0, 0] },
+  { label: '|+i⟩', end: [0, 1, 0] },
+];
+
+const EQUATOR = Array.from({ length: 65 }, (_, i) => {
+  const a = (i / 64) * Math.PI * 2;
+  return toScene([Math.cos(a), Math.sin(a), 0]);
+});
+
+const BlochSphere = ({
+  index,
+  position,
+  vector,
+  axis,
+  color,
+  resetKey,
+  onDrag,
+  setDragging,
+}: {
+  index: number;
+  position: [number, number, number];
+  vector: BlochVector;
+  axis?: BlochVector;
+  color: string;
+  resetKey: number;
+  onDrag?: (index: number, direction: BlochVector) => void;
+  setDragging: (dragging: boolean) => void;
+}) => {
+  const trail = useRef<[number, number, number][]>([]);
+  const dragging = useRef(false);
+  const { base, cyber } = useTheme();
+  const tip = toScene(vector);
+
+  useEffect(() => {
+    trail.current = [];
+  }, [resetKey]);
+
+  useEffect(() => {
+    const last = trail.current[trail.current.length - 1];
+    if (last && last.every((c, i) => c === tip[i])) return;
+    trail.current = [...trail.current.slice(-TRAIL_LENGTH + 1), tip];
+  });
+
+  const dragTo = (e: ThreeEvent<PointerEvent>) => {
+    const local = e.point.clone().sub(new Vector3(...position));
+    if (local.lengthSq() > 0) onDrag?.(index, fromScene(local.normalize()));
+  };
+
+  useEffect(() => {
+    const endDrag = () => {
+      if (!dragging.current) return;
+      dragging.current = false;
+      setDragging(false);
+    };
+    window.addEventListener('pointerup', endDrag);
+    return () => window.removeEventListener('pointerup', endDrag);
+  }, [setDragging]);
+
+  return (
+    <group position={position}>
+      <Sphere args={[1, 24, 16]}>
+        <meshBasicMaterial color={cyber.cyan} wireframe transparent opacity={0.08} />
+      </Sphere>
+      {/* Drag surface: pointer hits are projected to the unit sphere */}
+      <Sphere
+        args={[1, 32, 32]}
+        onPointerDown={e => {
+          if (!onDrag) return;
+          e.stopPropagation();
+          dragging.current = true;
+          setDragging(true);
+          dragTo(e);
+        }}
+        onPointerMove={e => {
+          if (dragging.current) dragTo(e);
+        }}
+      >
+        <meshBasicMaterial color={cyber.cyan} transparent opacity={0.04} side={DoubleSide} depthWrite={false} />
+      </Sphere>
+
+      <Line points={EQUATOR} color={cyber.cyan} lineWidth={1} transparent opacity={0.4} />
+      {AXES.map(({ label, end }) => (
+        <group key={label}>
+          <Line points={[[0, 0, 0], toScene(end)]} color={base.gray[600]} lineWidth={1} />
+          <Html position={toScene(end.map(c => c * 1.18) as BlochVector)} center className="pointer-events-none select-none font-mono text-[10px] text-gray-400">
+            {label}
+          </Html>
+        </group>
+      ))}
+
+      {axis && (
+        <Line
+          points={[toScene(axis.map(c => -1.3 * c) as BlochVector), toScene(axis.map(c => 1.3 * c) as BlochVector)]}
+          color={cyber.yellow}
+          lineWidth={1}
+          dashed
+          dashSize={0.08}
+          gapSize={0.06}
+        />
+      )}
+
+      {trail.current.length > 1 && <Line points={trail.current} color={color} lineWidth={1} transparent opacity={0.5} />}
+
+      <Line points={[[0, 0, 0], tip]} color={color} lineWidth={3} />
+      <mesh position={tip}>
+        <sphereGeometry args={[0.06, 16, 16]} />
+        <meshBasicMaterial color={color} toneMapped={false} />
+      </mesh>
+
+      <Html position={[0, -1.45, 0]} center className="pointer-events-none select-none font-mono text-[10px] text-gray-500">
+        q{index}
+      </Html>
+    </group>
+  );
+};
+
+export interface HilbertSpaceSceneProps {
+  vectors: BlochVector[]; // one Bloch (or reduced Bloch) vector per qubit
+  axis?: BlochVector;     // precession axis of the single-qubit Hamiltonian
+  colors?: string[];
+  resetKey?: number;      // clears the precession trails when it changes
+  captureId?: string;     // key for the figure capture tool
+  onDrag?: (index: number, direction: BlochVector) => void;
+  onDraggingChange?: (dragging: boolean) => void;
+}
+
+export const HilbertSpaceScene: React.FC<HilbertSpaceSceneProps> = ({
+  vectors,
+  axis,
+  colors,
+  resetKey = 0,
+  captureId = 'hilbert-space',
+  onDrag,
+  onDraggingChange,
+}) => {
+  const [dragging, setDragging] = useState(false);
+  const reducedMotion = useReducedMotion();
+  const { cyber } = useTheme();
+  const palette = colors ?? [cyber.cyan, cyber.yellow, cyber.red];
+  const distance = 4 + 2.4 * (vectors.length - 1);
+
+  useEffect(() => {
+    onDraggingChange?.(dragging);
+  }, [dragging, onDraggingChange]);
+
   return (
-    <div className="w-full h-full absolute inset-0">
-      <Canvas camera={{ position: [0, 0, 6], fov: 50 }}>
+    <div className="w-full h-full">
+      <Canvas key={vectors.length} frameloop={reducedMotion ? 'demand' : 'always'} aria-hidden="true" camera={{ position: [distance * 0.35, distance * 0.45, distance], fov: 45 }} gl={{ preserveDrawingBuffer: true }}>
         <ambientLight intensity={0.5} />
-        <spotLight position={[5, 5, 5]} angle={0.5} penumbra={1} intensity={3} color="#00f0ff" />
-        <spotLight position={[-5, -5, -5]} angle={0.5} penumbra={1} intensity={3} color="#ff003c" />
-        
-        <Float speed={4} rotationIntensity={1} floatIntensity={2}>
-            {/* The Quantum State Visualization */}
-            <Sphere args={[1.5, 64, 64]}>
-                <MeshDistortMaterial 
-                    color="#1a1a1d" 
-                    emissive="#00f0ff"
-                    emissiveIntensity={0.5}
-                    wireframe
-                    distort={0.5}
-                    speed={2}
-                    metalness={0.1}
-                    roughness={0.2}
-                />
-            </Sphere>
-            <Sphere args={[1.2, 32, 32]}>
-                <meshStandardMaterial 
-                    color="#00f0ff" 
-                    emissive="#00f0ff"
-                    emissiveIntensity={0.5}
-                    transparent
-                    opacity={0.1}
-                    side={DoubleSide}
-                />
-            </Sphere>
-        </Float>
-        
-        <Stars radius={50} depth={50} count={2000} factor={4} saturation={0} fade speed={1} />
+        {vectors.map((vector, k) => (
+          <BlochSphere
+            key={k}
+            index={k}
+            position={[(k - (vectors.length - 1) / 2) * SPHERE_SPACING, 0, 0]}
+            vector={vector}
+            axis={axis}
+            color={palette[k % palette.length]}
+            resetKey={resetKey}
+            onDrag={onDrag}
+            setDragging={setDragging}
+          />
+        ))}
+        <OrbitControls makeDefault enabled={!dragging} enablePan={false} minDistance={2.5} maxDistance={14} />
+        <CaptureTarget id={captureId} label="BLOCH SPHERE" />
       </Canvas>
     </div>
   );
@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { MathTooltip } from './Diagrams';
+import { Citation } from './Citation';
+import { MathText, TeX } from './TeX';
+import { useGlossary } from './PaperContext';
+import { TERM_REF } from '../lib/manifest';
+import { getTerm } from '../lib/glossary';
+import { CITATION_REF, parseCitation } from '../lib/references';
+
+// Term references and citations in one pass: groups 1–2 are a term,
+// group 3 a citation body
+const INLINE_REF = new RegExp(`${TERM_REF.source}|${CITATION_REF.source}`, 'g');
+
+// Renders manifest prose, turning `{{term-id}}` references into tooltips,
+// `[@key]` into numbered citations and `$...$` into typeset math. `plain`
+// drops the tooltips (for print).
+export const RichText = ({ text, plain = false }: { text: string; plain?: boolean }) => {
+  const glossary = useGlossary();
+  const nodes: React.ReactNode[] = [];
+  let cursor = 0;
+
+  for (const match of text.matchAll(INLINE_REF)) {
+    const start = match.index ?? 0;
+    if (start > cursor) nodes.push(<MathText key={`t${cursor}`} text={text.slice(cursor, start)} />);
+    cursor = start + match[0].length;
+
+    if (match[3] !== undefined) {
+      nodes.push(<Citation key={start} items={parseCitation(match[3])} plain={plain} />);
+      continue;
+    }
+    const entry = getTerm(glossary, match[1]);
+    const display = match[2] !== undefined ? <MathText text={match[2]} /> : undefined;
+    if (!entry) {
+      nodes.push(match[0]);
+    } else if (plain) {
+      nodes.push(<React.Fragment key={start}>{display ?? <TeX source={entry.symbol} />}</React.Fragment>);
+    } else {
+      nodes.push(<MathTooltip key={start} term={match[1]}>{display}</MathTooltip>);
+    }
+  }
+  if (cursor < text.length) nodes.push(<MathText key={`t${cursor}`} text={text.slice(cursor)} />);
+
+  return <>{nodes}</>;
+};
@@ -0,0 +1,23 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { renderTeX, splitMath } from '../lib/tex';
+
+export const TeX = ({ source, display = false, className = '' }: { source: string; display?: boolean; className?: string }) => {
+  const Tag = display ? 'div' : 'span';
+  return <Tag className={className} dangerouslySetInnerHTML={{ __html: renderTeX(source, display) }} />;
+};
+
+// Plain text with embedded `$...$` / `$$...$$` math
+export const MathText = ({ text }: { text: string }) => (
+  <>
+    {splitMath(text).map((segment, idx) =>
+      segment.type === 'text'
+        ? <React.Fragment key={idx}>{segment.value}</React.Fragment>
+        : <TeX key={idx} source={segment.value} display={segment.display} />
+    )}
+  </>
+);
@@ -0,0 +1,86 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect } from 'react';
+import { Pause, Play, SkipBack, X } from 'lucide-react';
+import { RichText } from './RichText';
+import { usePaper } from './PaperContext';
+import { useI18n } from '../hooks/useI18n';
+import { TourMode, TourTimeline } from '../lib/tour';
+import { RichText as RichTextSource } from '../types';
+
+const buttonClass = 'p-1 text-gray-400 hover:text-cyber-cyan transition-colors';
+
+// Caption and transport bar of a playing tour. Kiosk mode shows only the
+// caption; Escape leaves the tour in every mode.
+export const TourPlayer = ({ mode, playing, time, timeline, caption, onToggle, onSeek, onExit }: {
+  mode: TourMode | 'manual';
+  playing: boolean;
+  time: number;
+  timeline: TourTimeline;
+  caption: RichTextSource;
+  onToggle: () => void;
+  onSeek: (time: number) => void;
+  onExit: () => void;
+}) => {
+  const { sections } = usePaper();
+  const { t, number } = useI18n();
+  const seconds = (value: number) => number(value, { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onExit();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onExit]);
+
+  return (
+    <div className="fixed bottom-4 inset-x-4 z-50 flex flex-col items-center gap-2 pointer-events-none">
+      {caption && (
+        <div className="max-w-2xl px-4 py-3 bg-black/85 backdrop-blur-xl border border-cyber-cyan/40 rounded-lg text-gray-200 text-sm md:text-base leading-relaxed text-center shadow-2xl pointer-events-auto" aria-live="polite">
+          <RichText text={caption} />
+        </div>
+      )}
+      {mode !== 'kiosk' && (
+        <div className="w-[min(92vw,560px)] flex items-center gap-2 px-3 py-2 bg-black/90 backdrop-blur-xl border border-gray-800 rounded-lg font-mono text-[10px] text-gray-400 shadow-2xl pointer-events-auto" role="group" aria-label={t('tour.title')}>
+          <button onClick={onToggle} className={buttonClass} aria-label={t(playing ? 'tour.pause' : 'tour.play')}>
+            {playing ? <Pause size={14} /> : <Play size={14} />}
+          </button>
+          <button onClick={() => onSeek(0)} className={buttonClass} aria-label={t('tour.restart')}>
+            <SkipBack size={14} className="rtl:rotate-180" />
+          </button>
+          <div className="relative flex-1">
+            <input
+              type="range"
+              min={0}
+              max={timeline.duration}
+              step={0.05}
+              value={time}
+              onChange={e => onSeek(parseFloat(e.target.value))}
+              aria-label={t('tour.position')}
+              aria-valuetext={t('tour.time', { current: seconds(time), total: seconds(timeline.duration) })}
+              className="w-full h-2 md:h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-cyber-cyan"
+            />
+            {timeline.chapters.map(({ sectionId, time: at }) => (
+              <button
+                key={`${sectionId}-${at}`}
+                onClick={() => onSeek(at)}
+                className="absolute -top-2 w-1 h-2 -translate-x-1/2 rtl:translate-x-1/2 bg-cyber-yellow/70 hover:bg-cyber-yellow"
+                style={{ insetInlineStart: `${timeline.duration > 0 ? (at / timeline.duration) * 100 : 0}%` }}
+                aria-label={sections.find(s => s.id === sectionId)?.title ?? sectionId}
+                title={sections.find(s => s.id === sectionId)?.title ?? sectionId}
+              />
+            ))}
+          </div>
+          <span className="shrink-0 tabular-nums">{t('tour.time', { current: seconds(time), total: seconds(timeline.duration) })}</span>
+          <button onClick={onExit} className="p-1 text-gray-500 hover:text-cyber-red" aria-label={t('tour.exit')}>
+            <X size={14} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,23 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import { Annotation, clearHighlights, getAnnotations, paintHighlights, subscribeAnnotations } from '../lib/annotations';
+
+export const useAnnotations = (): Annotation[] => useSyncExternalStore(subscribeAnnotations, getAnnotations, getAnnotations);
+
+// Paints the highlights while mounted and returns the ids whose text is
+// gone. `content` should change whenever the prose does (e.g. its language).
+export const useAnnotationHighlights = (activeId: string | null, content: unknown): Set<string> => {
+  const annotations = useAnnotations();
+  const [missing, setMissing] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    setMissing(paintHighlights(annotations, activeId));
+  }, [annotations, activeId, content]);
+  useEffect(() => clearHighlights, []);
+
+  return missing;
+};
@@ -0,0 +1,10 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useSyncExternalStore } from 'react';
+import { SceneCaptureTarget, getCaptureTargets, subscribeCaptureTargets } from '../lib/capture';
+
+export const useCaptureTargets = (): SceneCaptureTarget[] =>
+  useSyncExternalStore(subscribeCaptureTargets, getCaptureTargets, getCaptureTargets);
@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { runJob } from '../lib/compute';
+import { JobCancelledError, JobInput, JobKind, JobOutput } from '../lib/computeJobs';
+
+export interface ComputeJobState<K extends JobKind> {
+  // Starts a job, cancelling the one in flight. Resolves undefined if the
+  // job is cancelled before it finishes.
+  run: (input: JobInput<K>) => Promise<JobOutput<K> | undefined>;
+  cancel: () => void;
+  running: boolean;
+  progress: number; // 0..1 while running
+}
+
+// One job of `kind` at a time for a component; the job is cancelled on unmount
+export const useComputeJob = <K extends JobKind>(kind: K): ComputeJobState<K> => {
+  const controllerRef = useRef<AbortController | null>(null);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState(0);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setRunning(false);
+  }, []);
+
+  const run = useCallback(async (input: JobInput<K>) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setRunning(true);
+    setProgress(0);
+    try {
+      return await runJob(kind, input, {
+        signal: controller.signal,
+        onProgress: value => { if (!controller.signal.aborted) setProgress(value); },
+      });
+    } catch (err) {
+      if (err instanceof JobCancelledError) return undefined;
+      throw err;
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setRunning(false);
+      }
+    }
+  }, [kind]);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return { run, cancel, running, progress };
+};
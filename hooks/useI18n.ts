@@ -0,0 +1,9 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useSyncExternalStore } from 'react';
+import { I18n, getI18n, subscribeI18n } from '../lib/i18n';
+
+export const useI18n = (): I18n => useSyncExternalStore(subscribeI18n, getI18n, getI18n);
@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useCallback, useEffect, useState } from 'react';
+import { PaperManifest } from '../types';
+import { ManifestError, getPaperUrl, loadManifestFromFile, loadManifestFromUrl } from '../lib/manifest';
+import { localeChain } from '../lib/i18n';
+import { useI18n } from './useI18n';
+
+export type PaperState =
+  | { status: 'loading' }
+  | { status: 'ready'; paper: PaperManifest }
+  | { status: 'error'; error: ManifestError };
+
+const toManifestError = (err: unknown, source: string) =>
+  err instanceof ManifestError ? err : new ManifestError((err as Error).message ?? String(err), source);
+
+// Loads the paper named by `?paper=` (or the bundled default), in the
+// reader's language where the manifest has a translation, and lets the
+// reader swap in a local manifest file. Changing language reloads the
+// paper in place; the loading screen only shows for a new paper.
+export const usePaperManifest = () => {
+  const [state, setState] = useState<PaperState>({ status: 'loading' });
+  const [file, setFile] = useState<File | null>(null);
+  const { locale, ready } = useI18n();
+
+  useEffect(() => {
+    // Wait for the language so the paper does not load twice
+    if (!ready) return;
+    let cancelled = false;
+    const source = file ? file.name : getPaperUrl();
+    const chain = localeChain(locale);
+    (file ? loadManifestFromFile(file, chain) : loadManifestFromUrl(source, chain))
+      .then(paper => { if (!cancelled) setState({ status: 'ready', paper }); })
+      .catch(err => { if (!cancelled) setState({ status: 'error', error: toManifestError(err, source) }); });
+    return () => { cancelled = true; };
+  }, [file, locale, ready]);
+
+  const loadFile = useCallback((next: File) => {
+    setState({ status: 'loading' });
+    setFile(next);
+  }, []);
+
+  useEffect(() => {
+    if (state.status === 'ready') document.title = state.paper.title;
+  }, [state]);
+
+  return { state, loadFile };
+};
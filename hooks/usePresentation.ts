@@ -0,0 +1,140 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { NarrativeSection } from '../types';
+import {
+  PresentationMessage,
+  SlideAction,
+  SlidePosition,
+  advance,
+  fragmentCount,
+  openPresentationChannel,
+  presenterUrl,
+  slideActionFor,
+} from '../lib/presentation';
+
+// Audience side of presentation mode: owns the slide position, answers
+// the keyboard and clicker, and keeps any presenter window in sync.
+export const usePresentation = (sections: NarrativeSection[]) => {
+  const [presenting, setPresenting] = useState(false);
+  const [position, setPosition] = useState<SlidePosition>({ slide: 0, step: 0 });
+  const [blanked, setBlanked] = useState(false);
+  const channelRef = useRef<BroadcastChannel | null>(null);
+
+  const perform = useCallback((action: Exclude<SlideAction, 'exit'>) => {
+    if (action === 'blank') {
+      setBlanked(b => !b);
+      return;
+    }
+    setBlanked(false);
+    setPosition(pos => {
+      switch (action) {
+        case 'next':
+        case 'prev':
+          return advance(sections, pos, action === 'next' ? 1 : -1);
+        case 'first':
+          return { slide: 0, step: 0 };
+        case 'last':
+          return { slide: sections.length - 1, step: fragmentCount(sections[sections.length - 1]) };
+      }
+    });
+  }, [sections]);
+
+  const start = useCallback((slide = 0) => {
+    setPosition({ slide, step: 0 });
+    setBlanked(false);
+    setPresenting(true);
+    document.documentElement.requestFullscreen?.().catch(() => undefined);
+  }, []);
+
+  const stop = useCallback(() => {
+    setPresenting(false);
+    if (document.fullscreenElement) document.exitFullscreen().catch(() => undefined);
+  }, []);
+
+  const openPresenter = useCallback(() => {
+    window.open(presenterUrl(), 'presenter', 'popup,width=1100,height=720');
+  }, []);
+
+  useEffect(() => {
+    if (!presenting) return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      const action = slideActionFor(event);
+      if (!action) return;
+      event.preventDefault();
+      if (action === 'exit') stop();
+      else perform(action);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [presenting, perform, stop]);
+
+  useEffect(() => {
+    if (!presenting) return;
+    const channel = openPresentationChannel();
+    channelRef.current = channel;
+    if (!channel) return;
+    channel.onmessage = ({ data }: MessageEvent<PresentationMessage>) => {
+      if (data.type === 'navigate') perform(data.action);
+      if (data.type === 'goto') setPosition({ slide: Math.min(Math.max(0, data.slide), sections.length - 1), step: 0 });
+      if (data.type === 'sync-request') setPosition(pos => ({ ...pos })); // re-broadcast below
+    };
+    return () => {
+      channel.postMessage({ type: 'ended' } satisfies PresentationMessage);
+      channel.close();
+      channelRef.current = null;
+    };
+  }, [presenting, perform, sections.length]);
+
+  useEffect(() => {
+    if (!presenting) return;
+    channelRef.current?.postMessage({ type: 'state', position, blanked } satisfies PresentationMessage);
+  }, [presenting, position, blanked]);
+
+  return { presenting, position, blanked, start, stop, perform, openPresenter };
+};
+
+// Presenter side: mirrors the audience window and sends it commands
+export const usePresenterRemote = () => {
+  const [position, setPosition] = useState<SlidePosition | null>(null);
+  const [blanked, setBlanked] = useState(false);
+  const channelRef = useRef<BroadcastChannel | null>(null);
+
+  useEffect(() => {
+    const channel = openPresentationChannel();
+    channelRef.current = channel;
+    if (!channel) return;
+    channel.onmessage = ({ data }: MessageEvent<PresentationMessage>) => {
+      if (data.type === 'state') {
+        setPosition(data.position);
+        setBlanked(data.blanked);
+      }
+      if (data.type === 'ended') setPosition(null);
+    };
+    channel.postMessage({ type: 'sync-request' } satisfies PresentationMessage);
+    return () => {
+      channel.close();
+      channelRef.current = null;
+    };
+  }, []);
+
+  const send = useCallback((message: PresentationMessage) => channelRef.current?.postMessage(message), []);
+  const perform = useCallback((action: Exclude<SlideAction, 'exit'>) => send({ type: 'navigate', action }), [send]);
+  const goto = useCallback((slide: number) => send({ type: 'goto', slide }), [send]);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      const action = slideActionFor(event);
+      if (!action || action === 'exit') return;
+      event.preventDefault();
+      perform(action);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [perform]);
+
+  return { position, blanked, perform, goto, connected: position !== null, supported: typeof BroadcastChannel !== 'undefined' };
+};
@@ -0,0 +1,9 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useSyncExternalStore } from 'react';
+import { QualityState, getQuality, subscribeQuality } from '../lib/quality';
+
+export const useQuality = (): QualityState => useSyncExternalStore(subscribeQuality, getQuality, getQuality);
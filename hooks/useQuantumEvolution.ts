@@ -0,0 +1,35 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Matrix, Vector, matvec, unitaryFromHamiltonian } from '../lib/linalg';
+
+// Evolves |Ψ⟩ under a fixed Hamiltonian, one unitary step of `dt` per
+// animation frame. Changing the Hamiltonian or dt keeps the current state.
+export const useQuantumEvolution = (hamiltonian: Matrix, dt: number, initial: () => Vector, running = true) => {
+  const [psi, setPsi] = useState<Vector>(initial);
+  const psiRef = useRef(psi);
+  const unitary = useMemo(() => unitaryFromHamiltonian(hamiltonian, dt), [hamiltonian, dt]);
+  const [time, setTime] = useState(0);
+
+  useEffect(() => {
+    if (!running) return;
+    let frame = requestAnimationFrame(function tick() {
+      psiRef.current = matvec(unitary, psiRef.current);
+      setPsi(psiRef.current);
+      setTime(t => t + dt);
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [unitary, dt, running]);
+
+  const reset = useCallback((state: Vector = initial()) => {
+    psiRef.current = state;
+    setPsi(state);
+    setTime(0);
+  }, [initial]);
+
+  return { psi, time, unitary, reset };
+};
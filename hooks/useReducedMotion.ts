@@ -0,0 +1,13 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useSyncExternalStore } from 'react';
+import { MotionPreference, getMotionPreference, isMotionReduced, subscribeMotion } from '../lib/motion';
+
+export const useReducedMotion = (): boolean =>
+  useSyncExternalStore(subscribeMotion, isMotionReduced, isMotionReduced);
+
+export const useMotionPreference = (): MotionPreference =>
+  useSyncExternalStore(subscribeMotion, getMotionPreference, getMotionPreference);
@@ -0,0 +1,10 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useSyncExternalStore } from 'react';
+import { getTermUsages, subscribeTermUsages, TermUsage } from '../lib/glossary';
+
+export const useTermUsages = (): TermUsage[] =>
+  useSyncExternalStore(subscribeTermUsages, getTermUsages, getTermUsages);
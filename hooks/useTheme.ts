@@ -0,0 +1,9 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useSyncExternalStore } from 'react';
+import { Theme, getTheme, subscribeTheme } from '../lib/theme';
+
+export const useTheme = (): Theme => useSyncExternalStore(subscribeTheme, getTheme, getTheme);
@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { TourStep } from '../types';
+import { TourFrame, TourMode, buildTimeline, frameAt } from '../lib/tour';
+import { setParamValue } from '../lib/urlState';
+
+// Plays a tour script against the page: owns the clock, and applies each
+// frame's changes (section, parameters) through `onSection` and the
+// visualizations' parameter controls. Kiosk mode loops.
+export const useTour = (script: TourStep[] | undefined, onSection: (sectionId: string) => void) => {
+  const timeline = useMemo(() => buildTimeline(script ?? []), [script]);
+  const [mode, setMode] = useState<TourMode | 'manual' | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [time, setTime] = useState(0);
+  const timeRef = useRef(time);
+  timeRef.current = time;
+  const applied = useRef<TourFrame | null>(null);
+  const onSectionRef = useRef(onSection);
+  onSectionRef.current = onSection;
+
+  const active = mode !== null;
+  const frame = useMemo(() => frameAt(timeline, time), [timeline, time]);
+
+  // Only what changed since the last frame is pushed to the page
+  useEffect(() => {
+    if (!active) return;
+    const previous = applied.current;
+    if (frame.sectionId && frame.sectionId !== previous?.sectionId) onSectionRef.current(frame.sectionId);
+    Object.entries(frame.params).forEach(([key, value]) => {
+      if (previous?.params[key] !== value) setParamValue(key, value);
+    });
+    applied.current = frame;
+  }, [active, frame]);
+
+  useEffect(() => {
+    if (!playing) return;
+    let last = performance.now();
+    let handle = requestAnimationFrame(function tick(now) {
+      // A long stall (hidden tab) resumes where it stopped
+      const next = timeRef.current + Math.min(0.1, (now - last) / 1000);
+      last = now;
+      if (next < timeline.duration) {
+        timeRef.current = next;
+        setTime(next);
+      } else if (mode === 'kiosk') {
+        timeRef.current = 0;
+        setTime(0);
+      } else {
+        setTime(timeline.duration);
+        setPlaying(false);
+        return;
+      }
+      handle = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(handle);
+  }, [playing, timeline, mode]);
+
+  const start = useCallback((startMode: TourMode | 'manual' = 'manual') => {
+    applied.current = null;
+    setTime(0);
+    setMode(startMode);
+    setPlaying(true);
+  }, []);
+
+  const stop = useCallback(() => {
+    setMode(null);
+    setPlaying(false);
+  }, []);
+
+  const toggle = useCallback(() => {
+    // Playing from the end starts over
+    if (!playing && timeRef.current >= timeline.duration) setTime(0);
+    setPlaying(!playing);
+  }, [playing, timeline]);
+
+  const seek = useCallback((to: number) => {
+    setTime(Math.max(0, Math.min(timeline.duration, to)));
+  }, [timeline]);
+
+  return { available: timeline.steps.length > 0, active, mode, playing, time, timeline, caption: frame.caption, start, stop, toggle, seek };
+};
@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useEffect, useState } from 'react';
+import { ParamCodec, ParamSchema, paramKey, readParams, registerParamControl, subscribeParamRestore, writeParams } from '../lib/urlState';
+
+// useState backed by `prefix.field` query parameters: restored on mount
+// and when a saved snapshot is restored, written back on every change, and
+// settable by key through `setParamValue`. `schema` and `fallback` should
+// be stable.
+export const useUrlParams = <T extends object>(prefix: string, schema: ParamSchema<T>, fallback: T) => {
+  const [value, setValue] = useState<T>(() => readParams(prefix, schema, fallback));
+
+  useEffect(
+    () => subscribeParamRestore(() => setValue(readParams(prefix, schema, fallback))),
+    [prefix, schema, fallback]
+  );
+
+  useEffect(() => {
+    const fields = Object.keys(schema) as (keyof T & string)[];
+    const unregister = fields.map(field => registerParamControl(paramKey(prefix, field), raw => {
+      const parsed = schema[field].parse(raw);
+      if (parsed !== undefined) setValue(current => ({ ...current, [field]: parsed }));
+    }));
+    return () => unregister.forEach(fn => fn());
+  }, [prefix, schema]);
+
+  useEffect(() => {
+    writeParams(prefix, schema, value, fallback);
+  }, [prefix, schema, value, fallback]);
+
+  return [value, setValue] as const;
+};
+
+// Single-value form, stored under the bare `key`
+export const useUrlParam = <T,>(key: string, codec: ParamCodec<T>, fallback: T) => {
+  const [state, setState] = useState<T>(() => readParams('', { [key]: codec }, { [key]: fallback })[key]);
+
+  useEffect(
+    () => subscribeParamRestore(() => setState(readParams('', { [key]: codec }, { [key]: fallback })[key])),
+    [key, codec, fallback]
+  );
+
+  useEffect(() => registerParamControl(key, raw => {
+    const parsed = codec.parse(raw);
+    if (parsed !== undefined) setState(() => parsed);
+  }), [key, codec]);
+
+  useEffect(() => {
+    writeParams('', { [key]: codec }, { [key]: state }, { [key]: fallback });
+  }, [key, codec, state, fallback]);
+
+  return [state, setState] as const;
+};
@@ -0,0 +1,308 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { VizId } from '../types';
+
+// Reader annotations: highlights of section text and notes pinned to a
+// visualization's parameters, with replies forming a thread. They are kept
+// per paper in IndexedDB and travel between reviewers as JSON files.
+
+// A passage, found again by its text and a little context on either side
+export interface TextQuote {
+  exact: string;
+  prefix: string;
+  suffix: string;
+}
+
+// The query parameters a visualization had when the note was pinned
+export interface VizState {
+  viz: VizId;
+  params: Record<string, string>;
+}
+
+export interface Annotation {
+  id: string;
+  paper: string; // manifest URL
+  sectionId: string;
+  parentId?: string; // set on replies
+  quote?: TextQuote;
+  vizState?: VizState;
+  body: string;
+  author: string;
+  createdAt: string; // ISO 8601
+}
+
+export interface AnnotationThread {
+  root: Annotation;
+  replies: Annotation[];
+}
+
+export interface AnnotationExport {
+  format: 'or-annotations';
+  version: 1;
+  paper: string;
+  annotations: Annotation[];
+}
+
+export class AnnotationImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AnnotationImportError';
+  }
+}
+
+const DB_NAME = 'or-annotations';
+const STORE = 'annotations';
+const AUTHOR_KEY = 'annotation-author';
+const CONTEXT_LENGTH = 32;
+
+// --- STORAGE ---
+
+const request = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+let database: Promise<IDBDatabase | null> | null = null;
+
+// Without IndexedDB (some private modes) annotations last the session
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  database ??= new Promise<IDBDatabase | null>(resolve => {
+    try {
+      const open = indexedDB.open(DB_NAME, 1);
+      open.onupgradeneeded = () => {
+        open.result.createObjectStore(STORE, { keyPath: 'id' }).createIndex('paper', 'paper');
+      };
+      open.onsuccess = () => resolve(open.result);
+      open.onerror = () => resolve(null);
+    } catch {
+      resolve(null);
+    }
+  });
+  return database;
+};
+
+const writeAll = async (annotations: Annotation[]) => {
+  const db = await openDatabase();
+  if (!db) return;
+  const store = db.transaction(STORE, 'readwrite').objectStore(STORE);
+  await Promise.all(annotations.map(annotation => request(store.put(annotation))));
+};
+
+const deleteAll = async (ids: string[]) => {
+  const db = await openDatabase();
+  if (!db) return;
+  const store = db.transaction(STORE, 'readwrite').objectStore(STORE);
+  await Promise.all(ids.map(id => request(store.delete(id))));
+};
+
+// --- STORE ---
+
+let paper: string | null = null;
+let annotations: Annotation[] = [];
+const listeners = new Set<() => void>();
+
+const emit = (next: Annotation[]) => {
+  annotations = next;
+  listeners.forEach(listener => listener());
+};
+
+const byDate = (a: Annotation, b: Annotation) => a.createdAt.localeCompare(b.createdAt);
+
+// Switches the store to `paperUrl`'s annotations
+export const loadAnnotations = async (paperUrl: string) => {
+  paper = paperUrl;
+  emit([]);
+  const db = await openDatabase();
+  if (!db) return;
+  const stored = await request(db.transaction(STORE).objectStore(STORE).index('paper').getAll(paperUrl)) as Annotation[];
+  if (paper === paperUrl) emit(stored.sort(byDate));
+};
+
+export const getAnnotations = (): Annotation[] => annotations;
+
+export const subscribeAnnotations = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const addAnnotation = async (fields: Omit<Annotation, 'id' | 'paper' | 'createdAt'>): Promise<Annotation> => {
+  if (!paper) throw new Error('No paper is loaded');
+  const annotation: Annotation = { ...fields, id: crypto.randomUUID(), paper, createdAt: new Date().toISOString() };
+  emit([...annotations, annotation]);
+  await writeAll([annotation]);
+  return annotation;
+};
+
+// Deleting a thread's first annotation deletes its replies
+export const deleteAnnotation = async (id: string) => {
+  const removed = annotations.filter(annotation => annotation.id === id || annotation.parentId === id).map(annotation => annotation.id);
+  emit(annotations.filter(annotation => !removed.includes(annotation.id)));
+  await deleteAll(removed);
+};
+
+export const threadsOf = (list: Annotation[]): AnnotationThread[] =>
+  list
+    .filter(annotation => !annotation.parentId)
+    .map(root => ({ root, replies: list.filter(annotation => annotation.parentId === root.id) }));
+
+// --- EXCHANGE ---
+
+export const exportAnnotations = (): AnnotationExport => ({
+  format: 'or-annotations',
+  version: 1,
+  paper: paper ?? '',
+  annotations,
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringRecord = (value: unknown): value is Record<string, string> =>
+  isRecord(value) && Object.values(value).every(v => typeof v === 'string');
+
+const isAnnotation = (value: unknown): value is Annotation => {
+  if (!isRecord(value)) return false;
+  const { id, sectionId, parentId, quote, vizState, body, author, createdAt } = value;
+  return typeof id === 'string'
+    && typeof sectionId === 'string'
+    && (parentId === undefined || typeof parentId === 'string')
+    && (quote === undefined || (isStringRecord(quote) && typeof quote.exact === 'string'))
+    && (vizState === undefined || (isRecord(vizState) && typeof vizState.viz === 'string' && isStringRecord(vizState.params)))
+    && typeof body === 'string'
+    && typeof author === 'string'
+    && typeof createdAt === 'string';
+};
+
+// Merges an export into the current paper's annotations; entries already
+// present (same id) are kept as they are. Returns how many were added.
+export const importAnnotations = async (text: string): Promise<number> => {
+  if (!paper) throw new Error('No paper is loaded');
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (err) {
+    throw new AnnotationImportError(`Not valid JSON: ${(err as Error).message}`);
+  }
+  if (!isRecord(data) || data.format !== 'or-annotations' || !Array.isArray(data.annotations)) {
+    throw new AnnotationImportError('Not an annotation export.');
+  }
+  const invalid = data.annotations.filter(entry => !isAnnotation(entry)).length;
+  if (invalid > 0) {
+    throw new AnnotationImportError(`${invalid} annotation${invalid === 1 ? ' is' : 's are'} malformed.`);
+  }
+  const known = new Set(annotations.map(annotation => annotation.id));
+  const added = (data.annotations as Annotation[])
+    .filter(annotation => !known.has(annotation.id))
+    .map(annotation => ({ ...annotation, paper: paper as string }));
+  emit([...annotations, ...added].sort(byDate));
+  await writeAll(added);
+  return added.length;
+};
+
+// --- AUTHOR ---
+
+export const getAuthor = (): string => {
+  try {
+    return localStorage.getItem(AUTHOR_KEY) ?? '';
+  } catch {
+    return '';
+  }
+};
+
+export const setAuthor = (name: string) => {
+  try {
+    localStorage.setItem(AUTHOR_KEY, name);
+  } catch {
+    // Storage can be unavailable (private mode)
+  }
+};
+
+// --- TEXT ANCHORING ---
+
+// Text nodes under `root` with their offsets into its text content
+const textNodes = (root: Node): { node: Text; start: number }[] => {
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  const nodes: { node: Text; start: number }[] = [];
+  let offset = 0;
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    nodes.push({ node: node as Text, start: offset });
+    offset += (node as Text).data.length;
+  }
+  return nodes;
+};
+
+const offsetOf = (root: Node, container: Node, offset: number): number => {
+  const range = document.createRange();
+  range.selectNodeContents(root);
+  range.setEnd(container, offset);
+  return range.toString().length;
+};
+
+export const quoteFromRange = (root: Node, range: Range): TextQuote => {
+  const text = root.textContent ?? '';
+  const start = offsetOf(root, range.startContainer, range.startOffset);
+  const end = offsetOf(root, range.endContainer, range.endOffset);
+  return {
+    exact: text.slice(start, end),
+    prefix: text.slice(Math.max(0, start - CONTEXT_LENGTH), start),
+    suffix: text.slice(end, end + CONTEXT_LENGTH),
+  };
+};
+
+// Where the passage occurs more than once, the occurrence whose context
+// matches best wins. Null once the text has been edited away.
+export const rangeFromQuote = (root: Node, quote: TextQuote): Range | null => {
+  const text = root.textContent ?? '';
+  let best = -1;
+  let bestScore = -1;
+  for (let at = text.indexOf(quote.exact); at !== -1; at = text.indexOf(quote.exact, at + 1)) {
+    const score = (text.slice(0, at).endsWith(quote.prefix) ? 1 : 0) + (text.slice(at + quote.exact.length).startsWith(quote.suffix) ? 1 : 0);
+    if (score > bestScore) {
+      best = at;
+      bestScore = score;
+    }
+  }
+  if (best === -1 || quote.exact === '') return null;
+
+  const nodes = textNodes(root);
+  const locate = (offset: number, atEnd: boolean) => {
+    const found = nodes.find(({ node, start }) => (atEnd ? offset <= start + node.data.length : offset < start + node.data.length));
+    return found ? { node: found.node, offset: offset - found.start } : null;
+  };
+  const start = locate(best, false);
+  const end = locate(best + quote.exact.length, true);
+  if (!start || !end) return null;
+  const range = document.createRange();
+  range.setStart(start.node, start.offset);
+  range.setEnd(end.node, end.offset);
+  return range;
+};
+
+// Paints every quote through the CSS Custom Highlight API, which leaves
+// React's DOM alone. Returns the ids whose text could not be found.
+export const paintHighlights = (list: Annotation[], activeId: string | null): Set<string> => {
+  const missing = new Set<string>();
+  if (typeof CSS === 'undefined' || !('highlights' in CSS)) return missing;
+  const all = new Highlight();
+  const active = new Highlight();
+  list.forEach(annotation => {
+    if (!annotation.quote) return;
+    const section = document.getElementById(annotation.sectionId);
+    const range = section ? rangeFromQuote(section, annotation.quote) : null;
+    if (!range) missing.add(annotation.id);
+    else (annotation.id === activeId ? active : all).add(range);
+  });
+  CSS.highlights.set('annotation', all);
+  CSS.highlights.set('annotation-active', active);
+  return missing;
+};
+
+export const clearHighlights = () => {
+  if (typeof CSS === 'undefined' || !('highlights' in CSS)) return;
+  CSS.highlights.delete('annotation');
+  CSS.highlights.delete('annotation-active');
+};
@@ -0,0 +1,288 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Reference } from '../types';
+
+// A small BibTeX reader for bundled bibliographies: `@string` macros, `#`
+// concatenation, braced or quoted values, `%` comments and the common
+// LaTeX accent commands. Entries become manifest References keyed by their
+// citation key.
+
+export interface BibtexEntry {
+  type: string; // lower-case, e.g. "article"
+  key: string;
+  fields: Record<string, string>; // lower-case names, LaTeX left in place
+}
+
+export class BibtexError extends Error {
+  constructor(message: string, public readonly line: number) {
+    super(`line ${line}: ${message}`);
+    this.name = 'BibtexError';
+  }
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// --- PARSING ---
+
+export const parseBibtexEntries = (text: string): BibtexEntry[] => {
+  const macros: Record<string, string> = Object.fromEntries(MONTHS.map((m, i) => [m, String(i + 1)]));
+  const entries: BibtexEntry[] = [];
+  let pos = 0;
+
+  const lineAt = (index: number) => text.slice(0, index).split('\n').length;
+  const fail = (message: string): never => { throw new BibtexError(message, lineAt(pos)); };
+
+  const skipSpace = () => {
+    while (pos < text.length) {
+      if (/\s/.test(text[pos])) pos++;
+      else if (text[pos] === '%') while (pos < text.length && text[pos] !== '\n') pos++;
+      else break;
+    }
+  };
+
+  const readName = (): string => {
+    const match = /^[^\s,={}()"#%]+/.exec(text.slice(pos));
+    if (!match) fail('expected a name');
+    pos += match![0].length;
+    return match![0];
+  };
+
+  // Content of a `{...}` group, inner braces kept
+  const readBraced = (): string => {
+    const start = ++pos;
+    let depth = 1;
+    while (pos < text.length) {
+      const ch = text[pos++];
+      if (ch === '\\') pos++;
+      else if (ch === '{') depth++;
+      else if (ch === '}' && --depth === 0) return text.slice(start, pos - 1);
+    }
+    return fail('unbalanced braces');
+  };
+
+  const readQuoted = (): string => {
+    const start = ++pos;
+    let depth = 0;
+    while (pos < text.length) {
+      const ch = text[pos++];
+      if (ch === '\\') pos++;
+      else if (ch === '{') depth++;
+      else if (ch === '}') depth--;
+      else if (ch === '"' && depth === 0) return text.slice(start, pos - 1);
+    }
+    return fail('unterminated string');
+  };
+
+  // value ::= part ('#' part)*
+  const readValue = (): string => {
+    let value = '';
+    for (;;) {
+      skipSpace();
+      if (text[pos] === '{') value += readBraced();
+      else if (text[pos] === '"') value += readQuoted();
+      else {
+        const name = readName();
+        if (/^\d+$/.test(name)) value += name;
+        else if (name.toLowerCase() in macros) value += macros[name.toLowerCase()];
+        else fail(`undefined string "${name}"`);
+      }
+      skipSpace();
+      if (text[pos] !== '#') return value;
+      pos++;
+    }
+  };
+
+  const readFields = (close: string): Record<string, string> => {
+    const fields: Record<string, string> = {};
+    for (;;) {
+      skipSpace();
+      if (text[pos] === close) { pos++; return fields; }
+      const name = readName().toLowerCase();
+      skipSpace();
+      if (text[pos] !== '=') fail(`expected "=" after ${name}`);
+      pos++;
+      fields[name] = readValue();
+      skipSpace();
+      if (text[pos] === ',') pos++;
+      else if (text[pos] !== close) fail(`expected "," or "${close}" after ${name}`);
+    }
+  };
+
+  for (;;) {
+    // Anything outside an entry is a comment, including an "@" that does
+    // not open one
+    const at = text.indexOf('@', pos);
+    if (at < 0) return entries;
+    pos = at + 1;
+    const header = /^([a-zA-Z]+)\s*([{(])/.exec(text.slice(pos));
+    if (!header) continue;
+    const type = header[1].toLowerCase();
+    const open = header[2];
+    pos += header[0].length - 1;
+    const close = open === '{' ? '}' : ')';
+
+    if (type === 'comment') {
+      if (open === '{') readBraced(); else pos = text.indexOf(')', pos) + 1 || text.length;
+      continue;
+    }
+    pos++;
+    if (type === 'preamble') {
+      readValue();
+      skipSpace();
+      pos++;
+      continue;
+    }
+    if (type === 'string') {
+      Object.entries(readFields(close)).forEach(([name, value]) => { macros[name] = value; });
+      continue;
+    }
+
+    skipSpace();
+    const key = readName();
+    skipSpace();
+    if (text[pos] === ',') pos++;
+    entries.push({ type, key, fields: readFields(close) });
+  }
+};
+
+// --- LATEX TO TEXT ---
+
+// Accent commands as Unicode combining marks
+const ACCENTS: Record<string, string> = {
+  "'": '\u0301', '`': '\u0300', '^': '\u0302', '"': '\u0308', '~': '\u0303', '=': '\u0304', '.': '\u0307',
+  u: '\u0306', v: '\u030c', H: '\u030b', c: '\u0327', k: '\u0328', r: '\u030a',
+};
+
+const SYMBOLS: Record<string, string> = {
+  ss: 'ß', o: 'ø', O: 'Ø', aa: 'å', AA: 'Å', ae: 'æ', AE: 'Æ', oe: 'œ', OE: 'Œ', l: 'ł', L: 'Ł', i: 'ı', j: 'ȷ',
+};
+
+// Plain text from a field value. Math (`$...$`) is kept for MathText.
+export const latexToText = (value: string): string => {
+  const parts = value.split(/(\$[^$]*\$)/);
+  return parts.map((part, i) => {
+    if (i % 2 === 1) return part;
+    return part
+      .replace(/\\([`'^"~=.])\s*\{?\\?([a-zA-Z])\}?/g, (_, accent, letter) => letter + ACCENTS[accent])
+      .replace(/\\([uvHckr])\s*\{\\?([a-zA-Z])\}|\\([uvHckr]) ([a-zA-Z])/g, (_, a1, l1, a2, l2) => (l1 ?? l2) + ACCENTS[a1 ?? a2])
+      .replace(/\\(ss|aa|AA|ae|AE|oe|OE|[oOlLij])(?:\{\}|(?![a-zA-Z])\s*)/g, (_, name) => SYMBOLS[name])
+      .replace(/\\([&%$#_{}])/g, '$1')
+      .replace(/---/g, '—')
+      .replace(/--/g, '–')
+      .replace(/~/g, ' ')
+      .replace(/\\[a-zA-Z]+\s*/g, '')
+      .replace(/[{}]/g, '')
+      .replace(/\s+/g, ' ');
+  }).join('').trim().normalize('NFC');
+};
+
+// --- NAMES ---
+
+// Split on "and" outside braces
+const splitNames = (value: string): string[] => {
+  const names: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '{') depth++;
+    else if (value[i] === '}') depth--;
+    else if (depth === 0 && /^\s+and\s+/i.test(value.slice(i)) && /\s/.test(value[i])) {
+      names.push(value.slice(start, i));
+      i += /^\s+and\s+/i.exec(value.slice(i))![0].length - 1;
+      start = i + 1;
+    }
+  }
+  names.push(value.slice(start));
+  return names.map(name => name.trim()).filter(Boolean);
+};
+
+// Words split on spaces outside braces, so "{van der Waals}" stays whole
+const splitWords = (name: string): string[] => {
+  const words: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const ch of name) {
+    if (ch === '{') depth++;
+    if (ch === '}') depth--;
+    if (/\s/.test(ch) && depth === 0) {
+      if (current) words.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  if (current) words.push(current);
+  return words;
+};
+
+const initials = (given: string): string =>
+  splitWords(given)
+    .map(word => word.split('-').map(part => `${latexToText(part).charAt(0)}.`).join('-'))
+    .join(' ');
+
+// "Last, First", "von Last, Jr, First" or "First von Last" → "von Last, F."
+export const formatAuthor = (name: string): string => {
+  const parts = name.split(',').map(part => part.trim());
+  let family: string;
+  let given: string;
+  if (parts.length > 1) {
+    family = parts[0];
+    given = parts[parts.length - 1];
+  } else {
+    const words = splitWords(name);
+    // Family name starts at the first lower-case ("von") word, else it is the last word
+    const von = words.findIndex((word, i) => i < words.length - 1 && /^[a-z]/.test(word));
+    const split = von > 0 ? von : words.length - 1;
+    family = words.slice(split).join(' ');
+    given = words.slice(0, split).join(' ');
+  }
+  const familyText = latexToText(family);
+  return given ? `${familyText}, ${initials(given)}` : familyText;
+};
+
+// --- REFERENCES ---
+
+export const entryToReference = (entry: BibtexEntry): Reference => {
+  const { fields } = entry;
+  const people = fields.author ?? fields.editor;
+  const missing = ['title', 'year'].filter(name => !fields[name]);
+  if (!people) missing.unshift('author');
+  if (missing.length > 0) {
+    throw new Error(`@${entry.type}{${entry.key}} is missing ${missing.join(', ')}`);
+  }
+  const year = parseInt(fields.year, 10);
+  if (!Number.isInteger(year)) throw new Error(`@${entry.type}{${entry.key}} has a non-numeric year`);
+
+  const optional = (name: string) => (fields[name] ? latexToText(fields[name]) : undefined);
+  const ref: Reference = {
+    id: entry.key,
+    authors: splitNames(people).map(formatAuthor),
+    year,
+    title: latexToText(fields.title),
+    journal: optional('journal') ?? optional('booktitle') ?? optional('publisher'),
+    volume: optional('volume'),
+    issue: optional('number'),
+    pages: optional('pages'),
+    doi: fields.doi?.trim(),
+    url: fields.url?.trim(),
+  };
+  // Drop absent optional fields so references round-trip like manifest JSON
+  return Object.fromEntries(Object.entries(ref).filter(([, value]) => value !== undefined)) as unknown as Reference;
+};
+
+export const parseBibtex = (text: string): Reference[] => parseBibtexEntries(text).map(entryToReference);
+
+// --- WRITING ---
+
+// URLs and DOIs are verbatim in BibTeX
+const VERBATIM = ['url', 'doi'];
+const escapeValue = (name: string, value: string) => (VERBATIM.includes(name) ? value : value.replace(/([&%#_])/g, '\\$1'));
+
+export const formatBibtex = ({ type, key, fields }: BibtexEntry): string => {
+  const width = Math.max(...Object.keys(fields).map(name => name.length));
+  const lines = Object.entries(fields).map(([name, value]) => `  ${name.padEnd(width)} = {${escapeValue(name, value)}}`);
+  return `@${type}{${key},\n${lines.join(',\n')}\n}`;
+};
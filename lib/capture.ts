@@ -0,0 +1,138 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { canvasToDataUrl } from './snapshot';
+
+// Figure capture: 3D scenes rendered offscreen-size to PNG or animation,
+// and DOM/SVG diagram cards exported as standalone SVG.
+
+export interface RecordOptions {
+  width: number;
+  height: number;
+  duration: number; // s
+  fps: number;
+  format: 'webm' | 'png-sequence';
+  onProgress?: (fraction: number) => void;
+}
+
+export interface SceneCaptureTarget {
+  id: string;
+  label: string;
+  maxSize: number; // largest drawing buffer side the GPU allows
+  capturePng: (width: number, height: number) => Promise<Blob>;
+  record: (options: RecordOptions) => Promise<Blob>;
+}
+
+// --- SCENE REGISTRY ---
+// Canvases register a target while mounted, like glossary term usages.
+
+let targets: SceneCaptureTarget[] = [];
+const listeners = new Set<() => void>();
+
+const emit = () => listeners.forEach(listener => listener());
+
+export const registerCaptureTarget = (target: SceneCaptureTarget) => {
+  targets = [...targets.filter(t => t.id !== target.id), target];
+  emit();
+  return () => {
+    targets = targets.filter(t => t !== target);
+    emit();
+  };
+};
+
+export const subscribeCaptureTargets = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const getCaptureTargets = () => targets;
+
+// --- FILES ---
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, type = 'image/png'): Promise<Blob> =>
+  new Promise((resolve, reject) =>
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Canvas could not be encoded.'))), type)
+  );
+
+export const webmMimeType = (): string | undefined =>
+  typeof MediaRecorder === 'undefined'
+    ? undefined
+    : ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'].find(type => MediaRecorder.isTypeSupported(type));
+
+// --- DOM → SVG ---
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// Computed style of a bare element of each tag, so only the differences
+// need to be written inline
+const defaultStyles = new Map<string, Map<string, string>>();
+
+const defaultStyleFor = (element: Element): Map<string, string> => {
+  const key = `${element.namespaceURI}:${element.tagName}`;
+  let styles = defaultStyles.get(key);
+  if (!styles) {
+    const sandbox = document.createElement('div');
+    sandbox.style.cssText = 'position:absolute;visibility:hidden;pointer-events:none';
+    const probe = document.createElementNS(element.namespaceURI ?? SVG_NS, element.tagName);
+    sandbox.appendChild(probe);
+    document.body.appendChild(sandbox);
+    const computed = getComputedStyle(probe);
+    styles = new Map(Array.from(computed, name => [name, computed.getPropertyValue(name)]));
+    sandbox.remove();
+    defaultStyles.set(key, styles);
+  }
+  return styles;
+};
+
+// The exported SVG has no access to the page's stylesheets
+const inlineStyles = (source: Element, target: Element) => {
+  const computed = getComputedStyle(source);
+  const defaults = defaultStyleFor(source);
+  const declarations: string[] = [];
+  for (const name of Array.from(computed)) {
+    const value = computed.getPropertyValue(name);
+    if (defaults.get(name) !== value) declarations.push(`${name}:${value}`);
+  }
+  target.setAttribute('style', declarations.join(';'));
+  target.removeAttribute('class');
+  Array.from(source.children).forEach((child, i) => inlineStyles(child, target.children[i]));
+};
+
+export const elementToSvg = (element: Element): string => {
+  const { width, height } = element.getBoundingClientRect();
+  const clone = element.cloneNode(true) as Element;
+  inlineStyles(element, clone);
+
+  const canvases = element.querySelectorAll('canvas');
+  clone.querySelectorAll('canvas').forEach((canvas, i) => {
+    const img = document.createElement('img');
+    img.setAttribute('src', canvasToDataUrl(canvases[i]));
+    img.setAttribute('style', canvas.getAttribute('style') ?? '');
+    canvas.replaceWith(img);
+  });
+
+  const serializer = new XMLSerializer();
+  if (element instanceof SVGSVGElement) {
+    clone.setAttribute('xmlns', SVG_NS);
+    clone.setAttribute('width', String(Math.round(width)));
+    clone.setAttribute('height', String(Math.round(height)));
+    return serializer.serializeToString(clone);
+  }
+  return [
+    `<svg xmlns="${SVG_NS}" width="${Math.ceil(width)}" height="${Math.ceil(height)}" viewBox="0 0 ${Math.ceil(width)} ${Math.ceil(height)}">`,
+    `<foreignObject x="0" y="0" width="100%" height="100%">`,
+    serializer.serializeToString(clone),
+    `</foreignObject></svg>`,
+  ].join('');
+};
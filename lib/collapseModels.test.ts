@@ -0,0 +1,41 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { COLLAPSE_MODELS, CollapseModel, TrialSet, trialSteps } from './collapseModels';
+import { DEFAULT_COLLAPSE_PARAMS } from './diosiPenrose';
+import { createRng } from './random';
+
+const run = (model: CollapseModel, seed: number): TrialSet => {
+  const steps = trialSteps({ model, params: DEFAULT_COLLAPSE_PARAMS, weight: 0.3, trials: 200, seed });
+  for (;;) {
+    const step = steps.next();
+    if (step.done) return step.value;
+  }
+};
+
+describe('createRng', () => {
+  it('replays the same uniform sequence from a seed', () => {
+    const a = createRng(42);
+    const b = createRng(42);
+    const draws = Array.from({ length: 100 }, () => a());
+    expect(Array.from({ length: 100 }, () => b())).toEqual(draws);
+    draws.forEach(x => {
+      expect(x).toBeGreaterThanOrEqual(0);
+      expect(x).toBeLessThan(1);
+    });
+  });
+});
+
+describe('trialSteps', () => {
+  it.each(COLLAPSE_MODELS.map(({ id }) => id))('reproduces %s runs from a fixed seed', model => {
+    const first = run(model, 7);
+    const second = run(model, 7);
+    expect(second.times).toEqual(first.times);
+    expect(second.outcomes).toEqual(first.outcomes);
+    expect(second.counts).toEqual(first.counts);
+    expect(run(model, 8).times).not.toEqual(first.times);
+  });
+});
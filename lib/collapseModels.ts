@@ -0,0 +1,139 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ATOMIC_MASS_UNIT } from './constants';
+import { CollapseParams, computeCollapse } from './diosiPenrose';
+import { createRng, exponential, gaussian } from './random';
+
+// Monte Carlo trials of a two-branch superposition c₀|L⟩ + c₁|R⟩ of a body
+// displaced by d, reduced by one of three objective-collapse models:
+//   Penrose OR — a single decay at rate E_G/ℏ;
+//   GRW        — spontaneous localizations at rate λ per nucleon;
+//   CSL        — continuous noise driving the branch weight to 0 or 1.
+// All three reproduce the Born rule on average; they differ in timescale
+// and, for CSL, in the shape of the waiting-time distribution.
+
+export type CollapseModel = 'penrose-or' | 'grw' | 'csl';
+
+export const COLLAPSE_MODELS: { id: CollapseModel; label: string }[] = [
+  { id: 'penrose-or', label: 'PENROSE OR' },
+  { id: 'grw', label: 'GRW' },
+  { id: 'csl', label: 'CSL' },
+];
+
+export const GRW_RATE = 1e-16;            // s⁻¹ per nucleon
+export const CSL_RATE = 1e-16;            // s⁻¹, λ_CSL
+export const LOCALIZATION_LENGTH = 1e-7;  // m, r_C
+
+// Displacements below r_C are only partly resolved by a localization
+const resolution = (separation: number) => 1 - Math.exp(-(separation ** 2) / (4 * LOCALIZATION_LENGTH ** 2));
+
+// Characteristic collapse rate in s⁻¹; the mean waiting time for OR and GRW
+export const collapseRate = (model: CollapseModel, params: CollapseParams): number => {
+  const nucleons = params.mass / ATOMIC_MASS_UNIT;
+  switch (model) {
+    case 'penrose-or':
+      return 1 / computeCollapse(params).tau;
+    case 'grw':
+      return GRW_RATE * nucleons * resolution(params.separation);
+    case 'csl': {
+      // Nucleons within one r_C of each other add coherently; the body is
+      // treated as uniform, so that cluster is N (r_C/R)³ capped at N.
+      const cluster = Math.min(nucleons, nucleons * (LOCALIZATION_LENGTH / params.radius) ** 3);
+      return CSL_RATE * nucleons * Math.max(1, cluster) * resolution(params.separation);
+    }
+  }
+};
+
+export interface TrialSet {
+  model: CollapseModel;
+  seed: number;
+  rate: number;          // s⁻¹
+  weight: number;        // Born probability |c₀|² of branch L
+  times: Float64Array;   // s
+  outcomes: Uint8Array;  // 0 = L, 1 = R
+  counts: [number, number];
+}
+
+const CSL_STEP = 0.005;  // in units of 1/Γ
+const CSL_CUTOFF = 7;    // |log-odds| at which a branch counts as gone
+
+// CSL in rescaled time s = Γt. The L weight p is a martingale,
+// dp = 2p(1 − p) dW; in log-odds y = ln(p/(1 − p)) this is
+// dy = 2 dW + 2(2p − 1) ds, which stays stable near the boundaries.
+const cslTrial = (rng: () => number, weight: number): { s: number; outcome: 0 | 1 } => {
+  let y = Math.log(weight / (1 - weight));
+  let s = 0;
+  const sqrtStep = Math.sqrt(CSL_STEP);
+  while (Math.abs(y) < CSL_CUTOFF) {
+    const p = 1 / (1 + Math.exp(-y));
+    y += 2 * sqrtStep * gaussian(rng) + 2 * (2 * p - 1) * CSL_STEP;
+    s += CSL_STEP;
+  }
+  return { s, outcome: y > 0 ? 0 : 1 };
+};
+
+export interface TrialInput {
+  model: CollapseModel;
+  params: CollapseParams;
+  weight: number;
+  trials: number;
+  seed: number;
+}
+
+const TRIAL_CHUNK = 500;
+
+// Runs the trials, yielding the fraction done every TRIAL_CHUNK trials so
+// the caller can report progress or stop between chunks
+export function* trialSteps({ model, params, weight, trials, seed }: TrialInput): Generator<number, TrialSet> {
+  const rng = createRng(seed);
+  const rate = collapseRate(model, params);
+  const times = new Float64Array(trials);
+  const outcomes = new Uint8Array(trials);
+  const counts: [number, number] = [0, 0];
+  const p = Math.min(1 - 1e-9, Math.max(1e-9, weight));
+
+  for (let i = 0; i < trials; i++) {
+    if (model === 'csl') {
+      const { s, outcome } = cslTrial(rng, p);
+      times[i] = s / rate;
+      outcomes[i] = outcome;
+    } else {
+      // OR and GRW pick the surviving branch with Born weights at the
+      // moment of reduction
+      times[i] = exponential(rng, rate);
+      outcomes[i] = rng() < p ? 0 : 1;
+    }
+    counts[outcomes[i]]++;
+    if ((i + 1) % TRIAL_CHUNK === 0) yield (i + 1) / trials;
+  }
+  return { model, seed, rate, weight: p, times, outcomes, counts };
+}
+
+export interface HistogramBin {
+  start: number;    // s
+  end: number;      // s
+  count: number;
+  expected: number; // trials × ∫ rate e^{−rate t} over the bin
+}
+
+// Bins over [0, span/rate]; later arrivals fall in the last, open-ended
+// bin. `rate` defaults to the model's own; CSL is not exponential, so it is
+// compared against the exponential with its sample mean instead.
+export const collapseHistogram = ({ times, rate: modelRate }: TrialSet, bins = 30, span = 5, rate = modelRate): HistogramBin[] => {
+  const width = span / rate / bins;
+  const result = Array.from({ length: bins }, (_, i) => {
+    const start = i * width;
+    const end = (i + 1) * width;
+    const tail = i === bins - 1 ? 0 : Math.exp(-rate * end);
+    return { start, end, count: 0, expected: times.length * (Math.exp(-rate * start) - tail) };
+  });
+  times.forEach(t => {
+    result[Math.min(bins - 1, Math.floor(t / width))].count++;
+  });
+  return result;
+};
+
+export const meanTime = ({ times }: TrialSet): number => times.reduce((sum, t) => sum + t, 0) / times.length;
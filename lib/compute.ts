@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { JobCancelledError, JobInput, JobKind, JobOutput, WorkerRequest, WorkerResponse, jobSteps, runSliced } from './computeJobs';
+
+// Main-thread client of the compute worker. The worker starts on the first
+// job; where workers are unavailable, or the worker fails to load, jobs run
+// time-sliced on the main thread instead.
+
+export interface JobOptions {
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+interface PendingJob {
+  kind: JobKind;
+  input: unknown;
+  options: JobOptions;
+  resolve: (output: unknown) => void;
+  reject: (reason: unknown) => void;
+}
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextId = 1;
+const pending = new Map<number, PendingJob>();
+
+const runOnMainThread = ({ kind, input, options, resolve, reject }: PendingJob) => {
+  runSliced(jobSteps(kind, input as never), {
+    onProgress: options.onProgress,
+    isCancelled: () => options.signal?.aborted ?? false,
+  }).then(resolve, reject);
+};
+
+const handleMessage = ({ data }: MessageEvent<WorkerResponse>) => {
+  const job = pending.get(data.id);
+  if (!job) return;
+  if (data.type === 'progress') {
+    job.options.onProgress?.(data.progress);
+    return;
+  }
+  pending.delete(data.id);
+  if (data.type === 'result') job.resolve(data.output);
+  else if (data.type === 'cancelled') job.reject(new JobCancelledError());
+  else job.reject(new Error(data.message));
+};
+
+// A worker that cannot load hands its jobs back to the main thread
+const handleFailure = () => {
+  worker?.terminate();
+  worker = null;
+  workerFailed = true;
+  const jobs = [...pending.values()];
+  pending.clear();
+  jobs.forEach(runOnMainThread);
+};
+
+const getWorker = (): Worker | null => {
+  if (worker || workerFailed) return worker;
+  if (typeof Worker === 'undefined') {
+    workerFailed = true;
+    return null;
+  }
+  try {
+    worker = new Worker(new URL('./compute.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = handleMessage;
+    worker.onerror = handleFailure;
+  } catch {
+    workerFailed = true;
+  }
+  return worker;
+};
+
+// Rejects with JobCancelledError once `signal` aborts
+export const runJob = <K extends JobKind>(kind: K, input: JobInput<K>, options: JobOptions = {}): Promise<JobOutput<K>> =>
+  new Promise((resolve, reject) => {
+    if (options.signal?.aborted) return reject(new JobCancelledError());
+    const job: PendingJob = { kind, input, options, resolve: resolve as (output: unknown) => void, reject };
+    const target = getWorker();
+    if (!target) return runOnMainThread(job);
+
+    const id = nextId++;
+    pending.set(id, job);
+    options.signal?.addEventListener('abort', () => {
+      if (!pending.delete(id)) return;
+      worker?.postMessage({ type: 'cancel', id } satisfies WorkerRequest);
+      reject(new JobCancelledError());
+    }, { once: true });
+    target.postMessage({ type: 'run', id, kind, input } satisfies WorkerRequest);
+  });
@@ -0,0 +1,41 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { JobCancelledError, WorkerRequest, WorkerResponse, jobSteps, runSliced, transferables } from './computeJobs';
+
+// Runs compute jobs off the main thread. Jobs are time-sliced here too, so
+// a cancel message is seen between slices.
+
+const scope = self as unknown as Worker;
+const running = new Set<number>();
+
+const post = (response: WorkerResponse, transfer: Transferable[] = []) => scope.postMessage(response, transfer);
+
+scope.onmessage = ({ data }: MessageEvent<WorkerRequest>) => {
+  if (data.type === 'cancel') {
+    running.delete(data.id);
+    return;
+  }
+
+  const { id, kind, input } = data;
+  let steps;
+  try {
+    steps = jobSteps(kind, input as never);
+  } catch (err) {
+    post({ type: 'error', id, message: err instanceof Error ? err.message : String(err) });
+    return;
+  }
+  running.add(id);
+  runSliced(steps, {
+    onProgress: progress => post({ type: 'progress', id, progress }),
+    isCancelled: () => !running.has(id),
+  })
+    .then(output => post({ type: 'result', id, output }, transferables(output)))
+    .catch(err => {
+      if (err instanceof JobCancelledError) post({ type: 'cancelled', id });
+      else post({ type: 'error', id, message: err instanceof Error ? err.message : String(err) });
+    })
+    .finally(() => running.delete(id));
+};
@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { TrialInput, TrialSet, trialSteps } from './collapseModels';
+import { PhaseSweepInput, phaseSweepSteps } from './diosiPenrose';
+
+// Heavy simulations as step generators: each yields its fraction done
+// between chunks of work and returns its result. The same generators run in
+// the compute worker or, without one, in time slices on the main thread.
+
+export interface ComputeJobs {
+  'collapse-trials': { input: TrialInput; output: TrialSet };
+  'phase-sweep': { input: PhaseSweepInput; output: Float64Array };
+}
+
+export type JobKind = keyof ComputeJobs;
+export type JobInput<K extends JobKind> = ComputeJobs[K]['input'];
+export type JobOutput<K extends JobKind> = ComputeJobs[K]['output'];
+
+type JobSteps<K extends JobKind> = (input: JobInput<K>) => Generator<number, JobOutput<K>>;
+
+const JOBS: { [K in JobKind]: JobSteps<K> } = {
+  'collapse-trials': trialSteps,
+  'phase-sweep': phaseSweepSteps,
+};
+
+export const jobSteps = <K extends JobKind>(kind: K, input: JobInput<K>): Generator<number, JobOutput<K>> => {
+  const steps = JOBS[kind] as JobSteps<K> | undefined;
+  if (!steps) throw new Error(`Unknown compute job "${kind}"`);
+  return steps(input);
+};
+
+// --- PROTOCOL ---
+
+export type WorkerRequest =
+  | { type: 'run'; id: number; kind: JobKind; input: unknown }
+  | { type: 'cancel'; id: number };
+
+export type WorkerResponse =
+  | { type: 'progress'; id: number; progress: number }
+  | { type: 'result'; id: number; output: unknown }
+  | { type: 'error'; id: number; message: string }
+  | { type: 'cancelled'; id: number };
+
+// Buffers of the typed arrays in a result, moved rather than copied
+export const transferables = (output: unknown): ArrayBuffer[] => {
+  const buffers = new Set<ArrayBuffer>();
+  const visit = (value: unknown) => {
+    if (ArrayBuffer.isView(value)) {
+      if (value.buffer instanceof ArrayBuffer) buffers.add(value.buffer);
+    } else if (value && typeof value === 'object') {
+      Object.values(value).forEach(visit);
+    }
+  };
+  visit(output);
+  return [...buffers];
+};
+
+// --- TIME SLICING ---
+
+const SLICE_MS = 12;
+
+export class JobCancelledError extends Error {
+  constructor() {
+    super('Compute job cancelled');
+    this.name = 'JobCancelledError';
+  }
+}
+
+// Drives a job in slices of about SLICE_MS, yielding to the event loop in
+// between so messages (in the worker) or input and scrolling (on the main
+// thread) are handled. Progress is reported once per slice.
+export const runSliced = <T>(
+  steps: Generator<number, T>,
+  { onProgress, isCancelled }: { onProgress?: (progress: number) => void; isCancelled: () => boolean },
+): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const slice = () => {
+      if (isCancelled()) return reject(new JobCancelledError());
+      try {
+        const deadline = performance.now() + SLICE_MS;
+        let progress = 0;
+        do {
+          const step = steps.next();
+          if (step.done === true) return resolve(step.value);
+          progress = step.value;
+        } while (performance.now() < deadline);
+        onProgress?.(progress);
+        setTimeout(slice, 0);
+      } catch (err) {
+        reject(err);
+      }
+    };
+    slice();
+  });
@@ -0,0 +1,13 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// CODATA 2018 values, SI units
+export const G = 6.6743e-11;              // m^3 kg^-1 s^-2
+export const HBAR = 1.054571817e-34;      // J s
+export const ELECTRON_VOLT = 1.602176634e-19; // J
+export const ATOMIC_MASS_UNIT = 1.66053906660e-27; // kg
+export const PROTON_MASS = 1.67262192369e-27;      // kg
+export const PROTON_RADIUS = 0.8414e-15;           // m
+export const JULIAN_YEAR = 3.15576e7;              // s
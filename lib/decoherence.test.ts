@@ -0,0 +1,28 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { CHANNELS, MAX_ENTROPY, channelModel, evolveDensity } from './decoherence';
+import { DEFAULT_COLLAPSE_PARAMS } from './diosiPenrose';
+import { hermitianEigenvalues, trace } from './linalg';
+
+describe('evolveDensity', () => {
+  it.each(CHANNELS)('keeps ρ a density matrix under %s', channel => {
+    const samples = evolveDensity(channelModel(channel, DEFAULT_COLLAPSE_PARAMS));
+    samples.forEach(({ rho, entropy }) => {
+      const { re, im } = trace(rho);
+      expect(re).toBeCloseTo(1, 9);
+      expect(im).toBeCloseTo(0, 9);
+      hermitianEigenvalues(rho).forEach(p => expect(p).toBeGreaterThan(-1e-9));
+      expect(entropy).toBeLessThanOrEqual(MAX_ENTROPY + 1e-9);
+    });
+  });
+
+  it('starts pure', () => {
+    const [first] = evolveDensity(channelModel('dephasing', DEFAULT_COLLAPSE_PARAMS));
+    expect(first.purity).toBeCloseTo(1, 12);
+    expect(first.entropy).toBeCloseTo(0, 9);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import {
+  Matrix,
+  adjoint,
+  basis,
+  cscale,
+  complex,
+  hermitianEigenvalues,
+  madd,
+  matmul,
+  mscale,
+  msub,
+  normalize,
+  outer,
+  trace,
+} from './linalg';
+import { CollapseParams, computeCollapse } from './diosiPenrose';
+
+// Density matrix ρ of a body in superposition over four equally spaced
+// positions |k⟩, evolved by a Lindblad master equation
+//   dρ/dt = Σ_L (L ρ L† − ½{L†L, ρ}) − Γ ∘ ρ,
+// where Γ holds pairwise dephasing rates (zero on the diagonal). Time is
+// in units of the channel's reference time τ:
+//   dephasing         — Γ_jk = 1/τ for every pair; τ is set by the environment;
+//   amplitude damping — L = |k−1⟩⟨k| at rate 1/τ, relaxing to |0⟩;
+//   gravitational OR  — Γ_jk = E_G(|j−k| d)/ℏ (Diósi–Penrose), so the rate
+//                       follows the body's mass and the distance between
+//                       branches; τ = τ_OR of neighbouring positions.
+
+export type DecoherenceChannel = 'dephasing' | 'amplitude-damping' | 'gravitational';
+
+export const CHANNELS: DecoherenceChannel[] = ['dephasing', 'amplitude-damping', 'gravitational'];
+
+export const DENSITY_DIM = 4;
+
+// Length of the computed trajectory, in units of τ
+export const DENSITY_DURATION = 6;
+const SAMPLES = 240;
+const SUBSTEPS = 2;
+
+export interface ChannelModel {
+  jumps: Matrix[];
+  rates: number[][]; // Γ_jk in units of 1/τ
+  tau: number | null; // s; only the gravitational channel predicts it
+}
+
+export interface DensitySample {
+  t: number; // in units of τ
+  rho: Matrix;
+  purity: number;  // Tr(ρ²)
+  entropy: number; // −Tr(ρ ln ρ), nats
+}
+
+const positions = Array.from({ length: DENSITY_DIM }, (_, k) => k);
+
+// Body geometry for the gravitational channel; `separation` is the
+// spacing between neighbouring positions
+export const channelModel = (channel: DecoherenceChannel, body: Omit<CollapseParams, 'coherenceTime'>): ChannelModel => {
+  switch (channel) {
+    case 'dephasing':
+      return { jumps: [], rates: positions.map(j => positions.map(k => (j === k ? 0 : 1))), tau: null };
+    case 'amplitude-damping':
+      return { jumps: positions.slice(1).map(k => outer(basis(DENSITY_DIM, k - 1), basis(DENSITY_DIM, k))), rates: positions.map(() => positions.map(() => 0)), tau: null };
+    case 'gravitational': {
+      const tauAt = (steps: number) => computeCollapse({ ...body, separation: steps * body.separation, coherenceTime: 0 }).tau;
+      const tau = tauAt(1);
+      return { jumps: [], rates: positions.map(j => positions.map(k => (j === k ? 0 : tau / tauAt(Math.abs(j - k))))), tau };
+    }
+  }
+};
+
+// Equal superposition of every position
+export const initialDensity = (): Matrix => {
+  const psi = normalize(positions.map(() => complex(1)));
+  return outer(psi, psi);
+};
+
+const derivative = (rho: Matrix, model: ChannelModel): Matrix =>
+  model.jumps.reduce((d, l) => {
+    const ld = adjoint(l);
+    const ldl = matmul(ld, l);
+    const anticommutator = madd(matmul(ldl, rho), matmul(rho, ldl));
+    return madd(d, msub(matmul(matmul(l, rho), ld), mscale(anticommutator, complex(0.5))));
+  }, rho.map((row, j) => row.map((x, k) => cscale(x, -model.rates[j][k]))));
+
+const rk4 = (rho: Matrix, model: ChannelModel, dt: number): Matrix => {
+  const step = (base: Matrix, slope: Matrix, h: number) => madd(base, mscale(slope, complex(h)));
+  const k1 = derivative(rho, model);
+  const k2 = derivative(step(rho, k1, dt / 2), model);
+  const k3 = derivative(step(rho, k2, dt / 2), model);
+  const k4 = derivative(step(rho, k3, dt), model);
+  const sum = madd(madd(k1, mscale(k2, complex(2))), madd(mscale(k3, complex(2)), k4));
+  return step(rho, sum, dt / 6);
+};
+
+export const purity = (rho: Matrix): number => trace(matmul(rho, rho)).re;
+
+export const vonNeumannEntropy = (rho: Matrix): number =>
+  hermitianEigenvalues(rho).reduce((s, p) => (p > 1e-12 ? s - p * Math.log(p) : s), 0);
+
+// The whole trajectory up front, so playing and scrubbing only index into it
+export const evolveDensity = (model: ChannelModel, rho0: Matrix = initialDensity()): DensitySample[] => {
+  const dt = DENSITY_DURATION / SAMPLES / SUBSTEPS;
+  const samples: DensitySample[] = [];
+  let rho = rho0;
+  for (let i = 0; i <= SAMPLES; i++) {
+    if (i > 0) {
+      for (let s = 0; s < SUBSTEPS; s++) rho = rk4(rho, model, dt);
+    }
+    samples.push({ t: (i * DENSITY_DURATION) / SAMPLES, rho, purity: purity(rho), entropy: vonNeumannEntropy(rho) });
+  }
+  return samples;
+};
+
+// Largest |ρ_jk| over a trajectory, to keep one colour scale while it plays
+export const trajectoryScale = (samples: DensitySample[]): number =>
+  Math.max(...samples.flatMap(s => s.rho.flat().map(x => Math.hypot(x.re, x.im))));
+
+export const MAX_ENTROPY = Math.log(DENSITY_DIM);
@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { highlightChanges, splitTeXTerms } from './derivation';
+import { checkTeX } from './tex';
+
+const sources = (tex: string) => splitTeXTerms(tex).map(term => term.source);
+
+describe('splitTeXTerms', () => {
+  it('keeps an accent with its unbraced argument', () => {
+    expect(sources('\\hat E |\\Psi\\rangle')).toEqual(['\\hat E', '|', '\\Psi', '\\rangle']);
+  });
+
+  it('keeps a fraction with its unbraced arguments', () => {
+    expect(sources('\\frac12 mv^2')).toEqual(['\\frac12', 'm', 'v^2']);
+    expect(sources('\\frac\\hbar{E_G}')).toEqual(['\\frac\\hbar{E_G}']);
+  });
+
+  it('keeps scripts with their base, and a baseless script whole', () => {
+    expect(sources('\\left(x\\right)^2')).toEqual(['\\left(x\\right)^2']);
+    expect(sources('^2 x')).toEqual(['^2', 'x']);
+  });
+
+  it('keeps \\limits and \\nolimits with their operator', () => {
+    expect(sources('\\sum\\limits_{k=0}^3 c_k')).toEqual(['\\sum\\limits_{k=0}^3', 'c_k']);
+    expect(sources('\\int \\nolimits_a^b f')).toEqual(['\\int\\nolimits_a^b', 'f']);
+  });
+});
+
+describe('highlightChanges', () => {
+  const cases: [string, string][] = [
+    ['E', '\\hat E'],
+    ['E = m v^2', 'E = \\frac12 m v^2'],
+    ['x', 'x ^2'],
+    ['{}^2 x', '^2 x'],
+    ['\\sqrt2', '\\sqrt[3]2'],
+  ];
+
+  it.each(cases)('colours %s → %s into valid TeX', (previous, next) => {
+    const { tex, changed } = highlightChanges(previous, next, '#fcee0a');
+    expect(changed).toBeGreaterThan(0);
+    expect(checkTeX(tex)).toBeNull();
+  });
+
+  it('colours a big operator together with its limits placement', () => {
+    expect(highlightChanges('c_k', '\\sum\\limits_k c_k', '#fcee0a')).toEqual({ tex: '\\textcolor{#fcee0a}{\\sum\\limits_k} c_k', changed: 1 });
+  });
+});
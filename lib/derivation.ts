@@ -0,0 +1,190 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Term-level diff between the TeX of consecutive derivation steps. Each
+// step is split into top-level terms (a symbol with its scripts, a command
+// with its arguments, a braced group); terms not carried over from the
+// previous step are wrapped in \textcolor, which keeps KaTeX's spacing.
+
+import { checkTeX } from './tex';
+
+export interface TeXTerm {
+  source: string;
+  structural: boolean; // alignment, environments and spacing: compared, never coloured
+}
+
+// Commands that must not be wrapped: they pair up or only move things
+const STRUCTURAL = new Set(['\\middle', '\\begin', '\\end', '\\\\', '\\,', '\\;', '\\:', '\\!', '\\ ', '\\quad', '\\qquad']);
+
+// Arguments of commands that also take them unbraced (\hat E, \frac12);
+// any other command keeps the braced groups that follow it
+const ARITY: Record<string, number> = {
+  '\\frac': 2, '\\dfrac': 2, '\\tfrac': 2, '\\binom': 2, '\\overset': 2, '\\underset': 2, '\\stackrel': 2, '\\textcolor': 2,
+  '\\sqrt': 1, '\\hat': 1, '\\widehat': 1, '\\bar': 1, '\\overline': 1, '\\underline': 1, '\\vec': 1, '\\tilde': 1,
+  '\\widetilde': 1, '\\dot': 1, '\\ddot': 1, '\\mathbf': 1, '\\mathrm': 1, '\\mathcal': 1, '\\mathbb': 1, '\\mathit': 1,
+  '\\boldsymbol': 1, '\\text': 1, '\\operatorname': 1,
+};
+
+export const splitTeXTerms = (source: string): TeXTerm[] => {
+  const terms: TeXTerm[] = [];
+  let pos = 0;
+
+  const group = (): string => {
+    const start = pos;
+    const open = source[pos];
+    const close = open === '{' ? '}' : ']';
+    let depth = 0;
+    while (pos < source.length) {
+      const ch = source[pos++];
+      if (ch === '\\') pos++;
+      else if (ch === open) depth++;
+      else if (ch === close && --depth === 0) break;
+    }
+    return source.slice(start, pos);
+  };
+
+  const command = (): string => {
+    const match = /^\\([a-zA-Z]+|.)/.exec(source.slice(pos));
+    const name = match ? match[0] : '\\';
+    pos += name.length;
+    return name;
+  };
+
+  const skipSpace = () => { while (/\s/.test(source[pos] ?? '')) pos++; };
+
+  // A whole \left ... \right pair with its delimiters
+  const delimited = (): string => {
+    const start = pos;
+    let depth = 0;
+    while (pos < source.length) {
+      const name = source[pos] === '\\' ? command() : source[pos++];
+      if (name === '\\left') depth++;
+      else if (name === '\\right' && --depth === 0) {
+        skipSpace();
+        if (source[pos] === '\\') command(); else pos++;
+        break;
+      }
+    }
+    return source.slice(start, pos);
+  };
+
+  // One base: a command with its arguments, a group or a single character
+  const atom = (): string => {
+    if (source[pos] === '{') return group();
+    if (source[pos] !== '\\') return source[pos++];
+    if (source.startsWith('\\left', pos) && !/[a-zA-Z]/.test(source[pos + 5] ?? '')) return delimited();
+    const start = pos;
+    let text = command();
+    const arity = ARITY[text];
+    if (arity !== undefined) {
+      skipSpace();
+      if (text === '\\sqrt' && source[pos] === '[') group();
+      // An unbraced argument is a single character or command
+      for (let i = 0; i < arity && pos < source.length; i++) {
+        skipSpace();
+        if (source[pos] === '{') group();
+        else if (source[pos] === '\\') command();
+        else pos++;
+      }
+      return source.slice(start, pos);
+    }
+    for (;;) {
+      const before = pos;
+      skipSpace();
+      if (source[pos] === '{' || (source[pos] === '[' && text === '\\sqrt')) text += group();
+      else { pos = before; return text; }
+    }
+  };
+
+  while (pos < source.length) {
+    skipSpace();
+    if (pos >= source.length) break;
+
+    if (source[pos] === '&') {
+      terms.push({ source: source[pos++], structural: true });
+      continue;
+    }
+    if (source[pos] === '\\') {
+      const name = /^\\([a-zA-Z]+|.)/.exec(source.slice(pos))?.[0] ?? '\\';
+      if (STRUCTURAL.has(name)) {
+        pos += name.length;
+        let text = name;
+        skipSpace();
+        // \middle| and \begin{aligned} take their delimiter or name along
+        if (name === '\\middle') text += source[pos] === '\\' ? command() : source[pos++];
+        else if ((name === '\\begin' || name === '\\end') && source[pos] === '{') text += group();
+        terms.push({ source: text, structural: true });
+        continue;
+      }
+    }
+
+    // Scripts stay with their base; a script without one is a term of its own.
+    // \limits and \nolimits stay with the big operator they follow.
+    let text = source[pos] === '^' || source[pos] === '_' ? '' : atom();
+    for (;;) {
+      skipSpace();
+      const placement = /^\\(no)?limits(?![a-zA-Z])/.exec(source.slice(pos));
+      if (placement) {
+        text += placement[0];
+        pos += placement[0].length;
+        continue;
+      }
+      if (source[pos] !== '^' && source[pos] !== '_') break;
+      text += source[pos++];
+      skipSpace();
+      text += atom();
+    }
+    terms.push({ source: text, structural: false });
+  }
+  return terms;
+};
+
+const normalize = (term: TeXTerm) => term.source.replace(/\s+/g, '');
+
+// Which terms of `next` are kept from `previous`, by longest common subsequence
+export const keptTerms = (previous: TeXTerm[], next: TeXTerm[]): boolean[] => {
+  const a = previous.map(normalize);
+  const b = next.map(normalize);
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const kept = new Array<boolean>(b.length).fill(false);
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      kept[j] = true;
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return kept;
+};
+
+// `next` with every term that changed since `previous` coloured. Without a
+// previous step nothing is marked, and TeX the split cannot colour safely
+// is returned as written.
+export const highlightChanges = (previous: string | undefined, next: string, color: string): { tex: string; changed: number } => {
+  if (previous === undefined) return { tex: next, changed: 0 };
+  const terms = splitTeXTerms(next);
+  const kept = keptTerms(splitTeXTerms(previous), terms);
+  let changed = 0;
+  const tex = terms
+    .map((term, i) => {
+      if (kept[i] || term.structural) return term.source;
+      changed++;
+      return `\\textcolor{${color}}{${term.source}}`;
+    })
+    .join(' ');
+  if (changed > 0 && checkTeX(tex) !== null) return { tex: next, changed: 0 };
+  return { tex, changed };
+};
@@ -0,0 +1,44 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { HBAR } from './constants';
+import { DEFAULT_COLLAPSE_PARAMS, computeCollapse, reductionTime, shellSelfEnergy, sphereSelfEnergy } from './diosiPenrose';
+
+const MASS = 1e-14;
+const RADIUS = 1e-6;
+
+// Either side of the d = 2R switch between the overlapping and separated formulas
+const acrossBoundary = (energy: (mass: number, radius: number, separation: number) => number) => [
+  energy(MASS, RADIUS, 2 * RADIUS * (1 - 1e-9)),
+  energy(MASS, RADIUS, 2 * RADIUS * (1 + 1e-9)),
+];
+
+describe('self-energy', () => {
+  it.each([
+    ['sphere', sphereSelfEnergy],
+    ['shell', shellSelfEnergy],
+  ])('is continuous for the %s where the copies stop overlapping', (_, energy) => {
+    const [inside, outside] = acrossBoundary(energy);
+    expect(inside / outside).toBeCloseTo(1, 6);
+  });
+
+  it('vanishes without a displacement', () => {
+    expect(sphereSelfEnergy(MASS, RADIUS, 0)).toBe(0);
+    expect(shellSelfEnergy(MASS, RADIUS, 0)).toBe(0);
+  });
+});
+
+describe('reduction time', () => {
+  it('is ℏ / E_G', () => {
+    const { selfEnergy, tau } = computeCollapse(DEFAULT_COLLAPSE_PARAMS);
+    expect(selfEnergy).toBeGreaterThan(0);
+    expect((tau * selfEnergy) / HBAR).toBeCloseTo(1, 12);
+  });
+
+  it('is infinite without a self-energy', () => {
+    expect(reductionTime(0)).toBe(Infinity);
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ATOMIC_MASS_UNIT, G, HBAR, PROTON_MASS, PROTON_RADIUS } from './constants';
+
+// Diósi–Penrose gravitational self-energy of the difference between two
+// displaced copies of a mass distribution,
+//   E_G = (G/2) ∫∫ [ρ1(x) − ρ2(x)][ρ1(y) − ρ2(y)] / |x − y| d³x d³y,
+// and the reduction time τ ≈ ℏ / E_G. All quantities are SI.
+
+export type MassDistribution = 'uniform-sphere' | 'spherical-shell' | 'point-masses' | 'crystal-lattice';
+
+export interface CollapseParams {
+  distribution: MassDistribution;
+  mass: number;          // kg
+  separation: number;    // m, displacement between the superposed copies
+  radius: number;        // m, body radius (or constituent radius for point masses)
+  coherenceTime: number; // s, τc the superposition must survive for
+}
+
+export interface CollapseResult {
+  selfEnergy: number; // J
+  tau: number;        // s
+  collapses: boolean; // τ_OR ≤ τc
+}
+
+export const DISTRIBUTIONS: { id: MassDistribution; label: string }[] = [
+  { id: 'uniform-sphere', label: 'SPHERE' },
+  { id: 'spherical-shell', label: 'SHELL' },
+  { id: 'point-masses', label: 'POINTS' },
+  { id: 'crystal-lattice', label: 'LATTICE' },
+];
+
+// Carbon-12 crystal (diamond) used by the lattice model
+const LATTICE_ATOM_MASS = 12 * ATOMIC_MASS_UNIT;
+const LATTICE_SPACING = 3.567e-10;                      // m
+const LATTICE_NUCLEAR_RADIUS = 1.2e-15 * Math.cbrt(12); // m
+
+// Two uniform spheres of mass M, radius R, centres d apart, λ = d / 2R:
+//   E_G = (GM²/R)(2λ² − 3λ³/2 + λ⁵/5)   for λ ≤ 1
+//   E_G = (GM²/R)(6/5 − 1/(2λ))         for λ ≥ 1
+export const sphereSelfEnergy = (mass: number, radius: number, separation: number): number => {
+  const lambda = separation / (2 * radius);
+  const scale = (G * mass * mass) / radius;
+  if (lambda <= 1) {
+    return scale * (2 * lambda ** 2 - 1.5 * lambda ** 3 + 0.2 * lambda ** 5);
+  }
+  return scale * (1.2 - 1 / (2 * lambda));
+};
+
+// Two thin shells: E_G = GM²d / 4R² while they overlap, GM²(1/R − 1/d) after
+export const shellSelfEnergy = (mass: number, radius: number, separation: number): number => {
+  const scale = G * mass * mass;
+  if (separation <= 2 * radius) {
+    return (scale * separation) / (4 * radius * radius);
+  }
+  return scale * (1 / radius - 1 / separation);
+};
+
+// N well-separated constituents each contribute their own sphere term;
+// cross terms are neglected, which holds while d is small next to the
+// spacing between constituents.
+const constituentSelfEnergy = (totalMass: number, unitMass: number, unitRadius: number, separation: number) => {
+  const count = Math.max(1, totalMass / unitMass);
+  return count * sphereSelfEnergy(totalMass / count, unitRadius, separation);
+};
+
+export const selfEnergy = ({ distribution, mass, separation, radius }: Omit<CollapseParams, 'coherenceTime'>): number => {
+  switch (distribution) {
+    case 'uniform-sphere':
+      return sphereSelfEnergy(mass, radius, separation);
+    case 'spherical-shell':
+      return shellSelfEnergy(mass, radius, separation);
+    case 'point-masses':
+      return constituentSelfEnergy(mass, PROTON_MASS, radius, separation);
+    case 'crystal-lattice': {
+      // Below the lattice spacing only the nuclei move relative to their
+      // own images; past it the body behaves as a uniform sphere.
+      const nuclei = constituentSelfEnergy(mass, LATTICE_ATOM_MASS, LATTICE_NUCLEAR_RADIUS, separation);
+      if (separation < LATTICE_SPACING) return nuclei;
+      return Math.max(nuclei, sphereSelfEnergy(mass, radius, separation));
+    }
+  }
+};
+
+export const reductionTime = (energy: number): number => (energy > 0 ? HBAR / energy : Infinity);
+
+export const computeCollapse = (params: CollapseParams): CollapseResult => {
+  const energy = selfEnergy(params);
+  const tau = reductionTime(energy);
+  return { selfEnergy: energy, tau, collapses: tau <= params.coherenceTime };
+};
+
+// τ at log-spaced separations, for plotting τ(d)
+export const sweepSeparation = (
+  params: CollapseParams,
+  minSeparation: number,
+  maxSeparation: number,
+  samples = 120
+): { separation: number; tau: number }[] => {
+  const logMin = Math.log10(minSeparation);
+  const step = (Math.log10(maxSeparation) - logMin) / (samples - 1);
+  return Array.from({ length: samples }, (_, i) => {
+    const separation = Math.pow(10, logMin + i * step);
+    return { separation, tau: reductionTime(selfEnergy({ ...params, separation })) };
+  });
+};
+
+// --- PHASE DIAGRAM ---
+// Sweeps two parameters over log-spaced grids and compares τ_OR with the
+// coherence time τc at every point. Negative margins are collapse-dominated
+// (the state reduces before the environment decoheres it), positive ones
+// decoherence-dominated.
+
+export type PhaseAxis = 'mass' | 'separation' | 'radius' | 'coherenceTime';
+
+// Slider and sweep ranges, SI
+export const PARAM_RANGES: Record<PhaseAxis, [number, number]> = {
+  mass: [1e-27, 1e2],
+  separation: [1e-18, 1],
+  radius: [1e-16, 1],
+  coherenceTime: [1e-15, 1e17],
+};
+
+export interface PhaseSweep {
+  id: string;
+  label: string;
+  x: PhaseAxis;
+  y: PhaseAxis;
+}
+
+export const PHASE_SWEEPS: PhaseSweep[] = [
+  { id: 'mass-separation', label: 'M × d', x: 'separation', y: 'mass' },
+  { id: 'mass-coherence', label: 'M × τc', x: 'coherenceTime', y: 'mass' },
+  { id: 'separation-coherence', label: 'd × τc', x: 'coherenceTime', y: 'separation' },
+];
+
+// log10(τ_OR / τc); +Infinity when E_G vanishes
+export const collapseMargin = (params: CollapseParams): number =>
+  Math.log10(reductionTime(selfEnergy(params)) / params.coherenceTime);
+
+// Log-spaced value of cell `i` of `cells` across `range`, at its centre
+export const phaseAxisValue = ([min, max]: [number, number], cells: number, i: number): number =>
+  Math.pow(10, Math.log10(min) + ((i + 0.5) / cells) * (Math.log10(max) - Math.log10(min)));
+
+export interface PhaseSweepInput {
+  params: CollapseParams;
+  sweep: PhaseSweep;
+  columns: number;
+  rows: number;
+}
+
+// Margins row by row from the bottom of the y range, `columns` per row.
+// Yields the fraction done after each row.
+export function* phaseSweepSteps({ params, sweep, columns, rows }: PhaseSweepInput): Generator<number, Float64Array> {
+  const margins = new Float64Array(columns * rows);
+  for (let row = 0; row < rows; row++) {
+    const y = phaseAxisValue(PARAM_RANGES[sweep.y], rows, row);
+    for (let col = 0; col < columns; col++) {
+      const x = phaseAxisValue(PARAM_RANGES[sweep.x], columns, col);
+      margins[row * columns + col] = collapseMargin({ ...params, [sweep.x]: x, [sweep.y]: y });
+    }
+    yield (row + 1) / rows;
+  }
+  return margins;
+}
+
+// --- REFERENCE SYSTEMS ---
+
+export interface ReferenceSystem {
+  id: string;
+  label: string;
+  params: Omit<CollapseParams, 'coherenceTime'>;
+}
+
+export const REFERENCE_SYSTEMS: ReferenceSystem[] = [
+  {
+    id: 'nucleon',
+    label: 'NUCLEON',
+    params: { distribution: 'uniform-sphere', mass: PROTON_MASS, radius: PROTON_RADIUS, separation: 2 * PROTON_RADIUS },
+  },
+  {
+    id: 'tubulin',
+    label: 'TUBULIN',
+    // ~110 kDa dimer; Hameroff–Penrose displace nuclei by about a fermi
+    params: { distribution: 'crystal-lattice', mass: 1.83e-22, radius: 4e-9, separation: 2.5e-15 },
+  },
+  {
+    id: 'dust',
+    label: 'DUST GRAIN',
+    // 10 µm silicate grain displaced by its own radius
+    params: { distribution: 'uniform-sphere', mass: 1.05e-11, radius: 1e-5, separation: 1e-5 },
+  },
+  {
+    id: 'cat',
+    label: 'CAT',
+    params: { distribution: 'uniform-sphere', mass: 4, radius: 0.1, separation: 0.1 },
+  },
+];
+
+export const referenceTau = (reference: ReferenceSystem): number => reductionTime(selfEnergy(reference.params));
+
+export const DEFAULT_COLLAPSE_PARAMS: CollapseParams = {
+  distribution: 'uniform-sphere',
+  mass: 1.05e-11,
+  separation: 1e-7,
+  radius: 1e-5,
+  coherenceTime: 1,
+};
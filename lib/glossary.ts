@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GlossaryEntry } from '../types';
+import { scrollBehavior } from './motion';
+
+export type Glossary = Record<string, GlossaryEntry>;
+
+// One rendered tooltip referencing a glossary term
+export interface TermUsage {
+  term: string;
+  elementId: string;
+  sectionId: string | null;
+}
+
+export const getTerm = (glossary: Glossary, id: string): GlossaryEntry | undefined =>
+  Object.prototype.hasOwnProperty.call(glossary, id) ? glossary[id] : undefined;
+
+// Related terms in declared order, skipping ids the glossary doesn't define
+export const getRelatedTerms = (glossary: Glossary, id: string): [string, GlossaryEntry][] =>
+  (getTerm(glossary, id)?.related ?? [])
+    .map(relatedId => [relatedId, getTerm(glossary, relatedId)] as [string, GlossaryEntry | undefined])
+    .filter((pair): pair is [string, GlossaryEntry] => pair[1] !== undefined);
+
+export const glossaryAnchor = (id: string) => `glossary-${id}`;
+
+// --- USAGE REGISTRY ---
+// Tooltips register themselves while mounted so the glossary can link back
+// to every place a term appears, including inside visualizations.
+
+let usages: TermUsage[] = [];
+const listeners = new Set<() => void>();
+
+const emit = () => listeners.forEach(listener => listener());
+
+export const registerTermUsage = (usage: TermUsage) => {
+  usages = [...usages, usage];
+  emit();
+  return () => {
+    usages = usages.filter(u => u !== usage);
+    emit();
+  };
+};
+
+export const subscribeTermUsages = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const getTermUsages = () => usages;
+
+// Usages of one term, in document order
+export const usagesOf = (all: TermUsage[], term: string): TermUsage[] => {
+  const matches = all.filter(u => u.term === term);
+  const position = (u: TermUsage) => document.getElementById(u.elementId);
+  return matches.sort((a, b) => {
+    const ea = position(a);
+    const eb = position(b);
+    if (!ea || !eb) return 0;
+    return ea.compareDocumentPosition(eb) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1;
+  });
+};
+
+export const jumpToElement = (elementId: string) => {
+  const el = document.getElementById(elementId);
+  if (!el) return;
+  el.scrollIntoView({ behavior: scrollBehavior(), block: 'center' });
+  el.classList.add('ring-2', 'ring-cyber-yellow', 'rounded-sm');
+  window.setTimeout(() => el.classList.remove('ring-2', 'ring-cyber-yellow', 'rounded-sm'), 1500);
+};
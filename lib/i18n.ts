@@ -0,0 +1,213 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { EN_MESSAGES, Message, MessageKey } from './messages';
+import { formatDuration, formatMass, formatSI, formatScientific } from './units';
+import { ParamCodec, readParams, writeParams } from './urlState';
+
+// Locale of the interface. Catalogs other than English are fetched from
+// `locales/<id>.json` when chosen, so a translation ships without a
+// rebuild; `locales/index.json` lists the ones the picker offers. Lookups
+// fall back from "pt-BR" to "pt" to the bundled English catalog.
+
+export type TextDirection = 'ltr' | 'rtl';
+
+export interface LocaleInfo {
+  id: string; // BCP 47 tag, e.g. "de" or "pt-BR"
+  label: string; // the language's own name
+}
+
+// A catalog file; `dir` overrides the direction guessed from the language
+interface Catalog {
+  dir?: TextDirection;
+  messages: Partial<Record<MessageKey, Message>>;
+}
+
+export type MessageValues = Record<string, string | number>;
+
+export interface I18n {
+  locale: string;
+  dir: TextDirection;
+  locales: LocaleInfo[];
+  ready: boolean; // false until the first choice of locale has loaded
+  t: (key: MessageKey, values?: MessageValues) => string;
+  number: (value: number, options?: Intl.NumberFormatOptions) => string;
+  percent: (fraction: number) => string;
+  si: (value: number, unit: string, digits?: number) => string;
+  duration: (seconds: number, digits?: number) => string;
+  mass: (kg: number, digits?: number) => string;
+  scientific: (value: number, digits?: number) => string;
+}
+
+export const DEFAULT_LOCALE = 'en';
+const LOCALES_URL = 'locales/';
+const STORAGE_KEY = 'locale';
+const RTL_LANGUAGES = new Set(['ar', 'arc', 'ckb', 'dv', 'fa', 'he', 'ps', 'sd', 'ug', 'ur', 'yi']);
+const DEFAULT_LOCALES: LocaleInfo[] = [{ id: DEFAULT_LOCALE, label: 'English' }];
+
+// --- LOOKUP ---
+
+const baseLanguage = (locale: string) => locale.split('-')[0].toLowerCase();
+
+// "pt-BR" → ["pt-BR", "pt"]; English is not listed, it is always last
+export const localeChain = (locale: string): string[] =>
+  [...new Set([locale, baseLanguage(locale)])].filter(id => id !== DEFAULT_LOCALE);
+
+// Hand-edited tags that Intl rejects fall back to English
+const canonicalLocale = (locale: string): string => {
+  try {
+    return Intl.getCanonicalLocales(locale)[0] ?? DEFAULT_LOCALE;
+  } catch {
+    return DEFAULT_LOCALE;
+  }
+};
+
+export const textDirection = (locale: string): TextDirection => (RTL_LANGUAGES.has(baseLanguage(locale)) ? 'rtl' : 'ltr');
+
+const interpolate = (template: string, values: MessageValues, formatNumber: (value: number) => string) =>
+  template.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = values[name];
+    if (value === undefined) return match;
+    return typeof value === 'number' ? formatNumber(value) : value;
+  });
+
+// One formatter per locale and option set; readouts format on every frame
+const numberFormats = new Map<string, Intl.NumberFormat>();
+const numberFormat = (locale: string, options: Intl.NumberFormatOptions = {}): Intl.NumberFormat => {
+  const key = `${locale}|${JSON.stringify(options)}`;
+  let format = numberFormats.get(key);
+  if (!format) {
+    format = new Intl.NumberFormat(locale, options);
+    numberFormats.set(key, format);
+  }
+  return format;
+};
+
+const createI18n = (locale: string, dir: TextDirection, catalogs: Catalog[], locales: LocaleInfo[], ready = true): I18n => {
+  const plurals = new Intl.PluralRules(locale);
+  const number = (value: number, options?: Intl.NumberFormatOptions) => numberFormat(locale, options).format(value);
+
+  const t = (key: MessageKey, values: MessageValues = {}) => {
+    const message: Message = catalogs.find(catalog => catalog.messages[key] !== undefined)?.messages[key] ?? EN_MESSAGES[key];
+    const template = typeof message === 'string'
+      ? message
+      : message[plurals.select(Number(values.count ?? 0))] ?? message.other;
+    return interpolate(template, values, value => number(value));
+  };
+
+  return {
+    locale,
+    dir,
+    locales,
+    ready,
+    t,
+    number,
+    percent: fraction => number(fraction, { style: 'percent', maximumFractionDigits: 0 }),
+    si: (value, unit, digits) => formatSI(value, unit, digits, locale),
+    duration: (seconds, digits) => formatDuration(seconds, digits, locale),
+    mass: (kg, digits) => formatMass(kg, digits, locale),
+    scientific: (value, digits) => formatScientific(value, digits, locale),
+  };
+};
+
+// --- LOADING ---
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// A missing or malformed catalog counts as absent: its messages fall back
+const catalogs = new Map<string, Promise<Catalog | null>>();
+const fetchCatalog = (id: string): Promise<Catalog | null> => {
+  let catalog = catalogs.get(id);
+  if (!catalog) {
+    catalog = fetch(`${LOCALES_URL}${id}.json`)
+      .then(response => (response.ok ? response.json() : null))
+      .then((data: unknown) => {
+        if (!isRecord(data) || !isRecord(data.messages)) return null;
+        return {
+          dir: data.dir === 'rtl' || data.dir === 'ltr' ? data.dir : undefined,
+          messages: data.messages as Catalog['messages'],
+        };
+      })
+      .catch(() => null);
+    catalogs.set(id, catalog);
+  }
+  return catalog;
+};
+
+let localeList: Promise<LocaleInfo[]> | null = null;
+const fetchLocales = (): Promise<LocaleInfo[]> => {
+  localeList ??= fetch(`${LOCALES_URL}index.json`)
+    .then(response => (response.ok ? response.json() : []))
+    .then((data: unknown) => {
+      const listed = Array.isArray(data)
+        ? data.filter((entry): entry is LocaleInfo => isRecord(entry) && typeof entry.id === 'string' && typeof entry.label === 'string')
+        : [];
+      return listed.some(entry => entry.id === DEFAULT_LOCALE) ? listed : [...DEFAULT_LOCALES, ...listed];
+    })
+    .catch(() => DEFAULT_LOCALES);
+  return localeList;
+};
+
+// --- ACTIVE LOCALE ---
+
+// `?lang=` (a shared link) wins over the stored choice, which wins over
+// the browser's language
+const LANG_PARAM: { lang: ParamCodec<string> } = { lang: { parse: raw => raw.trim() || undefined, format: value => value } };
+
+const readRequested = (): string => {
+  const fromUrl = readParams('', LANG_PARAM, { lang: '' }).lang;
+  if (fromUrl) return fromUrl;
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) return stored;
+  } catch {
+    // Storage can be unavailable (private mode)
+  }
+  return navigator.language || DEFAULT_LOCALE;
+};
+
+let current = createI18n(DEFAULT_LOCALE, 'ltr', [], DEFAULT_LOCALES, false);
+let request = 0;
+const listeners = new Set<() => void>();
+
+const apply = (i18n: I18n) => {
+  current = i18n;
+  document.documentElement.lang = i18n.locale;
+  document.documentElement.dir = i18n.dir;
+  listeners.forEach(listener => listener());
+};
+
+// Loads the listed catalogs for `requested`. Without any, the page stays
+// English (numbers included) rather than mixing languages.
+const load = async (tag: string) => {
+  const id = ++request;
+  const requested = canonicalLocale(tag);
+  const locales = await fetchLocales();
+  const chain = localeChain(requested).filter(locale => locales.some(entry => entry.id === locale));
+  const found = (await Promise.all(chain.map(fetchCatalog))).filter((catalog): catalog is Catalog => catalog !== null);
+  if (id !== request) return;
+  const locale = found.length > 0 ? requested : DEFAULT_LOCALE;
+  apply(createI18n(locale, found[0]?.dir ?? textDirection(locale), found, locales));
+};
+
+export const getI18n = (): I18n => current;
+
+export const setLocale = (locale: string) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, locale);
+  } catch {
+    // The choice lasts the session
+  }
+  writeParams('', LANG_PARAM, { lang: locale }, { lang: DEFAULT_LOCALE });
+  load(locale);
+};
+
+export const subscribeI18n = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+load(readRequested());
@@ -0,0 +1,31 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { complex, diagonal, fromReal, hermitianEigenvalues } from './linalg';
+
+const expectEigenvalues = (actual: number[], expected: number[]) => {
+  expect(actual).toHaveLength(expected.length);
+  actual.forEach((value, i) => expect(value).toBeCloseTo(expected[i], 9));
+};
+
+describe('hermitianEigenvalues', () => {
+  it('returns a diagonal matrix its entries, ascending', () => {
+    expectEigenvalues(hermitianEigenvalues(diagonal([3, -1, 2])), [-1, 2, 3]);
+  });
+
+  it('diagonalizes a real symmetric matrix', () => {
+    expectEigenvalues(hermitianEigenvalues(fromReal([[2, 1, 0], [1, 2, 1], [0, 1, 2]])), [2 - Math.SQRT2, 2, 2 + Math.SQRT2]);
+  });
+
+  it('diagonalizes a complex Hermitian matrix', () => {
+    // 2·1 + σ_y
+    const a = [
+      [complex(2), complex(0, -1)],
+      [complex(0, 1), complex(2)],
+    ];
+    expectEigenvalues(hermitianEigenvalues(a), [1, 3]);
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Small dense complex linear algebra for finite Hilbert spaces. Sizes here
+// are tiny (a handful of levels), so clarity beats speed.
+
+export interface Complex {
+  re: number;
+  im: number;
+}
+
+export type Vector = Complex[];
+export type Matrix = Complex[][];
+
+// --- SCALARS ---
+
+export const complex = (re: number, im = 0): Complex => ({ re, im });
+export const ZERO = complex(0);
+export const ONE = complex(1);
+export const I = complex(0, 1);
+
+export const cadd = (a: Complex, b: Complex): Complex => ({ re: a.re + b.re, im: a.im + b.im });
+export const csub = (a: Complex, b: Complex): Complex => ({ re: a.re - b.re, im: a.im - b.im });
+export const cmul = (a: Complex, b: Complex): Complex => ({
+  re: a.re * b.re - a.im * b.im,
+  im: a.re * b.im + a.im * b.re,
+});
+export const cscale = (a: Complex, s: number): Complex => ({ re: a.re * s, im: a.im * s });
+export const cdiv = (a: Complex, b: Complex): Complex => {
+  const d = b.re * b.re + b.im * b.im;
+  return { re: (a.re * b.re + a.im * b.im) / d, im: (a.im * b.re - a.re * b.im) / d };
+};
+export const conj = (a: Complex): Complex => ({ re: a.re, im: -a.im });
+export const abs2 = (a: Complex): number => a.re * a.re + a.im * a.im;
+export const cabs = (a: Complex): number => Math.sqrt(abs2(a));
+export const arg = (a: Complex): number => Math.atan2(a.im, a.re);
+export const polar = (r: number, theta: number): Complex => ({ re: r * Math.cos(theta), im: r * Math.sin(theta) });
+
+// --- VECTORS ---
+
+export const basis = (dim: number, k: number): Vector =>
+  Array.from({ length: dim }, (_, i) => (i === k ? ONE : ZERO));
+
+// ⟨a|b⟩, conjugate-linear in the first argument
+export const inner = (a: Vector, b: Vector): Complex =>
+  a.reduce((sum, ai, i) => cadd(sum, cmul(conj(ai), b[i])), ZERO);
+
+export const norm = (v: Vector): number => Math.sqrt(v.reduce((sum, x) => sum + abs2(x), 0));
+
+export const normalize = (v: Vector): Vector => {
+  const n = norm(v);
+  return n === 0 ? v : v.map(x => cscale(x, 1 / n));
+};
+
+export const vadd = (a: Vector, b: Vector): Vector => a.map((x, i) => cadd(x, b[i]));
+export const vscale = (v: Vector, s: Complex): Vector => v.map(x => cmul(x, s));
+
+// --- MATRICES ---
+
+export const zeros = (rows: number, cols = rows): Matrix =>
+  Array.from({ length: rows }, () => Array.from({ length: cols }, () => ZERO));
+
+export const identity = (dim: number): Matrix =>
+  Array.from({ length: dim }, (_, i) => Array.from({ length: dim }, (_, j) => (i === j ? ONE : ZERO)));
+
+export const fromReal = (rows: number[][]): Matrix => rows.map(row => row.map(x => complex(x)));
+
+export const diagonal = (values: number[]): Matrix =>
+  values.map((v, i) => values.map((_, j) => (i === j ? complex(v) : ZERO)));
+
+export const madd = (a: Matrix, b: Matrix): Matrix => a.map((row, i) => row.map((x, j) => cadd(x, b[i][j])));
+export const msub = (a: Matrix, b: Matrix): Matrix => a.map((row, i) => row.map((x, j) => csub(x, b[i][j])));
+export const mscale = (a: Matrix, s: Complex): Matrix => a.map(row => row.map(x => cmul(x, s)));
+
+export const matmul = (a: Matrix, b: Matrix): Matrix =>
+  a.map(row => b[0].map((_, j) => row.reduce((sum, x, k) => cadd(sum, cmul(x, b[k][j])), ZERO)));
+
+export const matvec = (a: Matrix, v: Vector): Vector =>
+  a.map(row => row.reduce((sum, x, k) => cadd(sum, cmul(x, v[k])), ZERO));
+
+export const adjoint = (a: Matrix): Matrix => a[0].map((_, j) => a.map(row => conj(row[j])));
+
+export const trace = (a: Matrix): Complex => a.reduce((sum, row, i) => cadd(sum, row[i]), ZERO);
+
+// Frobenius norm
+export const mnorm = (a: Matrix): number => Math.sqrt(a.reduce((sum, row) => sum + row.reduce((s, x) => s + abs2(x), 0), 0));
+
+// [A, B] = AB − BA
+export const commutator = (a: Matrix, b: Matrix): Matrix => msub(matmul(a, b), matmul(b, a));
+
+// |a⟩⟨b|
+export const outer = (a: Vector, b: Vector): Matrix => a.map(x => b.map(y => cmul(x, conj(y))));
+
+// Kronecker (tensor) products, A ⊗ B and |a⟩ ⊗ |b⟩
+export const kron = (a: Matrix, b: Matrix): Matrix =>
+  a.flatMap(rowA => b.map(rowB => rowA.flatMap(x => rowB.map(y => cmul(x, y)))));
+
+export const vkron = (a: Vector, b: Vector): Vector => a.flatMap(x => b.map(y => cmul(x, y)));
+
+// Numerical rank by Gaussian elimination with partial pivoting; pivots
+// below `tolerance` times the largest entry count as zero
+export const rank = (a: Matrix, tolerance = 1e-9): number => {
+  const m = a.map(row => [...row]);
+  const scale = Math.max(0, ...m.flat().map(cabs));
+  if (scale === 0) return 0;
+  let r = 0;
+  for (let col = 0; col < m[0].length && r < m.length; col++) {
+    let pivot = r;
+    for (let i = r + 1; i < m.length; i++) {
+      if (cabs(m[i][col]) > cabs(m[pivot][col])) pivot = i;
+    }
+    if (cabs(m[pivot][col]) <= tolerance * scale) continue;
+    [m[r], m[pivot]] = [m[pivot], m[r]];
+    for (let i = r + 1; i < m.length; i++) {
+      const f = cdiv(m[i][col], m[r][col]);
+      m[i] = m[i].map((x, j) => csub(x, cmul(f, m[r][j])));
+    }
+    r++;
+  }
+  return r;
+};
+
+// Eigenvalues of a real symmetric matrix by cyclic Jacobi rotations
+const symmetricEigenvalues = (a: number[][]): number[] => {
+  const m = a.map(row => [...row]);
+  const n = m.length;
+  for (let sweep = 0; sweep < 50; sweep++) {
+    let off = 0;
+    for (let p = 0; p < n; p++) for (let q = p + 1; q < n; q++) off += m[p][q] ** 2;
+    if (off < 1e-24) break;
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (m[p][q] === 0) continue;
+        // Rotation by φ with cot 2φ = θ zeroes m[p][q]
+        const theta = (m[q][q] - m[p][p]) / (2 * m[p][q]);
+        const t = (theta >= 0 ? 1 : -1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+        for (let k = 0; k < n; k++) {
+          const kp = m[k][p];
+          const kq = m[k][q];
+          m[k][p] = c * kp - s * kq;
+          m[k][q] = s * kp + c * kq;
+        }
+        for (let k = 0; k < n; k++) {
+          const pk = m[p][k];
+          const qk = m[q][k];
+          m[p][k] = c * pk - s * qk;
+          m[q][k] = s * pk + c * qk;
+        }
+      }
+    }
+  }
+  return m.map((row, i) => row[i]);
+};
+
+// Eigenvalues of a Hermitian matrix, ascending. A + iB is embedded as the
+// real symmetric [[A, −B], [B, A]], which has each eigenvalue twice.
+export const hermitianEigenvalues = (a: Matrix): number[] => {
+  const embedded = [
+    ...a.map(row => [...row.map(x => x.re), ...row.map(x => -x.im)]),
+    ...a.map(row => [...row.map(x => x.im), ...row.map(x => x.re)]),
+  ];
+  return symmetricEigenvalues(embedded).sort((x, y) => x - y).filter((_, i) => i % 2 === 0);
+};
+
+export const isHermitian = (a: Matrix, tolerance = 1e-9): boolean => mnorm(msub(a, adjoint(a))) < tolerance;
+
+export const isUnitary = (a: Matrix, tolerance = 1e-9): boolean =>
+  mnorm(msub(matmul(adjoint(a), a), identity(a.length))) < tolerance;
+
+// ⟨ψ|A|ψ⟩; real for Hermitian A
+export const expectation = (a: Matrix, psi: Vector): Complex => inner(psi, matvec(a, psi));
+
+// Matrix exponential by scaling and squaring with a truncated Taylor series
+export const expm = (a: Matrix): Matrix => {
+  const n = mnorm(a);
+  const squarings = n > 0.5 ? Math.ceil(Math.log2(n / 0.5)) : 0;
+  const scaled = mscale(a, complex(1 / Math.pow(2, squarings)));
+
+  let result = identity(a.length);
+  let term = identity(a.length);
+  for (let k = 1; k <= 16; k++) {
+    term = mscale(matmul(term, scaled), complex(1 / k));
+    result = madd(result, term);
+    if (mnorm(term) < 1e-16) break;
+  }
+  for (let s = 0; s < squarings; s++) {
+    result = matmul(result, result);
+  }
+  return result;
+};
+
+// U = exp(−i H t) for Hermitian H (ℏ = 1)
+export const unitaryFromHamiltonian = (h: Matrix, t: number): Matrix => expm(mscale(h, complex(0, -t)));
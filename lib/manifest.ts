@@ -0,0 +1,543 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { parse as parseYaml } from 'yaml';
+import {
+  AccentColor,
+  PaperManifest,
+  Reference,
+  SectionLayout,
+  TourAction,
+  VizId,
+} from '../types';
+import { checkTeX, splitMath } from './tex';
+import { parseBibtex } from './bibtex';
+import { CITATION_REF, parseCitation } from './references';
+
+export const DEFAULT_PAPER_URL = 'papers/or-theory.json';
+
+export type ManifestFormat = 'json' | 'yaml' | 'markdown';
+
+// Thrown for anything that stops a manifest from loading; `issues` lists
+// every validation problem found, each prefixed with its path.
+export class ManifestError extends Error {
+  constructor(message: string, public readonly source: string, public readonly issues: string[] = []) {
+    super(message);
+    this.name = 'ManifestError';
+  }
+}
+
+// Matches `{{term-id}}` and `{{term-id|display text}}`
+export const TERM_REF = /\{\{([\w-]+)(?:\|([^}]*))?\}\}/g;
+
+const SECTION_KINDS = ['hero', 'text-viz', 'derivation', 'glossary', 'references', 'contact'] as const;
+const LAYOUTS: SectionLayout[] = ['viz-right', 'viz-left'];
+const VIZ_IDS: VizId[] = ['operator-family', 'hilbert-space', 'integral-summation', 'collapse-threshold', 'density-matrix'];
+const ACCENTS: AccentColor[] = ['cyan', 'yellow', 'red'];
+const TOUR_ACTIONS: TourAction[] = ['section', 'caption', 'set', 'ramp', 'wait'];
+// `prefix.field`, as visualizations name their query parameters
+const PARAM_KEY = /^[a-z]+\.[A-Za-z]\w*$/;
+
+// --- FORMAT DETECTION & PARSING ---
+
+export const detectFormat = (name: string, contentType = ''): ManifestFormat => {
+  const lower = name.toLowerCase().split(/[?#]/)[0];
+  if (lower.endsWith('.yaml') || lower.endsWith('.yml') || contentType.includes('yaml')) return 'yaml';
+  if (lower.endsWith('.md') || lower.endsWith('.markdown') || contentType.includes('markdown')) return 'markdown';
+  return 'json';
+};
+
+// Markdown manifests carry the manifest as YAML front matter. Each
+// `## section-id` heading in the body supplies that section's paragraphs,
+// one per blank-line separated block.
+const parseMarkdown = (text: string, source: string): unknown => {
+  const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/);
+  if (!match) {
+    throw new ManifestError('Markdown manifest is missing its YAML front matter.', source);
+  }
+  const data = parseYaml(match[1]) as { sections?: unknown };
+  const body = match[2];
+
+  const blocks = new Map<string, string[]>();
+  let current: string | null = null;
+  let buffer: string[] = [];
+  const flush = () => {
+    if (current === null) return;
+    const paragraphs = buffer.join('\n').split(/\n\s*\n/).map(p => p.replace(/\s*\n\s*/g, ' ').trim()).filter(Boolean);
+    blocks.set(current, paragraphs);
+  };
+  for (const line of body.split(/\r?\n/)) {
+    const heading = line.match(/^##\s+([\w-]+)\s*$/);
+    if (heading) {
+      flush();
+      current = heading[1];
+      buffer = [];
+    } else {
+      buffer.push(line);
+    }
+  }
+  flush();
+
+  if (data && Array.isArray(data.sections)) {
+    data.sections = data.sections.map((section: Record<string, unknown>) =>
+      section && typeof section.id === 'string' && blocks.has(section.id)
+        ? { ...section, paragraphs: blocks.get(section.id) }
+        : section
+    );
+  }
+  return data;
+};
+
+export const parseManifestText = (text: string, format: ManifestFormat, source: string): unknown => {
+  try {
+    if (format === 'yaml') return parseYaml(text);
+    if (format === 'markdown') return parseMarkdown(text, source);
+    return JSON.parse(text);
+  } catch (err) {
+    if (err instanceof ManifestError) throw err;
+    throw new ManifestError(`Could not parse ${format.toUpperCase()}: ${(err as Error).message}`, source);
+  }
+};
+
+// --- VALIDATION ---
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// `bibliography` holds entries already read from the manifest's BibTeX
+// file; they join `references` and resolve citations like any other entry.
+export const validateManifest = (raw: unknown, source: string, bibliography: Reference[] = []): PaperManifest => {
+  const issues: string[] = [];
+
+  const str = (obj: Record<string, unknown>, key: string, path: string) => {
+    if (typeof obj[key] !== 'string' || (obj[key] as string).length === 0) {
+      issues.push(`${path}.${key}: expected a non-empty string`);
+    }
+  };
+  const oneOf = (obj: Record<string, unknown>, key: string, path: string, allowed: readonly string[]) => {
+    if (!allowed.includes(obj[key] as string)) {
+      issues.push(`${path}.${key}: expected one of ${allowed.join(', ')}`);
+    }
+  };
+  const strList = (obj: Record<string, unknown>, key: string, path: string) => {
+    const value = obj[key];
+    if (!Array.isArray(value) || value.length === 0 || value.some(v => typeof v !== 'string')) {
+      issues.push(`${path}.${key}: expected a non-empty list of strings`);
+    }
+  };
+
+  if (!isRecord(raw)) {
+    throw new ManifestError('Manifest must be an object.', source, ['(root): expected an object']);
+  }
+
+  str(raw, 'title', 'manifest');
+
+  if (isRecord(raw.author)) {
+    ['name', 'role', 'email', 'github'].forEach(key => str(raw.author as Record<string, unknown>, key, 'author'));
+  } else {
+    issues.push('author: expected an object');
+  }
+
+  const prose: { path: string; text: string }[] = [];
+  const tex: { path: string; source: string }[] = [];
+
+  const glossary = isRecord(raw.glossary) ? raw.glossary : {};
+  if (!isRecord(raw.glossary)) {
+    issues.push('glossary: expected an object keyed by term id');
+  }
+  Object.entries(glossary).forEach(([id, entry]) => {
+    if (!isRecord(entry)) {
+      issues.push(`glossary.${id}: expected an object`);
+      return;
+    }
+    ['symbol', 'title', 'tip'].forEach(key => str(entry, key, `glossary.${id}`));
+    if (typeof entry.symbol === 'string') tex.push({ path: `glossary.${id}.symbol`, source: entry.symbol });
+    if (typeof entry.tip === 'string') prose.push({ path: `glossary.${id}.tip`, text: entry.tip });
+    if (entry.related !== undefined) {
+      if (!Array.isArray(entry.related) || entry.related.some(r => typeof r !== 'string')) {
+        issues.push(`glossary.${id}.related: expected a list of term ids`);
+      } else {
+        entry.related.forEach((relatedId, i) => {
+          if (!(relatedId in glossary)) issues.push(`glossary.${id}.related[${i}]: unknown glossary term "${relatedId}"`);
+        });
+      }
+    }
+  });
+
+  const seenIds = new Set<string>();
+
+  if (!Array.isArray(raw.sections) || raw.sections.length === 0) {
+    issues.push('sections: expected a non-empty list');
+  } else {
+    raw.sections.forEach((section: unknown, idx: number) => {
+      const path = `sections[${idx}]`;
+      if (!isRecord(section)) {
+        issues.push(`${path}: expected an object`);
+        return;
+      }
+      str(section, 'id', path);
+      str(section, 'title', path);
+      if (typeof section.id === 'string') {
+        if (seenIds.has(section.id)) issues.push(`${path}.id: duplicate section id "${section.id}"`);
+        seenIds.add(section.id);
+      }
+      oneOf(section, 'kind', path, SECTION_KINDS);
+
+      switch (section.kind) {
+        case 'hero':
+          str(section, 'subtitle', path);
+          str(section, 'cta', path);
+          break;
+        case 'text-viz':
+          str(section, 'label', path);
+          oneOf(section, 'layout', path, LAYOUTS);
+          oneOf(section, 'viz', path, VIZ_IDS);
+          oneOf(section, 'accent', path, ACCENTS);
+          strList(section, 'paragraphs', path);
+          if (Array.isArray(section.paragraphs)) {
+            section.paragraphs.forEach((text, i) => prose.push({ path: `${path}.paragraphs[${i}]`, text: String(text) }));
+          }
+          if (section.callout !== undefined) {
+            if (!isRecord(section.callout)) {
+              issues.push(`${path}.callout: expected an object`);
+            } else {
+              oneOf(section.callout, 'accent', `${path}.callout`, ACCENTS);
+              strList(section.callout, 'lines', `${path}.callout`);
+              if (Array.isArray(section.callout.lines)) {
+                section.callout.lines.forEach((text, i) => prose.push({ path: `${path}.callout.lines[${i}]`, text: String(text) }));
+              }
+            }
+          }
+          break;
+        case 'derivation':
+          str(section, 'label', path);
+          str(section, 'summary', path);
+          strList(section, 'equation', path);
+          str(section, 'conclusion', path);
+          str(section, 'signoff', path);
+          ['summary', 'conclusion'].forEach(key => prose.push({ path: `${path}.${key}`, text: String(section[key] ?? '') }));
+          if (Array.isArray(section.equation)) {
+            section.equation.forEach((text, i) => prose.push({ path: `${path}.equation[${i}]`, text: String(text) }));
+          }
+          if (section.display !== undefined) {
+            strList(section, 'display', path);
+            if (Array.isArray(section.display)) {
+              section.display.forEach((source, i) => tex.push({ path: `${path}.display[${i}]`, source: String(source) }));
+            }
+          }
+          if (section.steps !== undefined) {
+            if (!Array.isArray(section.steps) || section.steps.length === 0) {
+              issues.push(`${path}.steps: expected a non-empty list`);
+            } else {
+              section.steps.forEach((step: unknown, i: number) => {
+                const stepPath = `${path}.steps[${i}]`;
+                if (!isRecord(step)) {
+                  issues.push(`${stepPath}: expected an object`);
+                  return;
+                }
+                ['tex', 'justification'].forEach(key => str(step, key, stepPath));
+                if (typeof step.tex === 'string') tex.push({ path: `${stepPath}.tex`, source: step.tex });
+                if (typeof step.justification === 'string') prose.push({ path: `${stepPath}.justification`, text: step.justification });
+                if (step.details !== undefined) {
+                  strList(step, 'details', stepPath);
+                  if (Array.isArray(step.details)) {
+                    step.details.forEach((text, j) => prose.push({ path: `${stepPath}.details[${j}]`, text: String(text) }));
+                  }
+                }
+              });
+            }
+          }
+          break;
+        case 'glossary':
+        case 'references':
+          str(section, 'label', path);
+          break;
+        case 'contact':
+          str(section, 'signoff', path);
+          break;
+      }
+
+      if (section.notes !== undefined) {
+        strList(section, 'notes', path);
+        if (Array.isArray(section.notes)) {
+          section.notes.forEach((text, i) => prose.push({ path: `${path}.notes[${i}]`, text: String(text) }));
+        }
+      }
+    });
+  }
+
+  if (raw.bibliography !== undefined) str(raw, 'bibliography', 'manifest');
+  if (raw.translations !== undefined) {
+    if (!isRecord(raw.translations)) {
+      issues.push('translations: expected an object keyed by locale');
+    } else {
+      Object.keys(raw.translations).forEach(locale => str(raw.translations as Record<string, unknown>, locale, 'translations'));
+    }
+  }
+
+  if (raw.tour !== undefined) {
+    if (!Array.isArray(raw.tour) || raw.tour.length === 0) {
+      issues.push('tour: expected a non-empty list of steps');
+    } else {
+      const duration = (step: Record<string, unknown>, path: string) => {
+        if (typeof step.duration !== 'number' || !(step.duration > 0)) issues.push(`${path}.duration: expected a positive number of seconds`);
+      };
+      const paramKey = (key: unknown, path: string) => {
+        if (typeof key !== 'string' || !PARAM_KEY.test(key)) issues.push(`${path}: expected a parameter key such as "dp.mass"`);
+      };
+      raw.tour.forEach((step: unknown, idx: number) => {
+        const path = `tour[${idx}]`;
+        if (!isRecord(step)) {
+          issues.push(`${path}: expected an object`);
+          return;
+        }
+        oneOf(step, 'action', path, TOUR_ACTIONS);
+        switch (step.action) {
+          case 'section':
+            if (typeof step.section !== 'string' || !seenIds.has(step.section)) issues.push(`${path}.section: unknown section "${String(step.section)}"`);
+            break;
+          case 'caption':
+            // Empty clears the caption
+            if (typeof step.text !== 'string') issues.push(`${path}.text: expected a string`);
+            else prose.push({ path: `${path}.text`, text: step.text });
+            break;
+          case 'set':
+            if (!isRecord(step.params) || Object.keys(step.params).length === 0) {
+              issues.push(`${path}.params: expected an object keyed by parameter`);
+            } else {
+              Object.entries(step.params).forEach(([key, value]) => {
+                paramKey(key, `${path}.params.${key}`);
+                if (typeof value !== 'string' && typeof value !== 'number') issues.push(`${path}.params.${key}: expected a string or number`);
+              });
+            }
+            break;
+          case 'ramp':
+            paramKey(step.param, `${path}.param`);
+            ['from', 'to'].forEach(key => {
+              if (typeof step[key] !== 'number' || !isFinite(step[key] as number)) issues.push(`${path}.${key}: expected a number`);
+            });
+            duration(step, path);
+            if (step.scale !== undefined) {
+              oneOf(step, 'scale', path, ['linear', 'log']);
+              if (step.scale === 'log' && !((step.from as number) > 0 && (step.to as number) > 0)) {
+                issues.push(`${path}: a log ramp needs positive endpoints`);
+              }
+            }
+            break;
+          case 'wait':
+            duration(step, path);
+            break;
+        }
+      });
+    }
+  }
+
+  const referenceIds = new Set<string>();
+  if (raw.references !== undefined) {
+    if (!Array.isArray(raw.references)) {
+      issues.push('references: expected a list');
+    } else {
+      raw.references.forEach((ref: unknown, idx: number) => {
+        const path = `references[${idx}]`;
+        if (!isRecord(ref)) {
+          issues.push(`${path}: expected an object`);
+          return;
+        }
+        ['id', 'title'].forEach(key => str(ref, key, path));
+        strList(ref, 'authors', path);
+        if (typeof ref.year !== 'number' || !Number.isInteger(ref.year)) issues.push(`${path}.year: expected a whole number`);
+        ['journal', 'volume', 'issue', 'pages', 'doi', 'url'].forEach(key => {
+          if (ref[key] !== undefined) str(ref, key, path);
+        });
+        if (typeof ref.id === 'string') {
+          if (referenceIds.has(ref.id)) issues.push(`${path}.id: duplicate reference id "${ref.id}"`);
+          referenceIds.add(ref.id);
+        }
+      });
+    }
+  }
+  bibliography.forEach(ref => {
+    if (referenceIds.has(ref.id)) issues.push(`bibliography: entry "${ref.id}" is already defined`);
+    referenceIds.add(ref.id);
+  });
+
+  // Every inline term reference must resolve to a glossary entry, every
+  // citation to a reference, and all math must typeset
+  prose.forEach(({ path, text }) => {
+    for (const match of text.matchAll(TERM_REF)) {
+      if (!(match[1] in glossary)) {
+        issues.push(`${path}: unknown glossary term "${match[1]}"`);
+      }
+    }
+    for (const match of text.matchAll(CITATION_REF)) {
+      parseCitation(match[1]).forEach(({ key }) => {
+        if (!key) issues.push(`${path}: malformed citation "${match[0]}"`);
+        else if (!referenceIds.has(key)) issues.push(`${path}: unknown reference "${key}"`);
+      });
+    }
+    splitMath(text).forEach(segment => {
+      if (segment.type === 'math') tex.push({ path, source: segment.value });
+    });
+  });
+  tex.forEach(({ path, source }) => {
+    const error = checkTeX(source);
+    if (error) issues.push(`${path}: invalid TeX (${error})`);
+  });
+
+  if (issues.length > 0) {
+    throw new ManifestError(`Manifest failed validation with ${issues.length} issue${issues.length === 1 ? '' : 's'}.`, source, issues);
+  }
+
+  const manifest = raw as unknown as PaperManifest;
+  return bibliography.length > 0 ? { ...manifest, references: [...(manifest.references ?? []), ...bibliography] } : manifest;
+};
+
+// --- TRANSLATION ---
+
+// Fields that say what a section is rather than what it says
+const UNTRANSLATABLE = new Set(['id', 'kind', 'layout', 'viz', 'accent', 'related', 'action', 'section', 'param', 'params', 'scale']);
+const TRANSLATABLE_ROOT = ['title', 'author', 'glossary', 'sections', 'tour'];
+
+// Strings replace strings, objects merge key by key and lists merge item
+// by item, so a step's justification can be translated without repeating
+// its TeX
+const mergeTranslated = (base: unknown, overlay: unknown, path: string, issues: string[]): unknown => {
+  if (overlay === undefined || overlay === null) return base;
+  if (Array.isArray(base) && Array.isArray(overlay)) {
+    return base.map((item, i) => mergeTranslated(item, overlay[i], `${path}[${i}]`, issues));
+  }
+  if (isRecord(base) && isRecord(overlay)) {
+    const merged: Record<string, unknown> = { ...base };
+    Object.entries(overlay).forEach(([key, value]) => {
+      if (value === undefined) return;
+      if (UNTRANSLATABLE.has(key)) issues.push(`${path}.${key}: cannot be translated`);
+      else if (!(key in base)) issues.push(`${path}.${key}: not in the manifest`);
+      else merged[key] = mergeTranslated(base[key], value, `${path}.${key}`, issues);
+    });
+    return merged;
+  }
+  if (typeof base === 'string' && typeof overlay === 'string') return overlay;
+  issues.push(`${path}: expected ${Array.isArray(base) ? 'a list' : typeof base === 'string' ? 'a string' : 'an object'}`);
+  return base;
+};
+
+// The raw manifest with a translation overlay applied; validation of the
+// result catches broken term references and TeX in the translated prose
+export const applyTranslation = (raw: unknown, overlay: unknown, source: string): unknown => {
+  if (!isRecord(raw)) return raw;
+  if (!isRecord(overlay)) {
+    throw new ManifestError('Translation must be an object.', source, ['(root): expected an object']);
+  }
+  const issues: string[] = [];
+  Object.keys(overlay).forEach(key => {
+    if (!TRANSLATABLE_ROOT.includes(key)) issues.push(`translation.${key}: cannot be translated`);
+  });
+  const { title, author, glossary, tour, sections: sectionOverlays } = overlay;
+  const translated = mergeTranslated(raw, { title, author, glossary, tour }, 'translation', issues) as Record<string, unknown>;
+
+  if (sectionOverlays !== undefined && !isRecord(sectionOverlays)) {
+    issues.push('translation.sections: expected an object keyed by section id');
+  }
+  const byId = isRecord(sectionOverlays) ? sectionOverlays : {};
+  const sections = Array.isArray(raw.sections) ? raw.sections : [];
+  Object.keys(byId).forEach(id => {
+    if (!sections.some(section => isRecord(section) && section.id === id)) issues.push(`translation.sections.${id}: unknown section`);
+  });
+  translated.sections = sections.map(section =>
+    isRecord(section) && typeof section.id === 'string' && section.id in byId
+      ? mergeTranslated(section, byId[section.id], `translation.sections.${section.id}`, issues)
+      : section);
+
+  if (issues.length > 0) {
+    throw new ManifestError(`Translation failed validation with ${issues.length} issue${issues.length === 1 ? '' : 's'}.`, source, issues);
+  }
+  return translated;
+};
+
+// --- LOADING ---
+
+export const getPaperUrl = (): string => {
+  const param = new URLSearchParams(window.location.search).get('paper');
+  return param && param.trim() ? param.trim() : DEFAULT_PAPER_URL;
+};
+
+// Where a shared link should point: the page plus the paper it shows
+export const getPageUrl = (): string => {
+  const url = new URL(window.location.pathname, window.location.origin);
+  const param = new URLSearchParams(window.location.search).get('paper');
+  if (param) url.searchParams.set('paper', param);
+  return url.toString();
+};
+
+// Fetches and parses the BibTeX file a manifest names, relative to the
+// manifest's own URL
+const loadBibliography = async (raw: unknown, base: string): Promise<Reference[]> => {
+  if (!isRecord(raw) || typeof raw.bibliography !== 'string' || !raw.bibliography) return [];
+  const url = new URL(raw.bibliography, new URL(base, window.location.href)).toString();
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (err) {
+    throw new ManifestError(`Could not fetch bibliography: ${(err as Error).message}`, url);
+  }
+  if (!response.ok) {
+    throw new ManifestError(`Could not fetch bibliography: HTTP ${response.status}`, url);
+  }
+  try {
+    return parseBibtex(await response.text());
+  } catch (err) {
+    throw new ManifestError('Could not parse bibliography.', url, [(err as Error).message]);
+  }
+};
+
+// The overlay for the first locale in `chain` the manifest translates to
+const loadTranslation = async (raw: unknown, base: string, chain: string[]): Promise<unknown> => {
+  if (!isRecord(raw) || !isRecord(raw.translations)) return raw;
+  const translations = raw.translations;
+  const locale = chain.find(id => typeof translations[id] === 'string');
+  if (!locale) return raw;
+  const url = new URL(translations[locale] as string, new URL(base, window.location.href)).toString();
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (err) {
+    throw new ManifestError(`Could not fetch translation: ${(err as Error).message}`, url);
+  }
+  if (!response.ok) {
+    throw new ManifestError(`Could not fetch translation: HTTP ${response.status}`, url);
+  }
+  const overlay = parseManifestText(await response.text(), detectFormat(url, response.headers.get('content-type') ?? ''), url);
+  return applyTranslation(raw, overlay, url);
+};
+
+// `locales` is the reader's fallback chain, most specific first
+export const loadManifestFromUrl = async (url: string, locales: string[] = []): Promise<PaperManifest> => {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (err) {
+    throw new ManifestError(`Could not fetch manifest: ${(err as Error).message}`, url);
+  }
+  if (!response.ok) {
+    throw new ManifestError(`Could not fetch manifest: HTTP ${response.status}`, url);
+  }
+  const text = await response.text();
+  const format = detectFormat(url, response.headers.get('content-type') ?? '');
+  const raw = parseManifestText(text, format, url);
+  const [translated, bibliography] = await Promise.all([loadTranslation(raw, url, locales), loadBibliography(raw, url)]);
+  return validateManifest(translated, url, bibliography);
+};
+
+export const loadManifestFromFile = async (file: File, locales: string[] = []): Promise<PaperManifest> => {
+  const text = await file.text();
+  const raw = parseManifestText(text, detectFormat(file.name, file.type), file.name);
+  // A local file has no URL of its own; its bibliography and translations
+  // resolve against the page
+  const [translated, bibliography] = await Promise.all([
+    loadTranslation(raw, window.location.href, locales),
+    loadBibliography(raw, window.location.href),
+  ]);
+  return validateManifest(translated, file.name, bibliography);
+};
@@ -0,0 +1,367 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// The English message catalog. It is bundled, so it is always available
+// and ends every fallback chain; `public/locales/<id>.json` files translate
+// any subset of these keys. `{name}` is replaced by the value passed for
+// `name`; a message with plural forms picks one by `{count}`.
+
+export type PluralForms = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+export type Message = string | PluralForms;
+
+export const EN_MESSAGES = {
+  // --- PAGE CHROME ---
+  'nav.previous': 'Previous section',
+  'nav.next': 'Next section',
+  'nav.sections': 'Sections',
+  'nav.present': 'Start presentation',
+  'nav.presentTitle': 'Present (arrow keys, space, clicker; Esc to exit)',
+  'nav.print': 'Export for print or PDF',
+  'nav.printTitle': 'Print / PDF',
+  'nav.capture': 'Capture figures',
+  'nav.captureTitle': 'Capture PNG / SVG / video',
+  'nav.motion': 'Reduce motion',
+  'nav.motionSystem': 'Reduce motion (following system setting)',
+  'nav.theme': 'Theme: {current}. Switch to {next}',
+  'nav.themeTitle': 'Theme: {current} (next: {next})',
+  'nav.quality': 'Background quality: {current}. Switch to {next}',
+  'nav.qualityTitle': '3D quality: {current} (next: {next})',
+  'nav.language': 'Language: {current}. Switch to {next}',
+  'nav.languageTitle': 'Language: {current} (next: {next})',
+
+  'nav.annotations': 'Annotations',
+  'nav.annotationsTitle': {
+    one: 'Highlights and notes ({count} thread)',
+    other: 'Highlights and notes ({count} threads)',
+  },
+  'nav.tour': 'Play guided tour',
+  'nav.tourTitle': 'Guided tour (Esc to exit)',
+
+  'manifest.loading': 'Loading Manifest',
+  'manifest.error': 'Manifest Error',
+  'manifest.source': 'SOURCE: {source}',
+  'manifest.loadLocal': 'Load Local Manifest',
+
+  'theme.cyber': 'CYBER',
+  'theme.journal': 'JOURNAL',
+  'theme.high-contrast': 'HIGH CONTRAST',
+  'quality.auto': 'AUTO',
+  'quality.autoTier': 'AUTO ({tier})',
+  'quality.low': 'LOW',
+  'quality.medium': 'MEDIUM',
+  'quality.high': 'HIGH',
+
+  // --- CAPTURE ---
+  'capture.dialog': 'Figure capture',
+  'capture.title': 'CAPTURE',
+  'capture.close': 'Close capture panel',
+  'capture.resolution': 'Resolution',
+  'capture.width': 'Width in pixels',
+  'capture.height': 'Height in pixels',
+  'capture.pixels': 'px',
+  'capture.recording': 'Recording',
+  'capture.seconds': 's',
+  'capture.fps': '{fps} fps',
+  'capture.webm': 'WEBM',
+  'capture.pngFrames': 'PNG FRAMES (.zip)',
+  'capture.scenes': '3D Scenes',
+  'capture.noScene': 'No 3D scene is mounted.',
+  'capture.gpuLimit': 'GPU limit is {size}px per side',
+  'capture.png': 'PNG',
+  'capture.record': 'REC',
+  'capture.recordingOf': '{id} recording',
+  'capture.diagrams': 'Diagrams',
+  'capture.svg': 'SVG',
+  'capture.missingDiagram': 'diagram is not on the page',
+  'capture.saved': '> Saved {name}.',
+  'capture.failed': '> Capture failed: {error}',
+  'capture.note': 'Recordings step the scene clock exactly 1/fps per frame, so repeated captures match frame for frame.',
+
+  // --- PRESENTATION ---
+  'present.blanked': 'Screen blanked',
+  'present.previous': 'Previous step',
+  'present.next': 'Next step',
+  'present.openPresenter': 'Open presenter window',
+  'present.exit': 'Exit presentation',
+  'present.presenter': 'Presenter',
+  'present.elapsed': 'Elapsed',
+  'present.pauseTimer': 'Pause timer',
+  'present.resumeTimer': 'Resume timer',
+  'present.resetTimer': 'Reset timer',
+  'present.clock': 'Clock',
+  'present.unsupported': 'This browser has no BroadcastChannel; the presenter window cannot follow the slides.',
+  'present.waiting': '> Waiting for the presentation window. Start presentation mode there and keep this window open.',
+  'present.slide': 'Slide {slide} / {total}',
+  'present.step': 'step {step} / {total}',
+  'present.screenBlanked': 'SCREEN BLANKED',
+  'present.noNotes': 'No speaker notes for this slide.',
+  'present.end': 'End of presentation',
+  'present.nextStep': 'Next: step {step}',
+  'present.nextSlide': 'Next: {title}',
+  'present.prevButton': 'PREV',
+  'present.nextButton': 'NEXT',
+  'present.blankButton': 'BLANK',
+
+  // --- PRINT ---
+  'print.back': 'BACK TO PAPER',
+  'print.preview': 'Print preview · figures captured {time}',
+  'print.print': 'PRINT / SAVE PDF',
+  'print.exported': 'Exported {date}. Figures show the interactive visualizations as they were at export time.',
+  'print.snapshotMissing': 'Snapshot unavailable.',
+  'print.figure': 'Figure {number}.',
+  'print.references': 'References',
+  'print.glossary': 'Appendix A: Glossary',
+
+  // --- NARRATIVE ---
+  'viz.operator-family': 'Operator family acting on a four-level state',
+  'viz.hilbert-space': 'Bloch sphere of the simulated qubit register',
+  'viz.integral-summation': 'Quadrature of the vacuum-energy integral',
+  'viz.collapse-threshold': 'Diósi–Penrose reduction time against separation',
+  'viz.density-matrix': 'Density matrix of a superposition under decoherence',
+  'viz.running': 'running',
+  'viz.paused': 'paused',
+
+  'derivation.final': 'Final Derivation',
+  'derivation.conclusion': 'CONCLUSION',
+  'derivation.step': 'Step {current} / {total}',
+  'derivation.first': 'First step',
+  'derivation.previous': 'Previous step',
+  'derivation.next': 'Next step',
+  'derivation.goto': 'Step {step}',
+  'derivation.changed': 'changed since step {step}',
+  'derivation.substitution': 'Substitution',
+  'derivation.summary': 'Step {current} of {total}.',
+  'derivation.summaryChanged': {
+    one: 'Step {current} of {total}, {count} term changed from the previous step.',
+    other: 'Step {current} of {total}, {count} terms changed from the previous step.',
+  },
+
+  'glossary.definition': 'DEFINITION',
+  'glossary.seeAlso': 'See also',
+  'glossary.usedIn': 'Used in',
+  'glossary.unknownSection': 'UNKNOWN',
+
+  'citation.reference': 'REFERENCE [{number}]',
+  'citation.citedAt': 'Cited at {locator}.',
+  'cite.title': 'Cite this page',
+  'cite.copyLabel': 'Copy citation',
+  'cite.copy': 'COPY',
+  'cite.copied': 'COPIED',
+
+  // --- ANNOTATIONS ---
+  'annotations.title': 'Annotations',
+  'annotations.close': 'Close annotations',
+  'annotations.export': 'EXPORT',
+  'annotations.import': 'IMPORT',
+  'annotations.imported': {
+    one: '> Imported {count} annotation.',
+    other: '> Imported {count} annotations.',
+  },
+  'annotations.importFailed': '> Import failed: {message}',
+  'annotations.author': 'Your name',
+  'annotations.anonymous': 'Anonymous',
+  'annotations.on': 'On {section}',
+  'annotations.pin': 'Pin to the current visualization state',
+  'annotations.comment': 'Add a comment…',
+  'annotations.save': 'SAVE',
+  'annotations.discard': 'Discard selection',
+  'annotations.reply': 'Reply…',
+  'annotations.send': 'REPLY',
+  'annotations.deleteThread': 'Delete thread',
+  'annotations.deleteReply': 'Delete reply',
+  'annotations.restore': 'RESTORE',
+  'annotations.restoreTitle': 'Load these parameters into the visualization',
+  'annotations.defaults': 'default parameters',
+  'annotations.missing': 'This text is no longer in the section.',
+  'annotations.annotate': 'Annotate',
+  'annotations.empty': 'Select text in any section to highlight it, or pin a note to a visualization.',
+  'annotations.stored': 'Kept in this browser. Export to share with other reviewers.',
+
+  'tour.title': 'Guided tour',
+  'tour.play': 'Play tour',
+  'tour.pause': 'Pause tour',
+  'tour.restart': 'Restart tour',
+  'tour.position': 'Tour position',
+  'tour.time': '{current} / {total} s',
+  'tour.exit': 'Exit tour',
+
+  // --- OPERATOR FAMILY ---
+  'operator.heading': 'SIMULATION.STATE',
+  'operator.status': 'STATUS: |Ψ⟩',
+  'operator.amplitudes': 'Amplitudes c_k',
+  'operator.name.E': 'DYNAMICAL',
+  'operator.name.C': 'VACUUM',
+  'operator.name.X': 'CHIRAL',
+  'operator.name.G': 'GRAVITY',
+  'operator.parameters': 'Real-time Parameters',
+  'operator.pause': 'Pause evolution',
+  'operator.resume': 'Resume evolution',
+  'operator.reset': 'Reset state',
+  'operator.distortion': 'DISTORTION_FIELD',
+  'operator.flux': 'TEMPORAL_FLUX',
+  'operator.summary': 'Four-level state evolving under the {generators} generators, {status} at t = {time}. Level populations {populations}; energy {energy}, mean level {level}.',
+  'operator.composition': 'Composition Π',
+  'operator.orderMatters': 'ORDER MATTERS',
+  'operator.orderFree': 'ORDER-FREE',
+  'operator.moveLeft': 'Move {operator} left',
+  'operator.moveRight': 'Move {operator} right',
+  'operator.alpha': 'α of factor {index}, {operator}',
+  'operator.remove': 'Remove {operator}',
+  'operator.add': 'Apply {operator} after the current product',
+  'operator.matrix': 'Composite matrix Π',
+  'operator.annihilated': 'Π|Ψ⟩ = 0 :: STATE ANNIHILATED',
+  'operator.kernel': 'Π annihilates a {count}-dim subspace',
+  'operator.invertible': 'Π is invertible',
+  'operator.apply': 'APPLY',
+  'operator.applyTitle': 'Replace |Ψ⟩ by Π|Ψ⟩ / ‖Π|Ψ⟩‖',
+  'operator.summaryAnnihilated': 'Composition {product} annihilates the state.',
+  'operator.summaryKept': 'Composition {product} keeps {survival} of its norm squared.',
+  'operator.summaryFree': 'Four-level state evolving under no generators, {status} at t = {time}. Level populations {populations}; energy {energy}, mean level {level}.',
+
+  // --- HILBERT SPACE ---
+  'bloch.heading': 'HILBERT.SPACE',
+  'bloch.pause': 'Pause precession',
+  'bloch.resume': 'Resume precession',
+  'bloch.reset': 'Reset state',
+  'bloch.hint': 'DRAG STATE · ORBIT VIEW',
+  'bloch.qubits': 'Qubits',
+  'bloch.hamiltonian': 'Hamiltonian',
+  'bloch.axis.x': 'x axis',
+  'bloch.axis.y': 'y axis',
+  'bloch.axis.z': 'z axis',
+  'bloch.axis.tilted': 'tilted axis (x + z)/√2',
+  'bloch.frequency': 'LARMOR_FREQUENCY',
+  'bloch.coupling': 'ZZ_COUPLING',
+  'bloch.summary': {
+    one: 'One qubit precessing about the {axis} at ω = {omega}, {status} at t = {time}.',
+    other: '{count} qubits precessing about the {axis} at ω = {omega} with ZZ coupling J = {coupling}, {status} at t = {time}.',
+  },
+  'bloch.summaryQubit': 'Qubit {index}: polar angle {theta}, azimuth {phi}, Bloch length {length}.',
+  'bloch.summaryEntangled': 'Qubit {index}: polar angle {theta}, azimuth {phi}, Bloch length {length}, entangled with the others.',
+
+  // --- INTEGRAL SUMMATION ---
+  'integral.heading': 'Integral.Process',
+  'integral.partitions': 'N_PARTITION:',
+  'integral.integrand.damped-sine': 'DAMPED SINE',
+  'integral.integrand.vacuum': 'δE_VAC',
+  'integral.integrand.gaussian': 'GAUSSIAN',
+  'integral.integrand.cubic': 'CUBIC',
+  'integral.integrandName.damped-sine': 'a damped sine',
+  'integral.integrandName.vacuum': 'the vacuum-energy Lorentzian',
+  'integral.integrandName.gaussian': 'a Gaussian',
+  'integral.integrandName.cubic': 'a cubic',
+  'integral.rule.left': 'LEFT',
+  'integral.rule.right': 'RIGHT',
+  'integral.rule.midpoint': 'MIDPOINT',
+  'integral.rule.trapezoid': 'TRAPEZOID',
+  'integral.rule.simpson': 'SIMPSON',
+  'integral.ruleName.left': 'Left Riemann sum',
+  'integral.ruleName.right': 'Right Riemann sum',
+  'integral.ruleName.midpoint': 'Midpoint rule',
+  'integral.ruleName.trapezoid': 'Trapezoid rule',
+  'integral.ruleName.simpson': 'Simpson\'s rule',
+  'integral.order': 'Error O(h^{order})',
+  'integral.plot': {
+    one: '{rule} with {count} panel',
+    other: '{rule} with {count} panels',
+  },
+  'integral.previous': 'Previous N',
+  'integral.next': 'Next N',
+  'integral.play': 'Play',
+  'integral.pause': 'Pause',
+  'integral.partitionsLabel': 'Number of partitions',
+  'integral.exact': 'EXACT I',
+  'integral.convergence': 'CONVERGENCE',
+  'integral.sum': 'SUM',
+  'integral.integral': 'INTEGRAL',
+  'integral.summary': {
+    one: '{rule} with {count} panel approximates the integral of {integrand} from {a} to {b} as {sum} against the exact {exact}, an error of {error}.',
+    other: '{rule} with {count} panels approximates the integral of {integrand} from {a} to {b} as {sum} against the exact {exact}, an error of {error}.',
+  },
+
+  // --- COLLAPSE CHART ---
+  'collapse.title': 'Condition Check',
+  'collapse.imminent': 'COLLAPSE_IMMINENT',
+  'collapse.stable': 'STATE_STABLE',
+  'collapse.mass': 'MASS M',
+  'collapse.separation': 'SEPARATION d',
+  'collapse.radius': 'RADIUS R',
+  'collapse.constituentRadius': 'CONSTITUENT RADIUS r',
+  'collapse.coherence': 'COHERENCE τc',
+  'collapse.timescale': 'Timescale τ_OR = ℏ/E_G',
+  'collapse.axisSeparation': 'separation d [m]',
+  'collapse.axisTau': 'τ_OR [s]',
+  'collapse.limit': 'LIMIT: τc',
+  'collapse.alert': '> SYSTEM ALERT: τ_OR ≤ τc, superposition reduces.',
+  'collapse.status': '> SYSTEM STATUS: Self-energy insufficient, τ_OR > τc.',
+  'collapse.distribution.uniform-sphere': 'Solid sphere of uniform density.',
+  'collapse.distribution.spherical-shell': 'Thin spherical shell; all mass at the radius.',
+  'collapse.distribution.point-masses': 'Mass split into nucleon-sized constituents of the given radius.',
+  'collapse.distribution.crystal-lattice': 'Carbon crystal: mass concentrated in nuclei on a lattice.',
+  'collapse.summaryReduces': '{distribution} Mass {mass}, separation {separation}: self-energy {energy} gives τ_OR = {tau}, within the coherence time of {coherence}, so the superposition reduces.',
+  'collapse.summarySurvives': '{distribution} Mass {mass}, separation {separation}: self-energy {energy} gives τ_OR = {tau}, longer than the coherence time of {coherence}, so the superposition survives.',
+
+  'phase.title': 'Phase diagram',
+  'phase.computing': 'COMPUTING {percent}',
+  'phase.failed': 'SWEEP FAILED',
+  'phase.collapse': 'COLLAPSE-DOMINATED τ_OR ≤ τc',
+  'phase.decoherence': 'DECOHERENCE-DOMINATED τ_OR > τc',
+  'phase.hint': 'Hover for values, click to load a point.',
+  'phase.summary': 'Phase diagram of {y} against {x}: {share} of the plane is collapse-dominated.',
+  'phase.axis.mass': 'mass M',
+  'phase.axis.separation': 'separation d',
+  'phase.axis.radius': 'radius R',
+  'phase.axis.coherenceTime': 'coherence τc',
+
+  'mc.title': 'Stochastic Reduction',
+  'mc.weight': 'BORN WEIGHT |c₀|²',
+  'mc.seed': 'SEED',
+  'mc.run': 'RUN {count} TRIALS',
+  'mc.running': 'RUNNING… {percent}',
+  'mc.cancel': 'CANCEL',
+  'mc.model.penrose-or': 'Exponential waiting time with mean τ_OR = ℏ/E_G.',
+  'mc.model.grw': 'Poisson localization hits, λ = 10⁻¹⁶ s⁻¹ per nucleon, r_C = 100 nm.',
+  'mc.model.csl': 'Continuous spontaneous localization; weight diffuses to 0 or 1.',
+  'mc.failed': 'RUN FAILED',
+  'mc.axisTime': 'collapse time t / τ   (τ = {tau})',
+  'mc.axisTrials': 'trials',
+  'mc.bornRule': 'Born rule',
+  'mc.sampleMean': '⟨t⟩ sample',
+  'mc.theoryMean': '⟨t⟩ theory',
+  'mc.seedLabel': 'seed',
+  'mc.summary': '{count} {model} trials with seed {seed}: {share} reduced to |L⟩ against a Born weight of {weight}, with a mean collapse time of {mean}.',
+
+  // --- DECOHERENCE ---
+  'density.title': 'Decoherence',
+  'density.heatmap': 'HEATMAP',
+  'density.cityscape': 'CITYSCAPE',
+  'density.equation': '(A3) LINDBLAD_MASTER_EQUATION',
+  'density.cityscapeLabel': '|ρ_jk| as bar heights',
+  'density.channelLabel.dephasing': 'DEPHASING',
+  'density.channelLabel.amplitude-damping': 'DAMPING',
+  'density.channelLabel.gravitational': 'GRAVITY OR',
+  'density.channel.dephasing': 'Environmental phase noise; every coherence decays at the same rate.',
+  'density.channel.amplitude-damping': 'Energy loss to the environment; populations cascade down to |0⟩.',
+  'density.channel.gravitational': 'Diósi–Penrose reduction; coherences decay at E_G/ℏ of their separation.',
+  'density.spacing': 'POSITION SPACING d',
+  'density.play': 'Play decoherence',
+  'density.pause': 'Pause decoherence',
+  'density.restart': 'Restart from the pure state',
+  'density.time': 'Time in units of τ',
+  'density.timeValue': 't = {time} τ',
+  'density.purity': 'PURITY Tr(ρ²)',
+  'density.entropy': 'ENTROPY S(ρ)',
+  'density.entropyMax': 'max ln 4 = {max}',
+  'density.tauEnvironment': 'set by the environment',
+  'density.tauGravity': 'τ_OR = ℏ/E_G at spacing d',
+  'density.axisTime': 'time t / τ',
+  'density.axisValue': 'Tr(ρ²), S(ρ) [nats]',
+  'density.note.dephasing': '> ENVIRONMENT: every coherence decays at one rate γ, whatever the mass or distance; only the coupling sets it.',
+  'density.note.amplitude-damping': '> ENVIRONMENT: energy leaks out, so populations fall to |0⟩ and the state ends pure again; entropy rises, then falls.',
+  'density.note.gravitational': '> OBJECTIVE REDUCTION: no environment; each coherence decays at E_G/ℏ of its separation, so distant branches go first and τ follows the mass.',
+  'density.summary': '{channel} At t = {time} τ the purity Tr(ρ²) is {purity} and the von Neumann entropy {entropy} nats.',
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof EN_MESSAGES;
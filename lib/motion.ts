@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Global reduced-motion mode. 'system' follows prefers-reduced-motion;
+// an explicit choice is remembered across visits.
+
+export type MotionPreference = 'system' | 'reduce' | 'full';
+
+const STORAGE_KEY = 'motion-preference';
+const PREFERENCES: MotionPreference[] = ['system', 'reduce', 'full'];
+
+const systemQuery = window.matchMedia('(prefers-reduced-motion: reduce)');
+
+const readStored = (): MotionPreference => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return PREFERENCES.find(p => p === stored) ?? 'system';
+  } catch {
+    return 'system';
+  }
+};
+
+let preference = readStored();
+const listeners = new Set<() => void>();
+
+const emit = () => listeners.forEach(listener => listener());
+
+export const getMotionPreference = () => preference;
+
+export const setMotionPreference = (next: MotionPreference) => {
+  preference = next;
+  try {
+    if (next === 'system') localStorage.removeItem(STORAGE_KEY);
+    else localStorage.setItem(STORAGE_KEY, next);
+  } catch {
+    // Storage can be unavailable (private mode); the choice lasts the session
+  }
+  emit();
+};
+
+export const isMotionReduced = () => (preference === 'system' ? systemQuery.matches : preference === 'reduce');
+
+export const subscribeMotion = (listener: () => void) => {
+  listeners.add(listener);
+  if (listeners.size === 1) systemQuery.addEventListener('change', emit);
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) systemQuery.removeEventListener('change', emit);
+  };
+};
+
+export const scrollBehavior = (): ScrollBehavior => (isMotionReduced() ? 'auto' : 'smooth');
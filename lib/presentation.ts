@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { NarrativeSection } from '../types';
+import { getPaperUrl } from './manifest';
+
+// Presentation mode: every section is a slide, and a slide's fragments
+// (paragraphs, callouts, derivation steps) are revealed one per step.
+// Step 0 shows only the slide's fixed content.
+
+export interface SlidePosition {
+  slide: number;
+  step: number;
+}
+
+export const fragmentCount = (section: NarrativeSection): number => {
+  switch (section.kind) {
+    case 'text-viz':
+      return section.paragraphs.length + (section.callout ? 1 : 0);
+    case 'derivation':
+      // equation, each display equation, each derivation step, conclusion
+      return 2 + (section.display?.length ?? 0) + (section.steps?.length ?? 0);
+    default:
+      return 0;
+  }
+};
+
+// Forward reveals the next fragment, then moves on; backward hides the
+// last fragment, then returns to the previous slide fully revealed.
+export const advance = (sections: NarrativeSection[], { slide, step }: SlidePosition, direction: 1 | -1): SlidePosition => {
+  if (direction === 1) {
+    if (step < fragmentCount(sections[slide])) return { slide, step: step + 1 };
+    return slide < sections.length - 1 ? { slide: slide + 1, step: 0 } : { slide, step };
+  }
+  if (step > 0) return { slide, step: step - 1 };
+  return slide > 0 ? { slide: slide - 1, step: fragmentCount(sections[slide - 1]) } : { slide, step };
+};
+
+// --- KEYBOARD & CLICKERS ---
+// Presenter clickers send PageUp/PageDown, and usually "b" or "." to blank
+// the screen.
+
+export type SlideAction = 'next' | 'prev' | 'first' | 'last' | 'blank' | 'exit';
+
+const KEY_ACTIONS: Record<string, SlideAction> = {
+  ArrowRight: 'next',
+  ArrowDown: 'next',
+  PageDown: 'next',
+  ' ': 'next',
+  Enter: 'next',
+  ArrowLeft: 'prev',
+  ArrowUp: 'prev',
+  PageUp: 'prev',
+  Backspace: 'prev',
+  Home: 'first',
+  End: 'last',
+  b: 'blank',
+  B: 'blank',
+  '.': 'blank',
+  Escape: 'exit',
+};
+
+export const slideActionFor = (event: KeyboardEvent): SlideAction | null => {
+  if (event.altKey || event.ctrlKey || event.metaKey) return null;
+  const target = event.target as HTMLElement | null;
+  if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return null;
+  const action = KEY_ACTIONS[event.key] ?? null;
+  // Space on a focused button should press it, not advance
+  if (action === 'next' && event.key !== 'PageDown' && target?.tagName === 'BUTTON') return null;
+  return action;
+};
+
+// --- PRESENTER WINDOW ---
+// The presenter window is this page with `?presenter`; both windows talk
+// over a BroadcastChannel scoped to the paper, with the audience window as
+// the source of truth.
+
+export type PresentationMessage =
+  | { type: 'state'; position: SlidePosition; blanked: boolean }
+  | { type: 'navigate'; action: Exclude<SlideAction, 'exit'> }
+  | { type: 'goto'; slide: number }
+  | { type: 'sync-request' }
+  | { type: 'ended' };
+
+export const isPresenterWindow = (): boolean => new URLSearchParams(window.location.search).has('presenter');
+
+export const presenterUrl = (): string => {
+  const url = new URL(window.location.href);
+  url.searchParams.set('presenter', '');
+  url.hash = '';
+  return url.href;
+};
+
+export const openPresentationChannel = (): BroadcastChannel | null =>
+  typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(`presentation:${getPaperUrl()}`);
@@ -0,0 +1,26 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { INTEGRANDS, Integrand, IntegrandId, RULES, integrate } from './quadrature';
+
+const integrand = (id: IntegrandId) => INTEGRANDS.find(entry => entry.id === id)!;
+
+// Smooth with different end values: on the damped sine, vacuum and Gaussian
+// integrands f(a) = f(b), so the left and right sums equal the trapezoid rule
+const exponential: Integrand = { ...integrand('cubic'), tex: 'e^x', f: Math.exp, domain: [0, 1], exact: Math.E - 1 };
+
+describe('integrate', () => {
+  it('is exact for Simpson on the cubic', () => {
+    const cubic = integrand('cubic');
+    [2, 4, 10].forEach(n => expect(integrate(cubic, 'simpson', n)).toBeCloseTo(cubic.exact, 12));
+  });
+
+  // Doubling the panels divides the error by 2^order on a smooth integrand
+  it.each(RULES.map(({ id, order }) => [id, order] as const))('converges for %s at order %i', (rule, order) => {
+    const error = (n: number) => Math.abs(integrate(exponential, rule, n) - exponential.exact);
+    expect(Math.log2(error(16) / error(32))).toBeCloseTo(order, 0);
+  });
+});
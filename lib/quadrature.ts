@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Numerical quadrature on a uniform partition of [a, b] into N panels
+
+export type QuadratureRule = 'left' | 'right' | 'midpoint' | 'trapezoid' | 'simpson';
+
+export type IntegrandId = 'damped-sine' | 'vacuum' | 'gaussian' | 'cubic';
+
+export interface Integrand {
+  id: IntegrandId;
+  tex: string;      // integrand body
+  variable: string; // TeX name of the integration variable
+  f: (x: number) => number;
+  domain: [number, number];
+  exact: number;
+}
+
+export const RULES: { id: QuadratureRule; order: number }[] = [
+  { id: 'left', order: 1 },
+  { id: 'right', order: 1 },
+  { id: 'midpoint', order: 2 },
+  { id: 'trapezoid', order: 2 },
+  { id: 'simpson', order: 4 },
+];
+
+export const INTEGRANDS: Integrand[] = [
+  {
+    id: 'damped-sine',
+    tex: '\\sin(2\\pi x)\\,e^{-2x}',
+    variable: 'x',
+    f: x => Math.sin(2 * Math.PI * x) * Math.exp(-2 * x),
+    domain: [0, 1],
+    // ∫ e^{ax} sin(bx) = e^{ax}(a sin bx − b cos bx)/(a² + b²), a = −2, b = 2π
+    exact: (2 * Math.PI * (1 - Math.exp(-2))) / (4 + 4 * Math.PI * Math.PI),
+  },
+  {
+    id: 'vacuum',
+    // δEvac(α) as a Lorentzian: vanishes as |α| grows, finite integral
+    tex: '\\frac{1}{1+\\alpha^2}',
+    variable: '\\alpha',
+    f: x => 1 / (1 + x * x),
+    domain: [-5, 5],
+    exact: 2 * Math.atan(5),
+  },
+  {
+    id: 'gaussian',
+    tex: 'e^{-x^2}',
+    variable: 'x',
+    f: x => Math.exp(-x * x),
+    domain: [-2, 2],
+    exact: 1.7641627815248431, // √π erf(2)
+  },
+  {
+    id: 'cubic',
+    tex: 'x^3 - x',
+    variable: 'x',
+    f: x => x ** 3 - x,
+    domain: [0, 2],
+    exact: 2,
+  },
+];
+
+// Simpson needs an even number of panels
+export const effectivePanels = (rule: QuadratureRule, n: number): number =>
+  rule === 'simpson' && n % 2 === 1 ? n + 1 : Math.max(1, n);
+
+export const integrate = ({ f, domain: [a, b] }: Integrand, rule: QuadratureRule, n: number): number => {
+  const panels = effectivePanels(rule, n);
+  const h = (b - a) / panels;
+  let sum = 0;
+
+  switch (rule) {
+    case 'left':
+      for (let i = 0; i < panels; i++) sum += f(a + i * h);
+      return sum * h;
+    case 'right':
+      for (let i = 1; i <= panels; i++) sum += f(a + i * h);
+      return sum * h;
+    case 'midpoint':
+      for (let i = 0; i < panels; i++) sum += f(a + (i + 0.5) * h);
+      return sum * h;
+    case 'trapezoid':
+      sum = (f(a) + f(b)) / 2;
+      for (let i = 1; i < panels; i++) sum += f(a + i * h);
+      return sum * h;
+    case 'simpson':
+      sum = f(a) + f(b);
+      for (let i = 1; i < panels; i++) sum += (i % 2 === 1 ? 4 : 2) * f(a + i * h);
+      return (sum * h) / 3;
+  }
+};
+
+// |S_N − I| for every N in [1, maxN], for the error-vs-N plot
+export const errorCurve = (integrand: Integrand, rule: QuadratureRule, maxN: number) =>
+  Array.from({ length: maxN }, (_, i) => {
+    const n = i + 1;
+    return { n, error: Math.abs(integrate(integrand, rule, n) - integrand.exact) };
+  });
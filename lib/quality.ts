@@ -0,0 +1,108 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Render quality of the background scene. In 'auto' mode a governor
+// watches frame times and moves between tiers; a manual choice pins one.
+
+export type QualityTier = 'low' | 'medium' | 'high';
+export type QualityMode = 'auto' | QualityTier;
+
+export interface QualitySettings {
+  stars: number;
+  segments: number; // width and height segments of the central sphere
+  distort: boolean; // animated MeshDistortMaterial, else a plain standard material
+  maxDpr: number;
+}
+
+export const QUALITY_TIERS: Record<QualityTier, QualitySettings> = {
+  low: { stars: 600, segments: 24, distort: false, maxDpr: 1 },
+  medium: { stars: 1500, segments: 40, distort: true, maxDpr: 1.5 },
+  high: { stars: 3000, segments: 64, distort: true, maxDpr: 2 },
+};
+
+const TIER_ORDER: QualityTier[] = ['low', 'medium', 'high'];
+export const QUALITY_MODES: QualityMode[] = ['auto', ...TIER_ORDER];
+
+// --- GOVERNOR ---
+
+export const GOVERNOR_WINDOW = 1;     // s of frames averaged per decision
+const DOWNGRADE_FRAME_MS = 1000 / 45; // slower than 45 fps: drop a tier
+const UPGRADE_FRAME_MS = 1000 / 55;   // faster than 55 fps ...
+const UPGRADE_AFTER = 3;              // ... for this many windows: raise a tier
+const MAX_FLIPS = 4;                  // tier changes before upgrades stop
+
+export interface GovernorState {
+  tier: QualityTier;
+  goodWindows: number;
+  flips: number;
+}
+
+export const initialGovernor = (tier: QualityTier = 'medium'): GovernorState => ({ tier, goodWindows: 0, flips: 0 });
+
+// One decision from the mean frame time of a window. Upgrades need a run
+// of good windows, and a governor that keeps flipping between two tiers
+// settles on the lower one.
+export const stepGovernor = (state: GovernorState, meanFrameMs: number): GovernorState => {
+  const index = TIER_ORDER.indexOf(state.tier);
+
+  if (meanFrameMs > DOWNGRADE_FRAME_MS) {
+    if (index === 0) return { ...state, goodWindows: 0 };
+    return { tier: TIER_ORDER[index - 1], goodWindows: 0, flips: state.flips + 1 };
+  }
+  if (meanFrameMs < UPGRADE_FRAME_MS && index < TIER_ORDER.length - 1 && state.flips < MAX_FLIPS) {
+    const goodWindows = state.goodWindows + 1;
+    if (goodWindows < UPGRADE_AFTER) return { ...state, goodWindows };
+    return { tier: TIER_ORDER[index + 1], goodWindows: 0, flips: state.flips + 1 };
+  }
+  return { ...state, goodWindows: 0 };
+};
+
+// --- STORE ---
+
+export interface QualityState {
+  mode: QualityMode;
+  autoTier: QualityTier; // the governor's current choice
+}
+
+const STORAGE_KEY = 'quality';
+
+const readStored = (): QualityMode => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return QUALITY_MODES.find(mode => mode === stored) ?? 'auto';
+  } catch {
+    return 'auto';
+  }
+};
+
+let state: QualityState = { mode: readStored(), autoTier: 'medium' };
+const listeners = new Set<() => void>();
+
+const update = (next: Partial<QualityState>) => {
+  state = { ...state, ...next };
+  listeners.forEach(listener => listener());
+};
+
+export const getQuality = (): QualityState => state;
+
+export const effectiveTier = ({ mode, autoTier }: QualityState): QualityTier => (mode === 'auto' ? autoTier : mode);
+
+export const setQualityMode = (mode: QualityMode) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, mode);
+  } catch {
+    // Storage can be unavailable (private mode); the choice lasts the session
+  }
+  update({ mode });
+};
+
+export const reportAutoTier = (autoTier: QualityTier) => {
+  if (autoTier !== state.autoTier) update({ autoTier });
+};
+
+export const subscribeQuality = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
@@ -0,0 +1,171 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import {
+  Matrix,
+  Vector,
+  abs2,
+  arg,
+  commutator,
+  complex,
+  expectation,
+  identity,
+  madd,
+  matmul,
+  matvec,
+  mnorm,
+  msub,
+  mscale,
+  norm,
+  normalize,
+  rank,
+  zeros,
+} from './linalg';
+
+// |Ψ⟩ lives in a four-level Hilbert space; the operator family {E, C, X, G}
+// acts as Hermitian generators of its evolution (ℏ = 1).
+
+export const HILBERT_DIM = 4;
+
+export type OperatorId = 'E' | 'C' | 'X' | 'G';
+
+export const OPERATOR_IDS: OperatorId[] = ['E', 'C', 'X', 'G'];
+
+const levels = Array.from({ length: HILBERT_DIM }, (_, k) => k);
+
+const hopping = (phase: 'real' | 'chiral'): Matrix => {
+  const m = zeros(HILBERT_DIM);
+  levels.forEach(k => {
+    const next = (k + 1) % HILBERT_DIM;
+    // Real hopping is symmetric; chiral hopping carries a ±i phase so
+    // amplitude circulates one way round the ring.
+    m[next][k] = phase === 'real' ? complex(0.5) : complex(0, 0.5);
+    m[k][next] = phase === 'real' ? complex(0.5) : complex(0, -0.5);
+  });
+  return m;
+};
+
+export const GENERATORS: Record<OperatorId, Matrix> = {
+  // Ê: free dynamics, energy grows with level index
+  E: levels.map(i => levels.map(j => (i === j ? complex(i) : complex(0)))),
+  // Ĉ: vacuum coupling mixes neighbouring levels
+  C: hopping('real'),
+  // Ĉχ: chiral coupling
+  X: hopping('chiral'),
+  // Ĝ: gravitational self-energy, quadratic in displacement from the centre
+  G: levels.map(i => levels.map(j => (i === j ? complex(((i - (HILBERT_DIM - 1) / 2) ** 2) / 2) : complex(0)))),
+};
+
+// (|0⟩ + |1⟩)/√2: a superposition of the two lowest levels
+export const initialState = (): Vector => normalize(levels.map(k => complex(k < 2 ? 1 : 0)));
+
+// H = Σ (active generators), with `coupling` scaling the off-diagonal ones
+export const buildHamiltonian = (active: Record<OperatorId, boolean>, coupling = 1): Matrix =>
+  OPERATOR_IDS.reduce((h, id) => {
+    if (!active[id]) return h;
+    const weight = id === 'C' || id === 'X' ? coupling : 1;
+    return madd(h, mscale(GENERATORS[id], complex(weight)));
+  }, zeros(HILBERT_DIM));
+
+export interface Observables {
+  amplitudes: number[]; // |c_k|
+  phases: number[];     // arg c_k, radians
+  populations: number[];
+  norm2: number;        // ⟨Ψ|Ψ⟩
+  expectations: Record<OperatorId, number>;
+  energy: number;       // ⟨H⟩
+  meanLevel: number;
+  levelSpread: number;  // standard deviation of the level index
+}
+
+export const measure = (psi: Vector, hamiltonian: Matrix): Observables => {
+  const populations = psi.map(abs2);
+  const meanLevel = populations.reduce((sum, p, k) => sum + p * k, 0);
+  const variance = populations.reduce((sum, p, k) => sum + p * (k - meanLevel) ** 2, 0);
+  const expectations = OPERATOR_IDS.reduce((acc, id) => {
+    acc[id] = expectation(GENERATORS[id], psi).re;
+    return acc;
+  }, {} as Record<OperatorId, number>);
+
+  return {
+    amplitudes: psi.map(c => Math.sqrt(abs2(c))),
+    phases: psi.map(arg),
+    populations,
+    norm2: norm(psi) ** 2,
+    expectations,
+    energy: expectation(hamiltonian, psi).re,
+    meanLevel,
+    levelSpread: Math.sqrt(variance),
+  };
+};
+
+// --- COMPOSITION ---
+
+// One factor of an ordered operator product: Ô(α) = Ô − α𝟙. α is a trial
+// eigenvalue, so the factor annihilates exactly the eigenstates of Ô with
+// eigenvalue α, and a product over a generator's whole spectrum
+// annihilates everything (Cayley–Hamilton).
+export interface Factor {
+  id: OperatorId;
+  alpha: number;
+}
+
+export const MAX_FACTORS = 6;
+export const ALPHA_RANGE: [number, number] = [-2, 3];
+
+// Below this ‖Π|Ψ⟩‖² the state counts as annihilated
+export const ANNIHILATION_TOLERANCE = 1e-9;
+
+export const factorMatrix = ({ id, alpha }: Factor): Matrix =>
+  msub(GENERATORS[id], mscale(identity(HILBERT_DIM), complex(alpha)));
+
+// Written as in Ĝ·Ĉχ·Ê: the rightmost factor acts first, and the empty
+// product is 𝟙
+export const composeProduct = (factors: Factor[]): Matrix =>
+  factors.reduce((product, factor) => matmul(product, factorMatrix(factor)), identity(HILBERT_DIM));
+
+// Generators appearing anywhere in the product drive the evolution
+export const activeOperators = (factors: Factor[]): Record<OperatorId, boolean> =>
+  OPERATOR_IDS.reduce((acc, id) => {
+    acc[id] = factors.some(f => f.id === id);
+    return acc;
+  }, {} as Record<OperatorId, boolean>);
+
+export interface CommutatorCheck {
+  a: OperatorId;
+  b: OperatorId;
+  norm: number; // ‖[A, B]‖, Frobenius
+  commutes: boolean;
+}
+
+// [A, B] for each pair of distinct generators in the product. The shift
+// by α drops out, so only the generators matter; if every pair commutes
+// the order of the factors does not.
+export const productCommutators = (factors: Factor[]): CommutatorCheck[] => {
+  const ids = OPERATOR_IDS.filter(id => factors.some(f => f.id === id));
+  return ids.flatMap((a, i) => ids.slice(i + 1).map(b => {
+    const n = mnorm(commutator(GENERATORS[a], GENERATORS[b]));
+    return { a, b, norm: n, commutes: n < 1e-9 };
+  }));
+};
+
+export interface Composition {
+  matrix: Matrix;
+  commutators: CommutatorCheck[];
+  kernel: number; // dimension of the subspace the product annihilates
+}
+
+export const analyzeProduct = (factors: Factor[]): Composition => {
+  const matrix = composeProduct(factors);
+  return { matrix, commutators: productCommutators(factors), kernel: HILBERT_DIM - rank(matrix) };
+};
+
+// Π|Ψ⟩ and how much of |Ψ⟩ survives it; the product need not be unitary,
+// so `survival` can exceed 1
+export const applyProduct = (matrix: Matrix, psi: Vector) => {
+  const output = matvec(matrix, psi);
+  const survival = norm(output) ** 2;
+  return { output, survival, annihilated: survival < ANNIHILATION_TOLERANCE };
+};
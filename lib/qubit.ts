@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import {
+  Matrix,
+  Vector,
+  complex,
+  expectation,
+  fromReal,
+  identity,
+  kron,
+  madd,
+  matmul,
+  mscale,
+  normalize,
+  polar,
+  vkron,
+  zeros,
+} from './linalg';
+
+// Qubits on the Bloch sphere. |0⟩ is the north pole (+z), |1⟩ the south.
+
+export type BlochVector = [number, number, number];
+
+export const PAULI: Record<'x' | 'y' | 'z', Matrix> = {
+  x: fromReal([[0, 1], [1, 0]]),
+  y: [[complex(0), complex(0, -1)], [complex(0, 1), complex(0)]],
+  z: fromReal([[1, 0], [0, -1]]),
+};
+
+// |ψ⟩ = cos(θ/2)|0⟩ + e^{iφ} sin(θ/2)|1⟩
+export const stateFromAngles = (theta: number, phi: number): Vector => [
+  complex(Math.cos(theta / 2)),
+  polar(Math.sin(theta / 2), phi),
+];
+
+export const stateFromBloch = ([x, y, z]: BlochVector): Vector => {
+  const r = Math.hypot(x, y, z) || 1;
+  return stateFromAngles(Math.acos(Math.max(-1, Math.min(1, z / r))), Math.atan2(y, x));
+};
+
+// Operator `op` acting on qubit k of n, identity elsewhere
+export const embed = (op: Matrix, k: number, n: number): Matrix =>
+  Array.from({ length: n }, (_, i) => (i === k ? op : identity(2))).reduce((acc, m) => kron(acc, m));
+
+// ⟨σ⟩ of qubit k; shorter than 1 when the qubit is entangled with the rest
+export const reducedBloch = (psi: Vector, k: number, n: number): BlochVector => [
+  expectation(embed(PAULI.x, k, n), psi).re,
+  expectation(embed(PAULI.y, k, n), psi).re,
+  expectation(embed(PAULI.z, k, n), psi).re,
+];
+
+export const productState = (qubits: Vector[]): Vector => normalize(qubits.reduce((acc, q) => vkron(acc, q)));
+
+// H = (ω/2) n̂·σ on every qubit, plus J σz σz between neighbours
+export const precessionHamiltonian = (axis: BlochVector, omega: number, n = 1, coupling = 0): Matrix => {
+  const r = Math.hypot(...axis) || 1;
+  const single = (['x', 'y', 'z'] as const).reduce(
+    (h, key, i) => madd(h, mscale(PAULI[key], complex((omega / 2) * (axis[i] / r)))),
+    zeros(2)
+  );
+  let h = zeros(2 ** n);
+  for (let k = 0; k < n; k++) h = madd(h, embed(single, k, n));
+  for (let k = 0; k + 1 < n; k++) {
+    h = madd(h, mscale(matmul(embed(PAULI.z, k, n), embed(PAULI.z, k + 1, n)), complex(coupling)));
+  }
+  return h;
+};
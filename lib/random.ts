@@ -0,0 +1,26 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Seeded pseudo-random numbers, so simulations replay exactly from a seed
+
+export type Rng = () => number;
+
+// mulberry32: 32-bit state, uniform on [0, 1)
+export const createRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const exponential = (rng: Rng, rate: number): number => -Math.log(1 - rng()) / rate;
+
+// Box–Muller; one of the pair is discarded for simplicity
+export const gaussian = (rng: Rng): number =>
+  Math.sqrt(-2 * Math.log(1 - rng())) * Math.cos(2 * Math.PI * rng());
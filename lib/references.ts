@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { NarrativeSection, PaperManifest, Reference, RichText } from '../types';
+import { formatAuthor, formatBibtex } from './bibtex';
+
+// "A, B, & C" in APA style
+const joinAuthors = (authors: string[]): string => {
+  if (authors.length <= 1) return authors.join('');
+  return `${authors.slice(0, -1).join(', ')}, & ${authors[authors.length - 1]}`;
+};
+
+export const referenceLink = (ref: Reference): string | undefined =>
+  ref.doi ? `https://doi.org/${ref.doi}` : ref.url;
+
+// Plain-text APA reference, e.g. for the printed bibliography
+export const formatReference = (ref: Reference, withLink = true): string => {
+  const parts = [`${joinAuthors(ref.authors)} (${ref.year}). ${ref.title}.`];
+  if (ref.journal) {
+    let source = ref.journal;
+    if (ref.volume) source += `, ${ref.volume}`;
+    if (ref.issue) source += `(${ref.issue})`;
+    if (ref.pages) source += `, ${ref.pages}`;
+    parts.push(`${source}.`);
+  }
+  const link = referenceLink(ref);
+  if (link && withLink) parts.push(link);
+  return parts.join(' ');
+};
+
+// --- INLINE CITATIONS ---
+
+// Matches Pandoc-style `[@key]`, `[@key, p. 12]` and `[@a; @b]`
+export const CITATION_REF = /\[(@[\w:.-]+[^\]]*)\]/g;
+
+export interface CitationItem {
+  key: string;
+  locator?: string; // e.g. "p. 12"
+}
+
+export const parseCitation = (body: string): CitationItem[] =>
+  body.split(';').map(part => {
+    const [, key, locator] = part.trim().match(/^@([\w:.-]+)\s*,?\s*(.*)$/) ?? [];
+    return locator ? { key, locator } : { key };
+  });
+
+export const referenceAnchor = (id: string) => `ref-${id}`;
+
+// Prose a section renders through RichText, in reading order
+const sectionProse = (section: NarrativeSection): RichText[] => {
+  switch (section.kind) {
+    case 'text-viz':
+      return [...section.paragraphs, ...(section.callout?.lines ?? [])];
+    case 'derivation':
+      return [
+        section.summary,
+        ...section.equation,
+        ...(section.steps ?? []).flatMap(step => [step.justification, ...(step.details ?? [])]),
+        section.conclusion,
+      ];
+    default:
+      return [];
+  }
+};
+
+export interface Bibliography {
+  entries: Reference[]; // cited entries by first citation, then the rest
+  numbers: Map<string, number>;
+}
+
+const bibliographies = new WeakMap<PaperManifest, Bibliography>();
+
+// Entries are numbered in order of first citation, so [1] is the first
+// work the reader meets
+export const getBibliography = (paper: PaperManifest): Bibliography => {
+  const cached = bibliographies.get(paper);
+  if (cached) return cached;
+
+  const references = paper.references ?? [];
+  const cited: string[] = [];
+  paper.sections.flatMap(sectionProse).forEach(text => {
+    for (const match of text.matchAll(CITATION_REF)) {
+      parseCitation(match[1]).forEach(({ key }) => { if (!cited.includes(key)) cited.push(key); });
+    }
+  });
+  const entries = [
+    ...cited.map(key => references.find(ref => ref.id === key)).filter((ref): ref is Reference => ref !== undefined),
+    ...references.filter(ref => !cited.includes(ref.id)),
+  ];
+  const bibliography = { entries, numbers: new Map(entries.map((ref, i) => [ref.id, i + 1])) };
+  bibliographies.set(paper, bibliography);
+  return bibliography;
+};
+
+// --- CITE THIS PAGE ---
+
+// "KARA RAWSON" → "Kara Rawson"; names already in mixed case are kept
+const properCase = (name: string): string =>
+  name === name.toUpperCase()
+    ? name.toLowerCase().replace(/(^|[\s-])(\p{L})/gu, (_, sep, letter) => sep + letter.toUpperCase())
+    : name;
+
+const slug = (text: string) => text.toLowerCase().normalize('NFD').replace(/[^a-z0-9]+/g, '');
+
+const isoDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// BibTeX and APA citations for the interactive paper itself. Manifests
+// carry no publication date, so APA uses "n.d." with a retrieval date.
+export const citePage = (paper: PaperManifest, url: string, accessed: Date): { bibtex: string; apa: string } => {
+  const author = properCase(paper.author.name);
+  const words = author.split(/\s+/);
+  const family = words[words.length - 1];
+  const firstWord = paper.title.split(/\s+/).find(word => word.length > 3) ?? paper.title;
+
+  const bibtex = formatBibtex({
+    type: 'misc',
+    key: `${slug(family)}-${slug(firstWord)}`,
+    fields: {
+      author: words.length > 1 ? `${family}, ${words.slice(0, -1).join(' ')}` : author,
+      title: `{${paper.title}}`,
+      howpublished: 'Interactive web paper',
+      url,
+      urldate: isoDate(accessed),
+    },
+  });
+  const retrieved = accessed.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+  const apa = `${formatAuthor(author)} (n.d.). ${paper.title} [Interactive web paper]. Retrieved ${retrieved}, from ${url}`;
+  return { bibtex, apa };
+};
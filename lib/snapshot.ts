@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Static copies of live DOM for print export. Canvases become PNG images
+// (WebGL canvases need `preserveDrawingBuffer`), controls become inert text.
+
+export const canvasToDataUrl = (canvas: HTMLCanvasElement): string => {
+  try {
+    return canvas.toDataURL('image/png');
+  } catch {
+    return ''; // tainted canvas
+  }
+};
+
+export const snapshotElement = (element: HTMLElement): string => {
+  const clone = element.cloneNode(true) as HTMLElement;
+
+  const canvases = element.querySelectorAll('canvas');
+  clone.querySelectorAll('canvas').forEach((canvas, i) => {
+    const img = document.createElement('img');
+    img.src = canvasToDataUrl(canvases[i]);
+    img.alt = '';
+    img.style.cssText = canvas.style.cssText;
+    img.className = canvas.className;
+    canvas.replaceWith(img);
+  });
+
+  const inputs = element.querySelectorAll('input');
+  clone.querySelectorAll('input').forEach((input, i) => {
+    input.setAttribute('value', inputs[i].value);
+    input.setAttribute('disabled', '');
+    input.removeAttribute('id');
+  });
+
+  clone.querySelectorAll('button').forEach(button => {
+    const span = document.createElement('span');
+    span.className = button.className;
+    span.innerHTML = button.innerHTML;
+    button.replaceWith(span);
+  });
+
+  // Ids must stay unique in the printed document
+  clone.querySelectorAll('[id]').forEach(el => el.removeAttribute('id'));
+  return clone.outerHTML;
+};
+
+// Every element marked `data-snapshot="<key>"`, keyed by that value
+export const collectSnapshots = (root: ParentNode = document): Record<string, string> => {
+  const snapshots: Record<string, string> = {};
+  root.querySelectorAll<HTMLElement>('[data-snapshot]').forEach(el => {
+    snapshots[el.dataset.snapshot!] = snapshotElement(el);
+  });
+  return snapshots;
+};
@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import katex from 'katex';
+
+export type MathSegment =
+  | { type: 'text'; value: string }
+  | { type: 'math'; value: string; display: boolean };
+
+// `$$...$$` is display math, `$...$` is inline math
+const MATH_DELIMITERS = /\$\$([^$]+)\$\$|\$([^$\n]+)\$/g;
+
+const cache = new Map<string, string>();
+
+// Renders TeX to HTML plus hidden MathML, so screen readers get real math
+export const renderTeX = (source: string, displayMode = false): string => {
+  const key = `${displayMode ? 'D' : 'I'}:${source}`;
+  let html = cache.get(key);
+  if (html === undefined) {
+    html = katex.renderToString(source, {
+      displayMode,
+      output: 'htmlAndMathml',
+      throwOnError: false,
+      errorColor: 'rgb(var(--cyber-red))',
+      strict: 'ignore',
+    });
+    cache.set(key, html);
+  }
+  return html;
+};
+
+// Returns the parse error message for invalid TeX, or null when it is valid
+export const checkTeX = (source: string): string | null => {
+  try {
+    katex.renderToString(source, { throwOnError: true, strict: 'ignore' });
+    return null;
+  } catch (err) {
+    return (err as Error).message;
+  }
+};
+
+export const splitMath = (text: string): MathSegment[] => {
+  const segments: MathSegment[] = [];
+  let cursor = 0;
+
+  for (const match of text.matchAll(MATH_DELIMITERS)) {
+    const start = match.index ?? 0;
+    if (start > cursor) segments.push({ type: 'text', value: text.slice(cursor, start) });
+    segments.push(match[1] !== undefined
+      ? { type: 'math', value: match[1], display: true }
+      : { type: 'math', value: match[2], display: false });
+    cursor = start + match[0].length;
+  }
+  if (cursor < text.length) segments.push({ type: 'text', value: text.slice(cursor) });
+
+  return segments;
+};
@@ -0,0 +1,198 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Colour themes. Every colour in the app comes from here: Tailwind's
+// `cyber-*`, `black`, `white` and `gray-*` tokens read CSS variables set
+// from the active theme (see index.html), and canvas/SVG/three.js code reads
+// the same values through useTheme(). Tailwind's black and white are the
+// page background and ink, so a light theme swaps them.
+
+export type ThemeId = 'cyber' | 'journal' | 'high-contrast';
+
+export type GrayShade = 50 | 100 | 200 | 300 | 400 | 500 | 600 | 700 | 800 | 900 | 950;
+
+export interface Theme {
+  id: ThemeId;
+  dark: boolean;
+  base: {
+    black: string; // page background
+    white: string; // primary text
+    gray: Record<GrayShade, string>;
+  };
+  cyber: {
+    black: string;
+    dark: string;
+    gray: string;
+    yellow: string;
+    cyan: string;
+    red: string;
+    purple: string;
+  };
+  scene: {
+    stars: boolean;
+    exposure: number; // renderer tone-mapping exposure
+  };
+}
+
+const TAILWIND_GRAY: Record<GrayShade, string> = {
+  50: '#f9fafb',
+  100: '#f3f4f6',
+  200: '#e5e7eb',
+  300: '#d1d5db',
+  400: '#9ca3af',
+  500: '#6b7280',
+  600: '#4b5563',
+  700: '#374151',
+  800: '#1f2937',
+  900: '#111827',
+  950: '#030712',
+};
+
+const SHADES = Object.keys(TAILWIND_GRAY).map(Number) as GrayShade[];
+
+// gray-N ↔ gray-(1000 − N), so "muted on dark" reads as "muted on light"
+const INVERTED_GRAY = Object.fromEntries(
+  SHADES.map(shade => [shade, TAILWIND_GRAY[(1000 - shade) as GrayShade]])
+) as Record<GrayShade, string>;
+
+export const THEMES: Record<ThemeId, Theme> = {
+  cyber: {
+    id: 'cyber',
+    dark: true,
+    base: { black: '#000000', white: '#ffffff', gray: TAILWIND_GRAY },
+    cyber: {
+      black: '#050505',
+      dark: '#0f0f11',
+      gray: '#1a1a1d',
+      yellow: '#fcee0a',
+      cyan: '#00f0ff',
+      red: '#ff003c',
+      purple: '#710193',
+    },
+    scene: { stars: true, exposure: 1.5 },
+  },
+  journal: {
+    id: 'journal',
+    dark: false,
+    base: { black: '#fdfcf8', white: '#15171a', gray: INVERTED_GRAY },
+    cyber: {
+      black: '#fdfcf8',
+      dark: '#f3f1ea',
+      gray: '#e4e1d8',
+      yellow: '#a15c00',
+      cyan: '#006d8f',
+      red: '#c0002a',
+      purple: '#6b2aa0',
+    },
+    scene: { stars: false, exposure: 1 },
+  },
+  'high-contrast': {
+    id: 'high-contrast',
+    dark: true,
+    base: {
+      black: '#000000',
+      white: '#ffffff',
+      gray: {
+        50: '#ffffff',
+        100: '#ffffff',
+        200: '#f5f5f5',
+        300: '#eeeeee',
+        400: '#e0e0e0',
+        500: '#cccccc',
+        600: '#b3b3b3',
+        700: '#8c8c8c',
+        800: '#737373',
+        900: '#4d4d4d',
+        950: '#262626',
+      },
+    },
+    cyber: {
+      black: '#000000',
+      dark: '#0a0a0a',
+      gray: '#808080',
+      yellow: '#ffff00',
+      cyan: '#00ffff',
+      red: '#ff4d6d',
+      purple: '#d38cff',
+    },
+    scene: { stars: true, exposure: 1.5 },
+  },
+};
+
+export const THEME_IDS = Object.keys(THEMES) as ThemeId[];
+export const DEFAULT_THEME: ThemeId = 'cyber';
+
+// --- COLOUR HELPERS ---
+
+// `#rrggbb` → [r, g, b]
+export const channels = (hex: string): [number, number, number] =>
+  [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16)) as [number, number, number];
+
+// `#rrggbb` → `rgba(r, g, b, a)`
+export const withAlpha = (hex: string, alpha: number): string => `rgba(${channels(hex).join(', ')}, ${alpha})`;
+
+// --- CSS VARIABLES ---
+
+// Space-separated channels, so Tailwind can add `/ <alpha-value>`
+const declarations = (theme: Theme): string => {
+  const vars: [string, string][] = [
+    ['black', theme.base.black],
+    ['white', theme.base.white],
+    ...SHADES.map(shade => [`gray-${shade}`, theme.base.gray[shade]] as [string, string]),
+    ...Object.entries(theme.cyber).map(([name, hex]) => [`cyber-${name}`, hex] as [string, string]),
+  ];
+  return vars.map(([name, hex]) => `--${name}: ${channels(hex).join(' ')};`).join(' ');
+};
+
+// The print layout is designed around the default palette, whatever the
+// screen shows
+const stylesheet = (theme: Theme): string =>
+  `:root { ${declarations(theme)} color-scheme: ${theme.dark ? 'dark' : 'light'}; }\n` +
+  `@media print { :root { ${declarations(THEMES[DEFAULT_THEME])} color-scheme: light; } }`;
+
+// --- ACTIVE THEME ---
+
+const STORAGE_KEY = 'theme';
+
+const readStored = (): ThemeId => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return THEME_IDS.find(id => id === stored) ?? DEFAULT_THEME;
+  } catch {
+    return DEFAULT_THEME;
+  }
+};
+
+const styleElement = document.createElement('style');
+styleElement.id = 'theme-variables';
+document.head.appendChild(styleElement);
+
+let current = THEMES[readStored()];
+const listeners = new Set<() => void>();
+
+const apply = (theme: Theme) => {
+  styleElement.textContent = stylesheet(theme);
+  document.documentElement.dataset.theme = theme.id;
+};
+
+apply(current);
+
+export const getTheme = (): Theme => current;
+
+export const setTheme = (id: ThemeId) => {
+  current = THEMES[id];
+  apply(current);
+  try {
+    localStorage.setItem(STORAGE_KEY, id);
+  } catch {
+    // Storage can be unavailable (private mode); the choice lasts the session
+  }
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeTheme = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
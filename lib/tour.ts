@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { RichText, TourStep } from '../types';
+import { numberParam } from './urlState';
+
+// Guided tour timeline. A script is laid out on a clock once; what the
+// page shows at any time is then a pure function of that time, so playing,
+// pausing and scrubbing all go through `frameAt`.
+
+export type TourMode = 'autoplay' | 'kiosk';
+
+interface TimedStep {
+  step: TourStep;
+  start: number; // seconds
+  end: number;
+}
+
+export interface TourTimeline {
+  steps: TimedStep[];
+  duration: number;
+  // Start time of each section step, for chapter marks on the scrubber
+  chapters: { sectionId: string; time: number }[];
+}
+
+// What the page should show at one moment of the tour
+export interface TourFrame {
+  sectionId: string | null;
+  caption: RichText;
+  params: Record<string, string>;
+}
+
+export const TOUR_MODES: TourMode[] = ['autoplay', 'kiosk'];
+
+const stepDuration = (step: TourStep) => (step.action === 'ramp' || step.action === 'wait' ? step.duration : 0);
+
+export const buildTimeline = (script: TourStep[]): TourTimeline => {
+  let clock = 0;
+  const steps = script.map(step => {
+    const start = clock;
+    clock += stepDuration(step);
+    return { step, start, end: clock };
+  });
+  const chapters = steps.flatMap(({ step, start }) => (step.action === 'section' ? [{ sectionId: step.section, time: start }] : []));
+  return { steps, duration: clock, chapters };
+};
+
+const formatValue = (value: string | number) => (typeof value === 'number' ? numberParam.format(value) : value);
+
+// A linear ramp between whole numbers moves in whole steps, so it can
+// drive integer parameters (slider positions, sample counts)
+const rampValue = (step: Extract<TourStep, { action: 'ramp' }>, progress: number) => {
+  if (step.scale === 'log') return step.from * Math.pow(step.to / step.from, progress);
+  const value = step.from + (step.to - step.from) * progress;
+  return Number.isInteger(step.from) && Number.isInteger(step.to) ? Math.round(value) : value;
+};
+
+// Before a parameter's first step it holds that step's starting value, so
+// a moment of the tour looks the same however it was reached
+export const frameAt = (timeline: TourTimeline, time: number): TourFrame => {
+  const frame: TourFrame = { sectionId: null, caption: '', params: {} };
+  const initial: Record<string, string> = {};
+
+  timeline.steps.forEach(({ step, start, end }) => {
+    const reached = start <= time;
+    switch (step.action) {
+      case 'section':
+        if (reached) frame.sectionId = step.section;
+        break;
+      case 'caption':
+        if (reached) frame.caption = step.text;
+        break;
+      case 'set':
+        Object.entries(step.params).forEach(([key, value]) => {
+          initial[key] ??= formatValue(value);
+          if (reached) frame.params[key] = formatValue(value);
+        });
+        break;
+      case 'ramp': {
+        initial[step.param] ??= formatValue(step.from);
+        if (!reached) break;
+        const progress = end > start ? Math.min(1, (time - start) / (end - start)) : 1;
+        frame.params[step.param] = formatValue(rampValue(step, progress));
+        break;
+      }
+      case 'wait':
+        break;
+    }
+  });
+
+  frame.params = { ...initial, ...frame.params };
+  return frame;
+};
+
+// `?tour=autoplay` plays the tour once on load; `?tour=kiosk` loops it
+export const tourModeFromUrl = (): TourMode | null => {
+  const mode = new URLSearchParams(window.location.search).get('tour');
+  return TOUR_MODES.find(m => m === mode) ?? null;
+};
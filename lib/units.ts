@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { JULIAN_YEAR } from './constants';
+
+const PREFIXES: [number, string][] = [
+  [1e24, 'Y'], [1e21, 'Z'], [1e18, 'E'], [1e15, 'P'], [1e12, 'T'], [1e9, 'G'], [1e6, 'M'], [1e3, 'k'],
+  [1, ''],
+  [1e-3, 'm'], [1e-6, 'µ'], [1e-9, 'n'], [1e-12, 'p'], [1e-15, 'f'], [1e-18, 'a'], [1e-21, 'z'], [1e-24, 'y'],
+];
+
+export const superscript = (n: number): string =>
+  String(n).replace(/[-0-9]/g, c => '⁻⁰¹²³⁴⁵⁶⁷⁸⁹'['-0123456789'.indexOf(c)]);
+
+// Mantissas use the reader's locale (decimal separator, digits); `locale`
+// defaults to plain English notation
+export const DEFAULT_NUMBER_LOCALE = 'en-US';
+
+const formatters = new Map<string, Intl.NumberFormat>();
+const numberFormat = (locale: string, options: Intl.NumberFormatOptions): Intl.NumberFormat => {
+  const key = `${locale}|${JSON.stringify(options)}`;
+  let format = formatters.get(key);
+  if (!format) {
+    format = new Intl.NumberFormat(locale, { useGrouping: false, ...options });
+    formatters.set(key, format);
+  }
+  return format;
+};
+
+const fixed = (value: number, digits: number, locale: string) =>
+  numberFormat(locale, { minimumFractionDigits: digits, maximumFractionDigits: digits }).format(value);
+
+const significant = (value: number, digits: number, locale: string) =>
+  numberFormat(locale, { minimumSignificantDigits: digits, maximumSignificantDigits: digits }).format(value);
+
+// 3.2e-7 -> "3.20 × 10⁻⁷"
+export const formatScientific = (value: number, digits = 2, locale = DEFAULT_NUMBER_LOCALE): string => {
+  if (value === 0) return '0';
+  const exponent = Math.floor(Math.log10(Math.abs(value)));
+  const mantissa = value / Math.pow(10, exponent);
+  return `${fixed(mantissa, digits, locale)} × 10${superscript(exponent)}`;
+};
+
+// Picks the SI prefix that keeps the mantissa in [1, 1000); falls back to
+// scientific notation outside the yocto..yotta range.
+export const formatSI = (value: number, unit: string, digits = 3, locale = DEFAULT_NUMBER_LOCALE): string => {
+  if (!isFinite(value)) return `∞ ${unit}`;
+  if (value === 0) return `0 ${unit}`;
+  const abs = Math.abs(value);
+  const prefix = PREFIXES.find(([scale]) => abs >= scale);
+  if (!prefix || abs >= 1e27) return `${formatScientific(value, 2, locale)} ${unit}`;
+  return `${significant(value / prefix[0], digits, locale)} ${prefix[1]}${unit}`;
+};
+
+// Durations past a year read better in years (kyr, Myr, Gyr, ...)
+export const formatDuration = (seconds: number, digits = 3, locale = DEFAULT_NUMBER_LOCALE): string =>
+  seconds >= JULIAN_YEAR ? formatSI(seconds / JULIAN_YEAR, 'yr', digits, locale) : formatSI(seconds, 's', digits, locale);
+
+// Kilograms are special: the SI base unit already carries a prefix
+export const formatMass = (kg: number, digits = 3, locale = DEFAULT_NUMBER_LOCALE): string => formatSI(kg * 1000, 'g', digits, locale);
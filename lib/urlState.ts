@@ -0,0 +1,163 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Shareable page state. The active section lives in the hash (#proof);
+// visualization parameters live in the query string as `prefix.field`
+// keys next to `?paper=`. Values equal to their defaults are left out so
+// links stay short.
+
+export interface ParamCodec<T> {
+  parse: (raw: string) => T | undefined;
+  format: (value: T) => string;
+}
+
+export type ParamSchema<T> = { [K in keyof T]: ParamCodec<T[K]> };
+
+// --- CODECS ---
+
+export const numberParam: ParamCodec<number> = {
+  parse: raw => {
+    const value = Number(raw);
+    return raw.trim() !== '' && isFinite(value) ? value : undefined;
+  },
+  format: value => String(Number(value.toPrecision(6))),
+};
+
+export const integerParam: ParamCodec<number> = {
+  parse: raw => (/^-?\d+$/.test(raw) ? parseInt(raw, 10) : undefined),
+  format: value => String(Math.round(value)),
+};
+
+export const booleanParam: ParamCodec<boolean> = {
+  parse: raw => (raw === '1' ? true : raw === '0' ? false : undefined),
+  format: value => (value ? '1' : '0'),
+};
+
+export const enumParam = <T extends string>(values: readonly T[]): ParamCodec<T> => ({
+  parse: raw => values.find(v => v === raw),
+  format: value => value,
+});
+
+// Out-of-range values from hand-edited links are clamped, not rejected
+export const clampedParam = (codec: ParamCodec<number>, min: number, max: number): ParamCodec<number> => ({
+  parse: raw => {
+    const value = codec.parse(raw);
+    return value === undefined ? undefined : Math.min(max, Math.max(min, value));
+  },
+  format: codec.format,
+});
+
+// --- QUERY PARAMETERS ---
+
+export const paramKey = (prefix: string, field: string) => (prefix ? `${prefix}.${field}` : field);
+
+export const readParams = <T extends object>(prefix: string, schema: ParamSchema<T>, fallback: T): T => {
+  const search = new URLSearchParams(window.location.search);
+  const result = { ...fallback };
+  (Object.keys(schema) as (keyof T & string)[]).forEach(field => {
+    const raw = search.get(paramKey(prefix, field));
+    const parsed = raw === null ? undefined : schema[field].parse(raw);
+    if (parsed !== undefined) result[field] = parsed;
+  });
+  return result;
+};
+
+// Rewrites this prefix's keys in place; no history entry
+export const writeParams = <T extends object>(prefix: string, schema: ParamSchema<T>, value: T, fallback: T) => {
+  const url = new URL(window.location.href);
+  (Object.keys(schema) as (keyof T & string)[]).forEach(field => {
+    const formatted = schema[field].format(value[field]);
+    if (formatted === schema[field].format(fallback[field])) {
+      url.searchParams.delete(paramKey(prefix, field));
+    } else {
+      url.searchParams.set(paramKey(prefix, field), formatted);
+    }
+  });
+  if (url.href !== window.location.href) window.history.replaceState(window.history.state, '', url);
+};
+
+// --- SNAPSHOTS ---
+
+// Every `prefix.*` key for the given prefixes, as raw strings
+export const readPrefixedParams = (prefixes: string[]): Record<string, string> => {
+  const values: Record<string, string> = {};
+  new URLSearchParams(window.location.search).forEach((value, key) => {
+    if (prefixes.some(prefix => key.startsWith(`${prefix}.`))) values[key] = value;
+  });
+  return values;
+};
+
+const restoreListeners = new Set<() => void>();
+
+// Replaces every `prefix.*` key with `values` and tells mounted
+// visualizations to re-read their parameters
+export const restorePrefixedParams = (prefixes: string[], values: Record<string, string>) => {
+  const url = new URL(window.location.href);
+  [...url.searchParams.keys()]
+    .filter(key => prefixes.some(prefix => key.startsWith(`${prefix}.`)))
+    .forEach(key => url.searchParams.delete(key));
+  Object.entries(values).forEach(([key, value]) => url.searchParams.set(key, value));
+  if (url.href !== window.location.href) window.history.replaceState(window.history.state, '', url);
+  restoreListeners.forEach(listener => listener());
+};
+
+export const subscribeParamRestore = (listener: () => void) => {
+  restoreListeners.add(listener);
+  return () => { restoreListeners.delete(listener); };
+};
+
+// --- CONTROL ---
+
+// Mounted visualizations register a setter per query key, so a script
+// (the guided tour) drives a parameter the way its own control would
+const controls = new Map<string, Set<(raw: string) => void>>();
+
+export const registerParamControl = (key: string, apply: (raw: string) => void) => {
+  let set = controls.get(key);
+  if (!set) {
+    set = new Set();
+    controls.set(key, set);
+  }
+  set.add(apply);
+  return () => {
+    set.delete(apply);
+    if (set.size === 0) controls.delete(key);
+  };
+};
+
+// Without a mounted visualization the value waits in the query string
+export const setParamValue = (key: string, raw: string) => {
+  const apply = controls.get(key);
+  if (apply) {
+    apply.forEach(fn => fn(raw));
+    return;
+  }
+  const url = new URL(window.location.href);
+  url.searchParams.set(key, raw);
+  window.history.replaceState(window.history.state, '', url);
+};
+
+// --- SECTION HASH ---
+
+// A malformed escape (`#%E0%A4%A`) is taken as written rather than thrown
+export const sectionFromHash = (): string | null => {
+  const raw = window.location.hash.slice(1);
+  let id = raw;
+  try {
+    id = decodeURIComponent(raw);
+  } catch {
+    // URIError: keep the raw slice
+  }
+  return id || null;
+};
+
+// `push` adds a history entry so Back returns to the previous section
+export const setSectionHash = (sectionId: string, mode: 'push' | 'replace') => {
+  if (sectionFromHash() === sectionId) return;
+  const url = new URL(window.location.href);
+  url.hash = sectionId;
+  if (mode === 'push') window.history.pushState(null, '', url);
+  else window.history.replaceState(window.history.state, '', url);
+};
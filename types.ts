@@ -10,6 +10,7 @@ export interface SectionProps {
   title: string;
   children: React.ReactNode;
   className?: string;
+  sectionRef?: React.Ref<HTMLElement>;
 }
 
 export interface Laureate {
@@ -17,4 +18,158 @@ export interface Laureate {
   image: string; // placeholder url
   role: string;
   desc: string;
-}
\ No newline at end of file
+}
+
+// --- NARRATIVE SCHEMA ---
+// Sections are plain data so a whole paper can be loaded from a manifest.
+// Prose fields are rich text: `{{term-id}}` or `{{term-id|display}}`
+// renders a glossary tooltip inline, `[@key]` or `[@a; @b, p. 3]` cites
+// references, and `$...$` is TeX math.
+
+export type RichText = string;
+
+export type SectionKind = 'hero' | 'text-viz' | 'derivation' | 'glossary' | 'references' | 'contact';
+
+// Which side of the row the visualization sits on (on large screens)
+export type SectionLayout = 'viz-right' | 'viz-left';
+
+export type VizId = 'operator-family' | 'hilbert-space' | 'integral-summation' | 'collapse-threshold' | 'density-matrix';
+
+export type AccentColor = 'cyan' | 'yellow' | 'red';
+
+interface NarrativeSectionBase {
+  id: string;
+  title: string;
+  kind: SectionKind;
+  // Speaker notes, shown only in the presenter window
+  notes?: RichText[];
+}
+
+export interface HeroSection extends NarrativeSectionBase {
+  kind: 'hero';
+  subtitle: string;
+  cta: string;
+}
+
+export interface TextVizSection extends NarrativeSectionBase {
+  kind: 'text-viz';
+  label: string;
+  layout: SectionLayout;
+  viz: VizId;
+  accent: AccentColor;
+  paragraphs: RichText[];
+  callout?: {
+    accent: AccentColor;
+    lines: RichText[];
+  };
+}
+
+// One line of a worked derivation: the equation after this step, why it
+// follows from the one before, and the substitution spelled out
+export interface DerivationStep {
+  tex: string; // display-mode TeX source
+  justification: RichText;
+  details?: RichText[];
+}
+
+export interface DerivationSection extends NarrativeSectionBase {
+  kind: 'derivation';
+  label: string;
+  summary: RichText;
+  // Alternating terms and relations of the final result, left to right
+  equation: RichText[];
+  // TeX source for display-mode equations shown beneath it
+  display?: string[];
+  // The chain of reasoning that leads to the result, stepped through in order
+  steps?: DerivationStep[];
+  conclusion: RichText;
+  signoff: string;
+}
+
+// Lists every glossary term; the entries come from the manifest
+export interface GlossarySection extends NarrativeSectionBase {
+  kind: 'glossary';
+  label: string;
+}
+
+// Lists the references, numbered by first citation, and a "cite this
+// page" panel
+export interface ReferencesSection extends NarrativeSectionBase {
+  kind: 'references';
+  label: string;
+}
+
+// The author card itself lives on the manifest
+export interface ContactSection extends NarrativeSectionBase {
+  kind: 'contact';
+  signoff: string;
+}
+
+export type NarrativeSection =
+  | HeroSection
+  | TextVizSection
+  | DerivationSection
+  | GlossarySection
+  | ReferencesSection
+  | ContactSection;
+
+// --- GUIDED TOUR ---
+
+// One step of a scripted walk through the paper. Steps run back to back;
+// `section`, `caption` and `set` take no time. Parameters are addressed by
+// their query key (`dp.mass`, `op.G`), as in shareable links; booleans are
+// 1 or 0. A caption stays up until the next one, and "" clears it.
+export type TourStep =
+  | { action: 'section'; section: string }
+  | { action: 'caption'; text: RichText }
+  | { action: 'set'; params: Record<string, string | number> }
+  | { action: 'ramp'; param: string; from: number; to: number; duration: number; scale?: 'linear' | 'log' }
+  | { action: 'wait'; duration: number };
+
+export type TourAction = TourStep['action'];
+
+// --- PAPER MANIFEST ---
+
+export interface AuthorCard {
+  name: string;
+  role: string;
+  email: string;
+  github: string;
+}
+
+export interface GlossaryEntry {
+  symbol: string; // TeX source
+  title: string;
+  tip: string;
+  related?: string[]; // ids of other glossary terms
+}
+
+// A bibliography entry; `authors` are "Family, G." strings
+export interface Reference {
+  id: string;
+  authors: string[];
+  year: number;
+  title: string;
+  journal?: string;
+  volume?: string;
+  issue?: string;
+  pages?: string;
+  doi?: string;
+  url?: string;
+}
+
+export interface PaperManifest {
+  title: string;
+  author: AuthorCard;
+  glossary: Record<string, GlossaryEntry>;
+  sections: NarrativeSection[];
+  references?: Reference[];
+  // BibTeX file, relative to the manifest, whose entries join `references`
+  bibliography?: string;
+  // Translation overlays by locale, relative to the manifest. An overlay
+  // replaces prose field by field; anything it leaves out stays as is.
+  translations?: Record<string, string>;
+  // Guided tour, played from the side navigation or with `?tour=autoplay`
+  // (once) or `?tour=kiosk` (looping, controls hidden)
+  tour?: TourStep[];
+}